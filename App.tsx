@@ -15,12 +15,16 @@ import HistoryPage from './pages/HistoryPage';
 import VideoPlayerPage from './pages/VideoPlayerPage';
 import ManagementPage from './pages/ManagementPage'; // Import the new page
 import LiteModePage from './pages/LiteModePage'; // Import Lite Page
+import ProviderSettingsPage from './pages/ProviderSettingsPage';
 import { useTheme } from './hooks/useTheme';
 import { AiProvider } from './contexts/AiContext';
 import { usePreference } from './contexts/PreferenceContext';
 import HistoryDeletionModal from './components/HistoryDeletionModal';
 import SearchHistoryDeletionModal from './components/SearchHistoryDeletionModal';
 import UpdateAnnouncementModal from './components/UpdateAnnouncementModal';
+import ServiceStatusBanner from './components/ServiceStatusBanner';
+import MappingDiagnosticsPanel from './components/MappingDiagnosticsPanel';
+import MiniPlayer from './components/MiniPlayer';
 
 const App: React.FC = () => {
   const { theme } = useTheme();
@@ -100,6 +104,8 @@ const App: React.FC = () => {
             openHistoryDeletionModal={openHistoryDeletionModal}
             openSearchHistoryDeletionModal={openSearchHistoryDeletionModal}
         />
+        <ServiceStatusBanner />
+        {import.meta.env.DEV && <MappingDiagnosticsPanel />}
         <div className="flex">
             {shouldShowSidebar() && <Sidebar isOpen={isSidebarOpen} />}
             {/* FIX: Removed key={location.pathname} to prevent full re-renders on URL changes (especially for Shorts navigation) */}
@@ -116,11 +122,14 @@ const App: React.FC = () => {
                 <Route path="/subscriptions" element={<SubscriptionsPage />} />
                 <Route path="/history" element={<HistoryPage />} />
                 <Route path="/management" element={<ManagementPage />} /> {/* Add new route */}
+                <Route path="/settings/providers" element={<ProviderSettingsPage />} />
                 <Route path="*" element={<HomePage />} />
             </Routes>
             </main>
         </div>
         <BottomNavigation />
+        {/* 視聴ページから離れても再生を続ける */}
+        <MiniPlayer />
         {isHistoryDeletionModalOpen && (
             <HistoryDeletionModal 
             isOpen={isHistoryDeletionModalOpen} 
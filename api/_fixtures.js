@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// -------------------------------------------------------------------
+// フィクスチャモード
+//   YT_FIXTURE_MODE=record : Innertube が受け取った生の youtubei レスポンス (/youtubei/v1/*) と字幕 (/api/timedtext) をディスクに保存する
+//   YT_FIXTURE_MODE=replay : 保存済みの生レスポンスを返し、YouTube には一切アクセスしない
+// 各ルートのマッピングは再生時もそのまま動くので、api/index.js の変換もフィクスチャで確かめられる。
+// 保存先は YT_FIXTURE_DIR (既定: fixtures/youtubei)
+// -------------------------------------------------------------------
+
+const DEFAULT_FIXTURE_DIR = path.resolve(process.cwd(), "fixtures/youtubei");
+const MAX_KEY_LENGTH = 120;
+const INNERTUBE_PATH = /^\/youtubei\/v1\//;
+const TIMEDTEXT_PATH = /^\/api\/timedtext\/?$/;
+
+// リクエストを区別する本文のフィールド。context などセッションごとに変わる値は含めない
+const KEY_FIELDS = ["browseId", "continuation", "params", "query", "videoId"];
+// 字幕は GET なのでクエリで区別する。署名や有効期限は毎回変わるので含めない
+const TIMEDTEXT_KEY_FIELDS = ["v", "lang", "kind", "tlang"];
+
+const isFixturePath = (pathname) => INNERTUBE_PATH.test(pathname) || TIMEDTEXT_PATH.test(pathname);
+
+const readBody = (body) => {
+  try {
+    return typeof body === "string" ? JSON.parse(body) : {};
+  } catch {
+    return {};
+  }
+};
+
+// POST /youtubei/v1/next {"videoId":"abc"} -> "next__videoId-abc"
+// GET /api/timedtext?v=abc&lang=ja&signature=... -> "timedtext__v-abc_lang-ja"
+export const fixtureKey = (url, body) => {
+  const { pathname, searchParams } = new URL(url);
+  const isTimedText = TIMEDTEXT_PATH.test(pathname);
+  const route = isTimedText ? "timedtext" : pathname.replace(INNERTUBE_PATH, "").replace(/\/+$/, "").replace(/\//g, "__");
+  const payload = isTimedText ? Object.fromEntries(searchParams) : readBody(body);
+  const params = (isTimedText ? TIMEDTEXT_KEY_FIELDS : KEY_FIELDS)
+    .filter((field) => typeof payload[field] === "string" && payload[field])
+    .map((field) => `${field}-${payload[field]}`)
+    .join("_");
+  const key = `${route}${params ? `__${params}` : ""}`.replace(/[^\w.-]+/g, "_");
+  if (key.length <= MAX_KEY_LENGTH) return key;
+  // continuation のような長い値はハッシュで短くする
+  const hash = crypto.createHash("sha1").update(key).digest("hex").slice(0, 12);
+  return `${key.slice(0, MAX_KEY_LENGTH - 13)}_${hash}`;
+};
+
+const toUrl = (input) => (typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+
+const createReplayFetch = (dir) => async (input, init = {}) => {
+  const url = toUrl(input);
+  if (!isFixturePath(new URL(url).pathname)) {
+    throw new Error(`[fixtures] replay mode does not access the network (${url})`);
+  }
+  const name = `${fixtureKey(url, init.body)}.json`;
+  const file = path.join(dir, name);
+  if (!fs.existsSync(file)) {
+    console.warn(`[fixtures] no fixture recorded: ${name}`);
+    return new Response(JSON.stringify({ error: "No fixture recorded", fixture: name }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  return new Response(fs.readFileSync(file, "utf8"), { status: 200, headers: { "Content-Type": "application/json" } });
+};
+
+const createRecordingFetch = (dir) => async (input, init = {}) => {
+  const response = await fetch(input, init);
+  const url = toUrl(input);
+  if (!response.ok || !isFixturePath(new URL(url).pathname)) return response;
+
+  const name = `${fixtureKey(url, init.body)}.json`;
+  try {
+    const data = await response.clone().json();
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, name), JSON.stringify(data, null, 2));
+    console.log(`[fixtures] recorded ${new URL(url).pathname} -> ${name}`);
+  } catch (err) {
+    console.warn(`[fixtures] failed to record ${url}:`, err.message);
+  }
+  return response;
+};
+
+// Innertube.create に追加で渡すオプション。フィクスチャモードでなければ空
+// 再生時はセッションデータをローカルで作り、プレイヤー (署名解読用の JS) も取得しない
+export const createFixtureSessionOptions = ({ mode, dir = DEFAULT_FIXTURE_DIR }) => {
+  if (mode === "record") {
+    console.log(`[fixtures] record mode (${dir})`);
+    return { fetch: createRecordingFetch(dir) };
+  }
+  if (mode === "replay") {
+    console.log(`[fixtures] replay mode (${dir})`);
+    return { fetch: createReplayFetch(dir), generate_session_locally: true, retrieve_player: false };
+  }
+  return {};
+};
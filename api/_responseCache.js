@@ -0,0 +1,60 @@
+// -------------------------------------------------------------------
+// インメモリ LRU レスポンスキャッシュ
+// ルートごとの TTL でJSONレスポンスを保持し、同じ動画・チャンネルへの再リクエストでは
+// YouTube にアクセスしない。X-Cache: HIT / MISS と Age ヘッダーで効果を確認できる。
+// -------------------------------------------------------------------
+
+const MAX_ENTRIES = 500;
+const MAX_BYTES = 64 * 1024 * 1024; // 64MB
+
+// Map は挿入順を保持するので、参照時に入れ直すことで LRU として使う
+const entries = new Map();
+let totalBytes = 0;
+
+const removeEntry = (key) => {
+  const entry = entries.get(key);
+  if (!entry) return;
+  totalBytes -= entry.body.length;
+  entries.delete(key);
+};
+
+const evict = () => {
+  for (const key of entries.keys()) {
+    if (entries.size <= MAX_ENTRIES && totalBytes <= MAX_BYTES) break;
+    removeEntry(key);
+  }
+};
+
+export const cacheFor = (ttlMs) => (req, res, next) => {
+  const key = req.originalUrl;
+  const now = Date.now();
+  const entry = entries.get(key);
+
+  if (entry && entry.expiry > now) {
+    entries.delete(key);
+    entries.set(key, entry);
+    res.setHeader("X-Cache", "HIT");
+    res.setHeader("Age", String(Math.floor((now - entry.storedAt) / 1000)));
+    res.status(200).type("application/json").send(entry.body);
+    return;
+  }
+  if (entry) removeEntry(key);
+
+  res.setHeader("X-Cache", "MISS");
+  const originalJson = res.json.bind(res);
+  res.json = (body) => {
+    if (res.statusCode === 200) {
+      try {
+        const serialized = JSON.stringify(body);
+        removeEntry(key);
+        entries.set(key, { body: serialized, storedAt: Date.now(), expiry: Date.now() + ttlMs });
+        totalBytes += serialized.length;
+        evict();
+      } catch (err) {
+        console.warn(`[cache] failed to store ${key}:`, err.message);
+      }
+    }
+    return originalJson(body);
+  };
+  next();
+};
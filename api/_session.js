@@ -0,0 +1,53 @@
+import { Innertube } from "youtubei.js";
+import { createFixtureSessionOptions } from "./_fixtures.js";
+
+// -------------------------------------------------------------------
+// Innertube セッションプール
+// Innertube.create は毎回セッションのブートストラップを行うため、lang/location ごとに使い回す。
+// 一定時間経ったら裏で作り直し、完成するまでは古いセッションを返し続ける。
+// -------------------------------------------------------------------
+
+const SESSION_MAX_AGE_MS = 60 * 60 * 1000; // 1時間
+
+const pool = new Map();
+
+// 録画/再生モード (api/_fixtures.js 参照)。未設定なら空のオプション
+const fixtureOptions = createFixtureSessionOptions({
+  mode: process.env.YT_FIXTURE_MODE,
+  dir: process.env.YT_FIXTURE_DIR,
+});
+
+const createSession = (lang, location) => {
+  const entry = {
+    createdAt: Date.now(),
+    promise: Innertube.create({ lang, location, ...fixtureOptions }),
+    refreshing: null,
+  };
+  // 作成に失敗したセッションはプールに残さない
+  entry.promise.catch((err) => {
+    console.error(`[session] Innertube.create failed (${lang}/${location}):`, err.message);
+    if (pool.get(`${lang}:${location}`) === entry) pool.delete(`${lang}:${location}`);
+  });
+  return entry;
+};
+
+export const getYoutube = async ({ lang = "ja", location = "JP" } = {}) => {
+  const key = `${lang}:${location}`;
+  let entry = pool.get(key);
+
+  if (!entry) {
+    entry = createSession(lang, location);
+    pool.set(key, entry);
+    return entry.promise;
+  }
+
+  if (Date.now() - entry.createdAt > SESSION_MAX_AGE_MS && !entry.refreshing) {
+    const next = createSession(lang, location);
+    entry.refreshing = next;
+    next.promise
+      .then(() => pool.set(key, next))
+      .catch(() => { entry.refreshing = null; });
+  }
+
+  return entry.promise;
+};
@@ -1,5 +1,7 @@
 import express from "express";
-import { Innertube } from "youtubei.js";
+import { YT, YTNodes } from "youtubei.js";
+import { getYoutube } from "./_session.js";
+import { cacheFor } from "./_responseCache.js";
 
 const app = express();
 
@@ -8,15 +10,78 @@ app.use((req, res, next) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // クライアントからキャッシュの効果を計測できるようにする
+  res.setHeader('Access-Control-Expose-Headers', 'X-Cache, Age');
   next();
 });
 
-// YouTubeクライアントの作成ヘルパー
-const createYoutube = async () => {
-  return await Innertube.create({ 
-    lang: "ja", 
-    location: "JP",
-  });
+const MINUTE = 60 * 1000;
+
+// -------------------------------------------------------------------
+// 継続トークン
+// youtubei の ContinuationItem を不透明なトークンにしてクライアントへ返す。
+// 次ページはトークンから continuation リクエストを1回送るだけで取得でき、1ページ目から辿り直さない。
+// -------------------------------------------------------------------
+// 「さらに表示」ボタン型 (返信の続きなど) は button 側にエンドポイントを持っている
+const encodeContinuationItem = (item) => {
+  const endpoint = item?.endpoint?.payload?.token ? item.endpoint : item?.button?.endpoint;
+  const token = endpoint?.payload?.token;
+  const api = endpoint?.metadata?.api_url;
+  if (!token || !api) return undefined;
+  return Buffer.from(JSON.stringify({ api, token })).toString("base64url");
+};
+
+const encodeContinuation = (feed) => {
+  const headerItems = feed.page?.header_memo?.getType(YTNodes.ContinuationItem) || [];
+  const bodyItems = (feed.memo?.getType(YTNodes.ContinuationItem) || []).filter((item) => !headerItems.includes(item));
+  return encodeContinuationItem(bodyItems[bodyItems.length - 1]);
+};
+
+// トークンはクライアントから戻ってくるので、続きの取得に使う innertube API 以外は受け付けない
+const CONTINUATION_APIS = ["/search", "/browse", "/next"];
+
+const decodeContinuation = (value) => {
+  try {
+    const { api, token } = JSON.parse(Buffer.from(String(value), "base64url").toString("utf8"));
+    if (typeof api !== "string" || typeof token !== "string") return null;
+    const path = api.startsWith("/") ? api : `/${api}`;
+    return CONTINUATION_APIS.includes(path) ? { api: path, token } : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchContinuation = (youtube, { api, token }) => {
+  return youtube.actions.execute(api, { continuation: token, parse: true });
+};
+
+// -------------------------------------------------------------------
+// 検索フィルター
+// クエリの upload_date / type / duration / sort_by / features(カンマ区切り) を
+// youtubei の SearchFilters に変換する。不正な値は 400 を返すために null にする。
+// -------------------------------------------------------------------
+const SEARCH_FILTER_VALUES = {
+  upload_date: ["all", "hour", "today", "week", "month", "year"],
+  type: ["all", "video", "channel", "playlist", "movie"],
+  duration: ["all", "short", "medium", "long"],
+  sort_by: ["relevance", "rating", "upload_date", "view_count"],
+};
+const SEARCH_FEATURES = ["hd", "subtitles", "creative_commons", "3d", "live", "purchased", "4k", "360", "location", "hdr", "vr180"];
+
+const parseSearchFilters = (query) => {
+  const filters = {};
+  for (const [key, allowed] of Object.entries(SEARCH_FILTER_VALUES)) {
+    const value = query[key];
+    if (value === undefined || value === "") continue;
+    if (!allowed.includes(value)) return null;
+    filters[key] = value;
+  }
+  if (query.features) {
+    const features = [...new Set(String(query.features).split(",").filter(Boolean))];
+    if (!features.every((feature) => SEARCH_FEATURES.includes(feature))) return null;
+    filters.features = features;
+  }
+  return filters;
 };
 
 // -------------------------------------------------------------------
@@ -69,16 +134,48 @@ app.get('/api/stream/:videoId', async (req, res) => {
   }
 });
 
+// -------------------------------------------------------------------
+// チャプター
+// プレイヤーバーのマーカー (説明欄チャプター / 自動チャプター) を優先し、
+// 無ければ「チャプター」エンゲージメントパネル (MacroMarkersList) から取る。
+// どちらも無い場合は空配列を返し、クライアント側で説明欄のタイムスタンプから推定する。
+// -------------------------------------------------------------------
+const CHAPTER_MARKER_KEYS = ["DESCRIPTION_CHAPTERS", "AUTO_CHAPTERS"];
+
+const extractChapters = (info) => {
+  const markers = info.player_overlays?.decorated_player_bar?.player_bar?.markers_map || [];
+  for (const key of CHAPTER_MARKER_KEYS) {
+    const chapters = markers.find((marker) => marker.marker_key === key)?.value?.chapters;
+    if (chapters?.length) {
+      return chapters.map((chapter) => ({
+        title: chapter.title?.text ?? "",
+        start: (chapter.time_range_start_millis || 0) / 1000
+      }));
+    }
+  }
+
+  const panels = info.page?.[1]?.engagement_panels || [];
+  const markersList = panels.find((panel) => panel.content?.is?.(YTNodes.MacroMarkersList))?.content;
+  const items = markersList?.contents?.filterType(YTNodes.MacroMarkersListItem) || [];
+  return items
+    .map((item) => ({
+      title: item.title?.text ?? "",
+      start: Number(item.on_tap_endpoint?.payload?.startTimeSeconds)
+    }))
+    .filter((chapter) => Number.isFinite(chapter.start));
+};
+
 // -------------------------------------------------------------------
 // 動画詳細 API (/api/video)
 // -------------------------------------------------------------------
-app.get('/api/video', async (req, res) => {
+app.get('/api/video', cacheFor(10 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing video id" });
 
     const info = await youtube.getInfo(id);
+    const chapters = extractChapters(info);
 
     // 関連動画取得ロジック
     let allCandidates = [];
@@ -90,17 +187,18 @@ app.get('/api/video', async (req, res) => {
     addCandidates(info.watch_next_feed);
     addCandidates(info.related_videos);
     
+    const seenIds = new Set();
+    const relatedVideos = [];
+    const MAX_VIDEOS = 50;
+
+    for (const video of allCandidates) {
+       if(video.id) seenIds.add(video.id);
+       relatedVideos.push(video);
+    }
+
     try {
       let continuationCount = 0;
       let currentFeed = info; 
-      const seenIds = new Set();
-      const relatedVideos = [];
-      const MAX_VIDEOS = 50;
-
-      for (const video of allCandidates) {
-         if(video.id) seenIds.add(video.id);
-         relatedVideos.push(video);
-      }
 
       while (relatedVideos.length < MAX_VIDEOS && continuationCount < 2) {
           if (typeof currentFeed.getWatchNextContinuation === 'function') {
@@ -119,16 +217,18 @@ app.get('/api/video', async (req, res) => {
           }
           continuationCount++;
       }
-      info.watch_next_feed = relatedVideos;
-
     } catch (e) {
-      console.warn('[API] Continuation failed, returning basic info:', e.message);
+      console.warn('[API] Continuation failed, returning the related videos fetched so far:', e.message);
     }
+    // getWatchNextContinuation は info.watch_next_feed を次のページで上書きするので、集めた分で戻す
+    info.watch_next_feed = relatedVideos;
 
     if (info.secondary_info) info.secondary_info.watch_next_feed = [];
     info.related_videos = [];
     info.related = [];
 
+    info.chapters = chapters;
+
     res.status(200).json(info);
     
   } catch (err) {
@@ -138,53 +238,162 @@ app.get('/api/video', async (req, res) => {
 });
 
 // -------------------------------------------------------------------
-// 検索 API (/api/search)
+// 字幕 API (/api/captions?id=xxx&track=vssId)
+// 字幕トラック一覧と、指定トラック (省略時は日本語 > 既定トラック > 先頭) のキューを返す。
+// キューは timedtext の json3 を { start, end, text } (秒) に正規化したもの。
 // -------------------------------------------------------------------
-app.get('/api/search', async (req, res) => {
+const toCaptionTrack = (track) => ({
+  id: track.vss_id,
+  languageCode: track.language_code,
+  name: track.name?.text ?? track.language_code,
+  isAutoGenerated: track.kind === "asr"
+});
+
+const pickDefaultCaptionTrack = (tracks, defaultIndex) => {
+  return tracks.find((t) => t.language_code === "ja" && t.kind !== "asr")
+    ?? tracks.find((t) => t.language_code === "ja")
+    ?? (defaultIndex !== undefined ? tracks[defaultIndex] : undefined)
+    ?? tracks[0];
+};
+
+// セッションの fetch を使うと、字幕の取得もフィクスチャの記録・再生の対象になる
+const fetchCaptionCues = async (youtube, track) => {
+  const url = new URL(track.base_url);
+  url.searchParams.set("fmt", "json3");
+  const response = await youtube.session.http.fetch_function(url);
+  if (!response.ok) throw new Error(`Caption request failed with status ${response.status}`);
+  const data = await response.json();
+  return (data.events || [])
+    .filter((event) => Array.isArray(event.segs))
+    .map((event) => ({
+      start: event.tStartMs / 1000,
+      end: (event.tStartMs + (event.dDurationMs || 0)) / 1000,
+      text: event.segs.map((seg) => seg.utf8 || "").join("").replace(/\n/g, " ").trim()
+    }))
+    .filter((cue) => cue.text);
+};
+
+app.get('/api/captions', cacheFor(30 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
-    const { q: query, page = '1' } = req.query;
-    if (!query) return res.status(400).json({ error: "Missing search query" });
+    const youtube = await getYoutube();
+    const { id, track: trackId } = req.query;
+    if (!id) return res.status(400).json({ error: "Missing video id" });
 
-    const targetPage = parseInt(page);
-    const ITEMS_PER_PAGE = 50;
-    
-    let search = await youtube.search(query);
-    
-    let allVideos = [...(search.videos || [])];
-    let allShorts = [...(search.shorts || [])];
-    let allChannels = [...(search.channels || [])];
-    let allPlaylists = [...(search.playlists || [])];
-
-    const requiredCount = targetPage * ITEMS_PER_PAGE;
-    let continuationAttempts = 0;
-    const MAX_ATTEMPTS = 20;
-
-    while (allVideos.length < requiredCount && search.has_continuation && continuationAttempts < MAX_ATTEMPTS) {
-        search = await search.getContinuation();
-        if (search.videos) allVideos.push(...search.videos);
-        if (search.shorts) allShorts.push(...search.shorts);
-        if (search.channels) allChannels.push(...search.channels);
-        if (search.playlists) allPlaylists.push(...search.playlists);
-        continuationAttempts++;
+    const info = await youtube.getBasicInfo(id);
+    const tracklist = info.captions;
+    const rawTracks = tracklist?.caption_tracks || [];
+    const tracks = rawTracks.map(toCaptionTrack);
+    if (rawTracks.length === 0) return res.status(200).json({ tracks, track: null, cues: [] });
+
+    const defaultIndex = tracklist.audio_tracks?.[0]?.default_caption_track_index;
+    const selected = trackId ? rawTracks.find((t) => t.vss_id === trackId) : pickDefaultCaptionTrack(rawTracks, defaultIndex);
+    if (!selected) return res.status(404).json({ error: "Caption track not found" });
+
+    res.status(200).json({ tracks, track: toCaptionTrack(selected), cues: await fetchCaptionCues(youtube, selected) });
+  } catch (err) {
+    console.error('Error in /api/captions:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// 動画メタデータ一括取得 API (/api/videos?ids=a,b,c)
+// getInfo + 関連動画の継続取得は重いため、プレイリスト表示用に
+// player エンドポイントのみ (getBasicInfo) で軽量なレコードを返す
+// -------------------------------------------------------------------
+const MAX_BATCH_IDS = 50;
+const BATCH_CONCURRENCY = 6;
+
+const toVideoSummary = (id, info) => {
+  const basic = info.basic_info || {};
+  const microformat = info.page?.[0]?.microformat;
+  const thumbnails = basic.thumbnail || [];
+  return {
+    id,
+    title: basic.title || '',
+    thumbnailUrl: thumbnails[0]?.url || `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+    durationSeconds: basic.duration || 0,
+    channelName: basic.author || basic.channel?.name || '',
+    channelId: basic.channel_id || basic.channel?.id || '',
+    viewCount: Number.isFinite(basic.view_count) ? basic.view_count : null,
+    publishDate: microformat?.publish_date || null,
+    isLive: !!basic.is_live,
+  };
+};
+
+app.get('/api/videos', cacheFor(30 * MINUTE), async (req, res) => {
+  try {
+    const { ids } = req.query;
+    if (!ids) return res.status(400).json({ error: "Missing video ids" });
+
+    const uniqueIds = [...new Set(String(ids).split(',').map(id => id.trim()).filter(Boolean))];
+    if (uniqueIds.length > MAX_BATCH_IDS) {
+      return res.status(400).json({ error: `Too many ids (max ${MAX_BATCH_IDS})` });
     }
 
-    const startIndex = (targetPage - 1) * ITEMS_PER_PAGE;
-    const endIndex = startIndex + ITEMS_PER_PAGE;
+    const youtube = await getYoutube();
+    const videos = [];
+    const errors = [];
+
+    // 同時リクエスト数を制限しながら順番に処理する
+    let cursor = 0;
+    const worker = async () => {
+      while (cursor < uniqueIds.length) {
+        const id = uniqueIds[cursor++];
+        try {
+          const info = await youtube.getBasicInfo(id);
+          if (info.playability_status?.status === 'ERROR' || !info.basic_info?.title) {
+            errors.push({ id, error: info.playability_status?.reason || 'Video unavailable' });
+            continue;
+          }
+          videos.push(toVideoSummary(id, info));
+        } catch (e) {
+          errors.push({ id, error: e.message });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, uniqueIds.length) }, worker));
+
+    // 呼び出し側の順序を保つ
+    const order = new Map(uniqueIds.map((id, index) => [id, index]));
+    videos.sort((a, b) => order.get(a.id) - order.get(b.id));
+
+    res.status(200).json({ videos, errors });
+  } catch (err) {
+    console.error('Error in /api/videos:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
 
-    const pagedVideos = allVideos.slice(startIndex, endIndex);
-    const pagedShorts = targetPage === 1 ? allShorts : [];
-    const pagedChannels = targetPage === 1 ? allChannels : [];
-    const pagedPlaylists = targetPage === 1 ? allPlaylists : [];
+// -------------------------------------------------------------------
+// 検索 API (/api/search)
+// -------------------------------------------------------------------
+app.get('/api/search', cacheFor(5 * MINUTE), async (req, res) => {
+  try {
+    const youtube = await getYoutube();
+    const { q: query, continuation } = req.query;
+    if (!query) return res.status(400).json({ error: "Missing search query" });
 
-    const hasMore = allVideos.length > endIndex || search.has_continuation;
+    let search;
+    if (continuation) {
+      // 継続トークンに絞り込み条件が含まれているのでフィルターは見ない
+      const decoded = decodeContinuation(continuation);
+      if (!decoded) return res.status(400).json({ error: "Invalid continuation token" });
+      search = new YT.Search(youtube.actions, await fetchContinuation(youtube, decoded), true);
+    } else {
+      const filters = parseSearchFilters(req.query);
+      if (!filters) return res.status(400).json({ error: "Invalid search filter" });
+      search = await youtube.search(query, filters);
+    }
 
+    // ショートは1ページ目だけ返す。チャンネル・プレイリストは type で絞り込んだときに続きが必要になるので毎回返す
+    const isFirstPage = !continuation;
     res.status(200).json({
-        videos: pagedVideos,
-        shorts: pagedShorts,
-        channels: pagedChannels,
-        playlists: pagedPlaylists,
-        nextPageToken: hasMore ? String(targetPage + 1) : undefined
+        videos: search.videos || [],
+        shorts: isFirstPage ? (search.shorts || []) : [],
+        channels: search.channels || [],
+        playlists: search.playlists || [],
+        nextPageToken: search.has_continuation ? encodeContinuation(search) : undefined
     });
   } catch (err) { 
       console.error('Error in /api/search:', err); 
@@ -193,41 +402,74 @@ app.get('/api/search', async (req, res) => {
 });
 
 // -------------------------------------------------------------------
-// コメント API (/api/comments)
+// 検索候補 API (/api/suggest)
 // -------------------------------------------------------------------
-app.get('/api/comments', async (req, res) => {
+app.get('/api/suggest', cacheFor(10 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
-    const { id } = req.query;
+    const youtube = await getYoutube();
+    const query = String(req.query.q || "").trim();
+    if (!query) return res.status(200).json({ suggestions: [] });
+
+    const suggestions = await youtube.getSearchSuggestions(query);
+    res.status(200).json({ suggestions: (suggestions || []).slice(0, 10) });
+  } catch (err) {
+    console.error('Error in /api/suggest:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// コメント API (/api/comments, /api/comments/replies)
+// 1リクエスト1ページ。続きは nextPageToken (継続トークン) で取得する。
+// -------------------------------------------------------------------
+const COMMENT_SORTS = { top: "TOP_COMMENTS", newest: "NEWEST_FIRST" };
+
+// Comment (旧形式) と CommentView (viewModel 形式) のどちらも同じ形にする
+const serializeComment = (comment) => ({
+  text: comment?.content?.text ?? null,
+  comment_id: comment?.comment_id ?? null,
+  published_time: comment?.published_time?.text ?? comment?.published_time ?? comment?.published?.text ?? null,
+  author: {
+    id: comment?.author?.id ?? null,
+    name: comment?.author?.name?.text ?? comment?.author?.name ?? null,
+    thumbnails: comment?.author?.thumbnails ?? []
+  },
+  like_count: (comment?.like_count ?? comment?.vote_count)?.toString() ?? '0',
+  reply_count: comment?.reply_count?.toString() ?? '0',
+  is_pinned: comment?.is_pinned ?? false,
+  is_hearted: comment?.is_hearted ?? false,
+  author_is_channel_owner: comment?.author_is_channel_owner ?? false
+});
+
+const serializeThread = (thread) => ({
+  ...serializeComment(thread.comment),
+  replies_token: encodeContinuationItem(thread.comment_replies_data?.contents?.firstOfType(YTNodes.ContinuationItem))
+});
+
+app.get('/api/comments', cacheFor(5 * MINUTE), async (req, res) => {
+  try {
+    const youtube = await getYoutube();
+    const { id, continuation, sort = "top" } = req.query;
     if (!id) return res.status(400).json({ error: "Missing video id" });
-    
-    const limit = 300;
-    let commentsSection = await youtube.getComments(id);
-    let allComments = commentsSection.contents || [];
-    
-    let attempts = 0;
-    while (allComments.length < limit && commentsSection.has_continuation && attempts < 5) {
-      commentsSection = await commentsSection.getContinuation();
-      if (commentsSection.contents) {
-        allComments = allComments.concat(commentsSection.contents);
-      }
-      attempts++;
+    if (!COMMENT_SORTS[sort]) return res.status(400).json({ error: "Invalid sort order" });
+
+    let comments;
+    if (continuation) {
+      // 継続トークンには並び順も含まれている
+      const decoded = decodeContinuation(continuation);
+      if (!decoded) return res.status(400).json({ error: "Invalid continuation token" });
+      const page = await fetchContinuation(youtube, decoded);
+      // Comments は [ヘッダー, 本体] の順を前提にしているので、ヘッダーなしで本体だけ渡す
+      comments = new YT.Comments(youtube.actions, { on_response_received_endpoints: [{}, page.on_response_received_endpoints?.[0]] }, true);
+    } else {
+      comments = await youtube.getComments(id, COMMENT_SORTS[sort]);
     }
 
+    const body = comments.page.on_response_received_endpoints?.at(-1);
     res.status(200).json({
-      comments: allComments.slice(0, limit).map(c => ({
-        text: c.comment?.content?.text ?? null,
-        comment_id: c.comment?.comment_id ?? null,
-        published_time: c.comment?.published_time?.text ?? c.comment?.published_time ?? null,
-        author: { 
-            id: c.comment?.author?.id ?? null, 
-            name: c.comment?.author?.name?.text ?? c.comment?.author?.name ?? null, 
-            thumbnails: c.comment?.author?.thumbnails ?? [] 
-        },
-        like_count: c.comment?.like_count?.toString() ?? '0',
-        reply_count: c.comment?.reply_count?.toString() ?? '0',
-        is_pinned: c.comment?.is_pinned ?? false
-      }))
+      comments: (comments.contents || []).map(serializeThread),
+      totalCount: comments.header?.count?.text ?? comments.header?.comments_count?.text ?? null,
+      nextPageToken: encodeContinuationItem(body?.contents?.firstOfType(YTNodes.ContinuationItem))
     });
   } catch (err) { 
     console.error('Error in /api/comments:', err); 
@@ -235,33 +477,73 @@ app.get('/api/comments', async (req, res) => {
   }
 });
 
+app.get('/api/comments/replies', cacheFor(5 * MINUTE), async (req, res) => {
+  try {
+    const youtube = await getYoutube();
+    const decoded = decodeContinuation(req.query.continuation);
+    if (!decoded) return res.status(400).json({ error: "Missing or invalid continuation token" });
+
+    const page = await fetchContinuation(youtube, decoded);
+    const memo = page.on_response_received_endpoints_memo;
+    if (!memo) return res.status(502).json({ error: "Unexpected replies response" });
+
+    res.status(200).json({
+      replies: memo.getType(YTNodes.Comment, YTNodes.CommentView).map(serializeComment),
+      nextPageToken: encodeContinuationItem(memo.getType(YTNodes.ContinuationItem).first())
+    });
+  } catch (err) {
+    console.error('Error in /api/comments/replies:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// -------------------------------------------------------------------
+// ハンドル解決 API (/api/channel/resolve)
+// 説明欄やコメントの @メンションから UC... のチャンネルIDを引く
+// -------------------------------------------------------------------
+const HANDLE_PATTERN = /^@[^\s\/?#]+$/;
+
+app.get('/api/channel/resolve', cacheFor(60 * MINUTE), async (req, res) => {
+  try {
+    const youtube = await getYoutube();
+    const { handle } = req.query;
+    if (typeof handle !== "string" || !HANDLE_PATTERN.test(handle)) {
+      return res.status(400).json({ error: "Invalid channel handle" });
+    }
+
+    const endpoint = await youtube.resolveURL(`https://www.youtube.com/${handle}`);
+    const channelId = endpoint?.payload?.browseId;
+    if (!channelId?.startsWith("UC")) return res.status(404).json({ error: "Channel not found" });
+
+    res.status(200).json({ channelId });
+  } catch (err) {
+    console.error('Error in /api/channel/resolve:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // -------------------------------------------------------------------
 // チャンネル API (/api/channel)
 // -------------------------------------------------------------------
-app.get('/api/channel', async (req, res) => {
+app.get('/api/channel', cacheFor(15 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
-    const { id, page = '1' } = req.query;
+    const youtube = await getYoutube();
+    const { id, continuation } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
 
-    const channel = await youtube.getChannel(id);
-    
-    let videosFeed = await channel.getVideos();
-    let videosToReturn = videosFeed.videos || [];
-
-    const targetPage = parseInt(page);
-    
-    if (targetPage > 1) {
-        for (let i = 1; i < targetPage; i++) {
-            if (videosFeed.has_continuation) {
-                videosFeed = await videosFeed.getContinuation();
-                videosToReturn = videosFeed.videos || [];
-            } else {
-                videosToReturn = [];
-                break;
-            }
-        }
+    // 2ページ目以降は動画一覧の continuation だけを取得する（チャンネル情報は1ページ目で取得済み）
+    if (continuation) {
+      const decoded = decodeContinuation(continuation);
+      if (!decoded) return res.status(400).json({ error: "Invalid continuation token" });
+      const videosFeed = new YT.ChannelListContinuation(youtube.actions, await fetchContinuation(youtube, decoded), true);
+      return res.status(200).json({
+        videos: videosFeed.videos || [],
+        nextPageToken: videosFeed.has_continuation ? encodeContinuation(videosFeed) : undefined
+      });
     }
+
+    const channel = await youtube.getChannel(id);
+    const videosFeed = await channel.getVideos();
     
     const title = channel.metadata?.title || channel.header?.title?.text || channel.header?.author?.name || null;
     let avatar = channel.metadata?.avatar || channel.header?.avatar || channel.header?.author?.thumbnails || null;
@@ -291,9 +573,8 @@ app.get('/api/channel', async (req, res) => {
         subscriberCount: channel.metadata?.subscriber_count?.pretty || '非公開', 
         videoCount: channel.metadata?.videos_count?.text ?? channel.metadata?.videos_count ?? '0'
       },
-      page: targetPage, 
-      videos: videosToReturn,
-      nextPageToken: videosFeed.has_continuation ? String(targetPage + 1) : undefined
+      videos: videosFeed.videos || [],
+      nextPageToken: videosFeed.has_continuation ? encodeContinuation(videosFeed) : undefined
     });
 
   } catch (err) { 
@@ -305,7 +586,7 @@ app.get('/api/channel', async (req, res) => {
 // -------------------------------------------------------------------
 // チャンネルホーム Proxy API (/api/channel-home-proxy)
 // -------------------------------------------------------------------
-app.get('/api/channel-home-proxy', async (req, res) => {
+app.get('/api/channel-home-proxy', cacheFor(15 * MINUTE), async (req, res) => {
   try {
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
@@ -325,9 +606,9 @@ app.get('/api/channel-home-proxy', async (req, res) => {
 // -------------------------------------------------------------------
 // チャンネル Shorts API (/api/channel-shorts)
 // -------------------------------------------------------------------
-app.get('/api/channel-shorts', async (req, res) => {
+app.get('/api/channel-shorts', cacheFor(15 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
 
@@ -355,9 +636,9 @@ app.get('/api/channel-shorts', async (req, res) => {
 // -------------------------------------------------------------------
 // チャンネル Playlists API (/api/channel-playlists)
 // -------------------------------------------------------------------
-app.get('/api/channel-playlists', async (req, res) => {
+app.get('/api/channel-playlists', cacheFor(30 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
 
@@ -389,9 +670,9 @@ app.get('/api/channel-playlists', async (req, res) => {
 // -------------------------------------------------------------------
 // 再生リスト API (/api/playlist)
 // -------------------------------------------------------------------
-app.get('/api/playlist', async (req, res) => {
+app.get('/api/playlist', cacheFor(15 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id: playlistId } = req.query;
     if (!playlistId) return res.status(400).json({ error: "Missing playlist id" });
 
@@ -405,9 +686,9 @@ app.get('/api/playlist', async (req, res) => {
   }
 });
 
-app.get('/api/shorts', async (req, res) => {
+app.get('/api/shorts', cacheFor(15 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const { id } = req.query;
     if (!id) return res.status(400).json({ error: "Missing channel id" });
 
@@ -425,9 +706,9 @@ app.get('/api/shorts', async (req, res) => {
 // -------------------------------------------------------------------
 // ホームフィード API (/api/fvideo)
 // -------------------------------------------------------------------
-app.get('/api/fvideo', async (req, res) => {
+app.get('/api/fvideo', cacheFor(5 * MINUTE), async (req, res) => {
   try {
-    const youtube = await createYoutube();
+    const youtube = await getYoutube();
     const home = await youtube.getHomeFeed();
     let allVideos = home.videos ? [...home.videos] : [];
     const MAX_VIDEOS = 180;
@@ -0,0 +1,50 @@
+import React, { type RefObject } from 'react';
+import { useResumeOnLoad } from '../hooks/useResumeOnLoad';
+
+interface AudioOnlyPlayerProps {
+    audioUrl: string;
+    // usePlaybackController に渡して操作・再生位置の取得をさせるための ref
+    audioRef: RefObject<HTMLAudioElement>;
+    title: string;
+    channelName: string;
+    artworkUrl: string;
+    startTime?: number;
+    autoPlay?: boolean;
+    loop?: boolean;
+    // ミニプレイヤー用。アートワークだけ出して操作はミニプレイヤー側のボタンで行う
+    compact?: boolean;
+}
+
+// 音声のみモードのプレイヤー。映像を読み込まないので通信量が少なく、
+// <audio> なので画面を消してもバックグラウンドで再生が続く (ロック画面の操作は useMediaSession)。
+const AudioOnlyPlayer: React.FC<AudioOnlyPlayerProps> = ({ audioUrl, audioRef, title, channelName, artworkUrl, startTime = 0, autoPlay = true, loop = false, compact = false }) => {
+    useResumeOnLoad(audioRef, audioUrl, startTime, autoPlay);
+
+    return (
+        <div className="relative w-full h-full bg-black overflow-hidden">
+            {/* 背景はサムネイルをぼかして敷く */}
+            <img src={artworkUrl} alt="" aria-hidden="true" className="absolute inset-0 w-full h-full object-cover blur-2xl opacity-50 scale-110" />
+            <div className="relative h-full flex flex-col items-center justify-center gap-4 p-4 text-white">
+                <img src={artworkUrl} alt={title} className={`${compact ? 'h-3/4' : 'h-1/2'} aspect-video object-cover rounded-lg shadow-2xl`} />
+                {!compact && (
+                    <div className="text-center max-w-full">
+                        <p className="font-semibold truncate">{title}</p>
+                        <p className="text-sm text-white/70 truncate">{channelName}</p>
+                    </div>
+                )}
+                <audio
+                    ref={audioRef}
+                    src={audioUrl}
+                    controls={!compact}
+                    autoPlay={autoPlay}
+                    loop={loop}
+                    preload="auto"
+                    className={compact ? 'hidden' : 'w-full max-w-md'}
+                    onError={(e) => console.error("Audio Playback Error", e)}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default AudioOnlyPlayer;
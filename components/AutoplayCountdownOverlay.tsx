@@ -0,0 +1,51 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Video } from '../types';
+
+interface AutoplayCountdownOverlayProps {
+    video: Video;
+    seconds?: number;
+    onComplete: () => void;
+    onCancel: () => void;
+}
+
+// 動画の終了時にプレイヤーに重ねて出す「次の動画」のカウントダウン
+const AutoplayCountdownOverlay: React.FC<AutoplayCountdownOverlayProps> = ({ video, seconds = 8, onComplete, onCancel }) => {
+    const [remaining, setRemaining] = useState(seconds);
+    const onCompleteRef = useRef(onComplete);
+    onCompleteRef.current = onComplete;
+
+    useEffect(() => {
+        setRemaining(seconds);
+        const timer = window.setInterval(() => setRemaining(prev => prev - 1), 1000);
+        return () => window.clearInterval(timer);
+    }, [video.id, seconds]);
+
+    useEffect(() => {
+        if (remaining <= 0) onCompleteRef.current();
+    }, [remaining]);
+
+    return (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/80 text-white p-4">
+            <div className="w-full max-w-sm text-center">
+                <p className="text-sm text-white/70 mb-3">{Math.max(0, remaining)} 秒後に次の動画を再生</p>
+                <div className="flex gap-3 text-left mb-4">
+                    <img src={video.thumbnailUrl} alt={video.title} className="w-32 aspect-video object-cover rounded-lg flex-shrink-0" />
+                    <div className="min-w-0">
+                        <p className="text-sm font-semibold line-clamp-2">{video.title}</p>
+                        <p className="text-xs text-white/70 truncate mt-1">{video.channelName}</p>
+                    </div>
+                </div>
+                <div className="flex justify-center gap-3">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-full bg-white/15 hover:bg-white/25 text-sm font-semibold">
+                        キャンセル
+                    </button>
+                    <button onClick={() => onCompleteRef.current()} className="px-4 py-2 rounded-full bg-white text-black hover:bg-white/90 text-sm font-semibold">
+                        今すぐ再生
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AutoplayCountdownOverlay;
@@ -1,11 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 // FIX: Use named import for NavLink from react-router-dom
 import { NavLink } from 'react-router-dom';
-import { HomeIcon, ShortsIcon, SubscriptionsIcon, YouIcon } from './icons/Icons';
+import { HomeIcon, ShortsIcon, SubscriptionsIcon, YouIcon, SearchIcon } from './icons/Icons';
+import MobileSearchOverlay from './MobileSearchOverlay';
 import { useTheme } from '../hooks/useTheme';
 
 const BottomNavigation: React.FC = () => {
   const { theme } = useTheme();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   
   const navClass = ({ isActive }: { isActive: boolean }) =>
     `flex flex-col items-center justify-center w-full h-full space-y-1 ${
@@ -20,6 +22,7 @@ const BottomNavigation: React.FC = () => {
 
 
   return (
+    <>
     <div className={`fixed bottom-0 left-0 right-0 h-12 ${bgClass} border-t border-yt-spec-light-20 dark:border-yt-spec-20 flex items-center justify-around z-50 md:hidden transition-colors duration-300`}>
       <NavLink to="/" className={navClass}>
         <HomeIcon />
@@ -29,6 +32,10 @@ const BottomNavigation: React.FC = () => {
         <ShortsIcon />
         <span className="text-[10px]">ショート</span>
       </NavLink>
+      <button onClick={() => setIsSearchOpen(true)} className="flex flex-col items-center justify-center w-full h-full space-y-1 text-black dark:text-white">
+        <SearchIcon />
+        <span className="text-[10px]">検索</span>
+      </button>
        <NavLink to="/subscriptions" className={navClass}>
         <SubscriptionsIcon />
         <span className="text-[10px]">登録チャンネル</span>
@@ -38,6 +45,8 @@ const BottomNavigation: React.FC = () => {
         <span className="text-[10px]">マイページ</span>
       </NavLink>
     </div>
+    <MobileSearchOverlay isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
+    </>
   );
 };
 
@@ -0,0 +1,77 @@
+import React, { useState, useMemo } from 'react';
+import type { Chapter } from '../types';
+import { findCurrentChapterIndex } from '../utils/chapters';
+import { formatCueTime } from '../utils/captions';
+import { ChevronLeftIcon, ChevronRightIcon } from './icons/Icons';
+
+interface ChapterNavigatorProps {
+    chapters: Chapter[];
+    currentTime: number;
+    onSeek: (seconds: number) => void;
+}
+
+// チャプターの頭から少し進んでいたら「前へ」は同じチャプターの先頭に戻る (YouTube と同じ挙動)
+const RESTART_THRESHOLD_SECONDS = 3;
+
+const ChapterNavigator: React.FC<ChapterNavigatorProps> = ({ chapters, currentTime, onSeek }) => {
+    const [isListOpen, setIsListOpen] = useState(false);
+    const currentIndex = useMemo(() => findCurrentChapterIndex(chapters, currentTime), [chapters, currentTime]);
+
+    if (chapters.length === 0) return null;
+
+    const currentChapter = currentIndex >= 0 ? chapters[currentIndex] : null;
+
+    const canRestartCurrent = currentChapter !== null && currentTime - currentChapter.start > RESTART_THRESHOLD_SECONDS;
+
+    const goToPrevious = () => {
+        if (currentChapter && canRestartCurrent) {
+            onSeek(currentChapter.start);
+        } else if (currentIndex > 0) {
+            onSeek(chapters[currentIndex - 1].start);
+        }
+    };
+
+    const goToNext = () => {
+        if (currentIndex < chapters.length - 1) onSeek(chapters[currentIndex + 1].start);
+    };
+
+    return (
+        <div className="mt-3 border border-yt-spec-light-20 dark:border-yt-spec-20 rounded-xl overflow-hidden">
+            <div className="flex items-center gap-1 px-2 py-1.5">
+                <button onClick={goToPrevious} disabled={currentIndex <= 0 && !canRestartCurrent} className="p-1 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-30" aria-label="前のチャプター">
+                    <ChevronLeftIcon />
+                </button>
+                <button
+                    onClick={() => setIsListOpen(prev => !prev)}
+                    className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1 rounded-lg text-left text-sm hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10"
+                    aria-expanded={isListOpen}
+                >
+                    <span className="flex-shrink-0 text-xs text-yt-light-gray">チャプター {currentIndex + 1}/{chapters.length}</span>
+                    <span className="flex-1 min-w-0 truncate font-semibold">{currentChapter?.title || '—'}</span>
+                    <span className="flex-shrink-0 text-xs text-yt-light-gray">{isListOpen ? '▲' : '▼'}</span>
+                </button>
+                <button onClick={goToNext} disabled={currentIndex >= chapters.length - 1} className="p-1 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-30" aria-label="次のチャプター">
+                    <ChevronRightIcon />
+                </button>
+            </div>
+
+            {isListOpen && (
+                <ol className="max-h-72 overflow-y-auto border-t border-yt-spec-light-20 dark:border-yt-spec-20 py-1">
+                    {chapters.map((chapter, index) => (
+                        <li key={`${chapter.start}-${index}`}>
+                            <button
+                                onClick={() => onSeek(chapter.start)}
+                                className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 ${index === currentIndex ? 'bg-yt-spec-light-20 dark:bg-yt-spec-20 font-semibold' : ''}`}
+                            >
+                                <span className="flex-shrink-0 text-xs font-semibold px-1.5 py-0.5 rounded bg-yt-light dark:bg-yt-dark-gray tabular-nums">{formatCueTime(chapter.start)}</span>
+                                <span className="flex-1 min-w-0 break-words">{chapter.title}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default ChapterNavigator;
@@ -1,42 +1,123 @@
-
-
-import React from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import type { Comment } from '../types';
 // FIX: Removed DislikeIcon import as it is not exported from './icons/Icons'.
 import { LikeIcon } from './icons/Icons';
+import { getCommentReplies, isAbortError } from '../utils/api';
+import RichText from './RichText';
 
 interface CommentProps {
   comment: Comment;
+  videoId: string;
+  // 返信として表示する場合はアイコンを小さくし、さらに返信は展開しない
+  isReply?: boolean;
+  onSeek?: (seconds: number) => void;
 }
 
-const CommentComponent: React.FC<CommentProps> = ({ comment }) => {
+const CommentComponent: React.FC<CommentProps> = ({ comment, videoId, isReply = false, onSeek }) => {
   const authorThumbnail = comment.author.thumbnails?.[0]?.url || '';
-  
+
   // Clean up like count text (e.g., "711" from "711 likes")
   const likeCount = comment.like_count.split(' ')[0];
+  const replyCount = parseInt(comment.reply_count, 10) || 0;
+  const canExpandReplies = !isReply && replyCount > 0 && !!comment.replies_token;
+
+  const [replies, setReplies] = useState<Comment[]>([]);
+  const [repliesNextToken, setRepliesNextToken] = useState<string | undefined>(undefined);
+  const [isRepliesOpen, setIsRepliesOpen] = useState(false);
+  const [isRepliesLoading, setIsRepliesLoading] = useState(false);
+  const [repliesError, setRepliesError] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const loadReplies = async (token: string) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRepliesLoading(true);
+    setRepliesError(false);
+    try {
+      const page = await getCommentReplies(videoId, token, controller.signal);
+      setReplies(prev => [...prev, ...page.replies]);
+      setRepliesNextToken(page.nextPageToken);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.warn("Failed to fetch replies", err);
+      setRepliesError(true);
+    }
+    setIsRepliesLoading(false);
+  };
+
+  const toggleReplies = () => {
+    const willOpen = !isRepliesOpen;
+    setIsRepliesOpen(willOpen);
+    // 初回だけ取得し、閉じて開き直したときは読み込み済みの返信をそのまま出す
+    if (willOpen && replies.length === 0 && !isRepliesLoading && comment.replies_token) {
+      loadReplies(comment.replies_token);
+    }
+  };
 
   return (
-    <div className="flex items-start space-x-4 my-4">
-      <img src={authorThumbnail} alt={comment.author.name} className="w-10 h-10 rounded-full" />
-      <div className="flex-1">
+    <div className={`flex items-start ${isReply ? 'space-x-3 my-3' : 'space-x-4 my-4'}`}>
+      <img src={authorThumbnail} alt={comment.author.name} className={`${isReply ? 'w-6 h-6' : 'w-10 h-10'} rounded-full`} />
+      <div className="flex-1 min-w-0">
+        {comment.is_pinned && (
+          <p className="text-xs text-yt-light-gray mb-1">📌 固定されたコメント</p>
+        )}
         <div className="flex items-baseline space-x-2">
-          <p className="font-semibold text-sm">{comment.author.name}</p>
+          {comment.author_is_channel_owner ? (
+            <p className="font-semibold text-sm px-2 py-0.5 rounded-full bg-yt-light-gray/30 dark:bg-white/20" title="チャンネル所有者">{comment.author.name}</p>
+          ) : (
+            <p className="font-semibold text-sm">{comment.author.name}</p>
+          )}
           <p className="text-xs text-yt-light-gray">{comment.published_time}</p>
         </div>
-        <p className="text-sm mt-1 whitespace-pre-wrap">{comment.text}</p>
+        <p className="text-sm mt-1 whitespace-pre-wrap break-words"><RichText text={comment.text} videoId={videoId} onSeek={onSeek} /></p>
         <div className="flex items-center space-x-1 mt-2">
             <button className="flex items-center p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
                 <LikeIcon />
                 {likeCount && <span className="ml-2 text-xs text-yt-light-gray">{likeCount}</span>}
             </button>
             {/* FIX: The DislikeIcon component was not exported. The dislike button has been removed. */}
-            <button className="text-xs text-yt-light-gray font-semibold px-3 py-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
-              返信
-            </button>
+            {comment.is_hearted && (
+              <span className="px-2 text-red-500 text-sm" title="投稿者が高く評価しました" aria-label="投稿者が高く評価しました">♥</span>
+            )}
         </div>
+
+        {canExpandReplies && (
+          <div className="mt-1">
+            <button
+              onClick={toggleReplies}
+              className="text-sm text-yt-blue font-semibold px-3 py-2 rounded-full hover:bg-yt-blue/10"
+            >
+              {isRepliesOpen ? '▲ 返信を非表示' : `▼ ${replyCount.toLocaleString()}件の返信`}
+            </button>
+            {isRepliesOpen && (
+              <div className="pl-1">
+                {replies.map(reply => (
+                  <CommentComponent key={reply.comment_id} comment={reply} videoId={videoId} onSeek={onSeek} isReply />
+                ))}
+                {isRepliesLoading && (
+                  <div className="flex py-2"><div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-yt-blue"></div></div>
+                )}
+                {repliesError && !isRepliesLoading && (
+                  <p className="text-xs text-red-500 py-2">返信を読み込めませんでした。</p>
+                )}
+                {repliesNextToken && !isRepliesLoading && (
+                  <button
+                    onClick={() => loadReplies(repliesNextToken)}
+                    className="text-sm text-yt-blue font-semibold px-3 py-2 rounded-full hover:bg-yt-blue/10"
+                  >
+                    他の返信を表示
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default CommentComponent;
\ No newline at end of file
+export default CommentComponent;
@@ -0,0 +1,61 @@
+import React from 'react';
+import type { CommentSort } from '../types';
+import CommentComponent from './Comment';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import type { CommentsState } from '../hooks/useComments';
+
+interface CommentSectionProps {
+    videoId: string;
+    state: CommentsState;
+    // コメント内のタイムスタンプをクリックしたときの移動先
+    onSeek?: (seconds: number) => void;
+    // PC はメイン列、モバイルは関連動画の下に出すので見出しの大きさだけ変える
+    compact?: boolean;
+}
+
+const SORT_LABELS: Record<CommentSort, string> = {
+    top: '評価順',
+    newest: '新しい順',
+};
+
+const CommentSection: React.FC<CommentSectionProps> = ({ videoId, state, onSeek, compact = false }) => {
+    const { comments, totalCount, sort, setSort, hasMore, isLoading, isLoadingMore, loadMore } = state;
+    const lastElementRef = useInfiniteScroll(loadMore, hasMore, isLoading || isLoadingMore);
+
+    return (
+        <div>
+            <div className="flex items-center gap-6 mb-4">
+                <h2 className={`${compact ? 'text-lg' : 'text-xl'} font-bold`}>{totalCount ?? comments.length.toLocaleString()}件のコメント</h2>
+                <div className="flex items-center gap-2" role="group" aria-label="並べ替え">
+                    {(Object.keys(SORT_LABELS) as CommentSort[]).map(value => (
+                        <button
+                            key={value}
+                            onClick={() => setSort(value)}
+                            className={`px-3 py-1 text-sm font-semibold rounded-lg whitespace-nowrap ${sort === value ? 'bg-black dark:bg-white text-white dark:text-black' : 'bg-yt-light dark:bg-[#272727] text-black dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                        >
+                            {SORT_LABELS[value]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {comments.length > 0 ? (
+                <div className="space-y-4">
+                    {comments.map(comment => (
+                        <CommentComponent key={comment.comment_id} comment={comment} videoId={videoId} onSeek={onSeek} />
+                    ))}
+                </div>
+            ) : (
+                <div className="py-4 text-yt-light-gray">{isLoading ? 'コメントを読み込んでいます...' : 'コメントがありません。'}</div>
+            )}
+
+            {hasMore && (
+                <div ref={lastElementRef} className="flex justify-center mt-4 h-10">
+                    {isLoadingMore && <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue"></div>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CommentSection;
@@ -1,12 +1,15 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
-import { useNavigate, Link } from 'react-router-dom';
+import { Link } from 'react-router-dom';
 import { MenuIcon, SearchIcon, SettingsIcon, SaveIcon, DownloadIcon, TrashIcon, HistoryIcon, CheckIcon, SunIcon, MoonIcon, LightbulbIcon, XeroxLogo } from './icons/Icons';
 import { useSearchHistory } from '../contexts/SearchHistoryContext';
 import { usePreference } from '../contexts/PreferenceContext';
 import { useHistory } from '../contexts/HistoryContext';
 import { useTheme, type Theme } from '../hooks/useTheme';
+import { cache } from '../utils/cache';
+import { useSearchAutocomplete } from '../hooks/useSearchAutocomplete';
+import SearchSuggestionDropdown from './SearchSuggestionDropdown';
 
 interface HeaderProps {
   toggleSidebar: () => void;
@@ -17,35 +20,24 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal, openSearchHistoryDeletionModal }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [useProxy, setUseProxy] = useState(localStorage.getItem('useChannelHomeProxy') !== 'false');
 
   const { theme, setTheme } = useTheme();
-  const { addSearchTerm, clearSearchHistory } = useSearchHistory();
+  const { clearSearchHistory } = useSearchHistory();
   const { exportUserData, importUserData, isShortsAutoplayEnabled, toggleShortsAutoplay, toggleLiteMode } = usePreference();
   const { clearHistory } = useHistory();
-  const navigate = useNavigate();
   const settingsRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const autocomplete = useSearchAutocomplete(searchQuery, setSearchQuery);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      addSearchTerm(searchQuery.trim());
-      navigate(`/results?search_query=${encodeURIComponent(searchQuery.trim())}`);
-    }
+    autocomplete.submitSearch(searchQuery);
   };
   
   const handleSettingsClick = () => {
       setIsSettingsOpen(prev => !prev);
   };
 
-  const toggleProxy = () => {
-      const newValue = !useProxy;
-      setUseProxy(newValue);
-      localStorage.setItem('useChannelHomeProxy', String(newValue));
-      window.location.reload();
-  };
-
   const handleImportClick = () => {
       fileInputRef.current?.click();
   };
@@ -78,7 +70,8 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
         if (currentTheme) {
             localStorage.setItem('theme', currentTheme);
         }
-        window.location.reload();
+        // IndexedDBのレスポンスキャッシュも消してからリロード
+        cache.clear().finally(() => window.location.reload());
     }
   };
 
@@ -135,7 +128,8 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
       <div className="flex-1 flex justify-center px-4 lg:px-16 max-w-[720px] mx-auto">
         <div className="w-full flex items-center gap-2 md:gap-4">
             <form onSubmit={handleSearch} className="flex-1 flex items-center gap-4">
-            <div className="flex w-full items-center rounded-full shadow-inner border border-yt-light-gray/20 dark:border-white/10 bg-white/20 dark:bg-black/20 focus-within:border-yt-blue focus-within:bg-white/40 dark:focus-within:bg-black/40 transition-all overflow-hidden ml-0 md:ml-8 backdrop-blur-sm">
+            <div className="relative w-full ml-0 md:ml-8">
+            <div className="flex w-full items-center rounded-full shadow-inner border border-yt-light-gray/20 dark:border-white/10 bg-white/20 dark:bg-black/20 focus-within:border-yt-blue focus-within:bg-white/40 dark:focus-within:bg-black/40 transition-all overflow-hidden backdrop-blur-sm">
                 <div className="flex-1 relative">
                     <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none sm:hidden">
                         <SearchIcon />
@@ -143,8 +137,14 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                     <input
                     type="text"
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => { setSearchQuery(e.target.value); autocomplete.open(); }}
+                    onFocus={autocomplete.open}
+                    onBlur={autocomplete.close}
+                    onKeyDown={autocomplete.handleKeyDown}
                     placeholder="検索"
+                    autoComplete="off"
+                    role="combobox"
+                    aria-expanded={autocomplete.isOpen}
                     className="w-full h-10 bg-transparent pl-10 sm:pl-4 pr-4 text-base text-black dark:text-white placeholder-yt-light-gray focus:outline-none"
                     />
                 </div>
@@ -156,6 +156,17 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                     <SearchIcon />
                 </button>
             </div>
+            {autocomplete.isOpen && (
+                <SearchSuggestionDropdown
+                    items={autocomplete.items}
+                    activeIndex={autocomplete.activeIndex}
+                    query={searchQuery}
+                    onSelect={autocomplete.select}
+                    onRemoveHistory={autocomplete.removeHistoryItem}
+                    onHover={autocomplete.setActiveIndex}
+                />
+            )}
+            </div>
             </form>
             
             {/* Lite Mode Button - Matching surrounding style */}
@@ -197,20 +208,14 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar, openHistoryDeletionModal
                             <span>Liteモードに切り替え</span>
                         </button>
 
-                        <label className="flex items-center justify-between px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 cursor-pointer">
-                            <span className="text-sm text-black dark:text-white">Proxy経由で取得</span>
-                            <div className="relative inline-block w-10 mr-2 align-middle select-none transition duration-200 ease-in">
-                                <input 
-                                    type="checkbox" 
-                                    name="toggle" 
-                                    id="toggle" 
-                                    className="toggle-checkbox absolute block w-5 h-5 rounded-full bg-white border-4 appearance-none cursor-pointer checked:right-0 right-5"
-                                    checked={useProxy}
-                                    onChange={toggleProxy}
-                                />
-                                <div className={`toggle-label block overflow-hidden h-5 rounded-full cursor-pointer ${useProxy ? 'bg-yt-blue' : 'bg-yt-light-gray'}`}></div>
-                            </div>
-                        </label>
+                        <Link 
+                            to="/settings/providers"
+                            onClick={() => setIsSettingsOpen(false)}
+                            className="w-full text-left flex items-center px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 text-sm text-black dark:text-white gap-2"
+                        >
+                            データ取得元の設定
+                        </Link>
+
                         <label className="flex items-center justify-between px-4 py-2 hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 cursor-pointer">
                             <span className="text-sm text-black dark:text-white">ショートを自動再生</span>
                             <div className="relative inline-block w-10 mr-2 align-middle select-none transition duration-200 ease-in">
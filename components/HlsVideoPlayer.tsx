@@ -1,14 +1,17 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState, type RefObject } from 'react';
 import Hls from 'hls.js';
 
 interface HlsVideoPlayerProps {
   src: string;
   autoPlay?: boolean;
+  // usePlaybackController に渡して再生位置の取得・シーク (スキップ区間など) をさせるための ref
+  videoRef?: RefObject<HTMLVideoElement>;
 }
 
-const HlsVideoPlayer: React.FC<HlsVideoPlayerProps> = ({ src, autoPlay = true }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+const HlsVideoPlayer: React.FC<HlsVideoPlayerProps> = ({ src, autoPlay = true, videoRef: externalVideoRef }) => {
+  const internalVideoRef = useRef<HTMLVideoElement>(null);
+  const videoRef = externalVideoRef ?? internalVideoRef;
   const hlsRef = useRef<Hls | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -79,7 +82,7 @@ const HlsVideoPlayer: React.FC<HlsVideoPlayerProps> = ({ src, autoPlay = true })
     } else {
         setError("このブラウザはHLS再生に対応していません。");
     }
-  }, [src, autoPlay]);
+  }, [src, autoPlay, videoRef]);
 
   return (
     <div className="relative w-full h-full bg-black">
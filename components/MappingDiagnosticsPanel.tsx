@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { getMappingStats, resetMappingStats, subscribeToMappingStats, type MapperStats } from '../utils/mappingDiagnostics';
+
+// 開発ビルド専用: どのマッパーがデフォルト値にフォールバックしたかを表示する
+const formatCounts = (record: Record<string, number>) => {
+    return Object.entries(record).map(([key, count]) => `${key}×${count}`).join(', ');
+};
+
+const hasIssues = (entry: MapperStats) => {
+    return entry.dropped > 0 || Object.keys(entry.fallbacks).length > 0 || Object.keys(entry.unknownTypes).length > 0;
+};
+
+const MappingDiagnosticsPanel: React.FC = () => {
+    const [stats, setStats] = useState<Record<string, MapperStats>>(getMappingStats);
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => {
+        // Mapping a feed fires many events at once; batch them into one render
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const unsubscribe = subscribeToMappingStats(() => {
+            if (timer) return;
+            timer = setTimeout(() => {
+                timer = null;
+                setStats(getMappingStats());
+            }, 500);
+        });
+        return () => {
+            unsubscribe();
+            if (timer) clearTimeout(timer);
+        };
+    }, []);
+
+    const entries = Object.entries(stats) as [string, MapperStats][];
+    const issueCount = entries.filter(([, entry]) => hasIssues(entry)).length;
+
+    return (
+        <div className="fixed bottom-20 md:bottom-4 right-4 z-50 text-xs font-mono">
+            {isOpen ? (
+                <div className="w-96 max-h-96 overflow-y-auto rounded-lg bg-black/85 text-white p-3 shadow-xl">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="font-bold">Mapping diagnostics</span>
+                        <div className="flex gap-2">
+                            <button onClick={resetMappingStats} className="hover:underline">リセット</button>
+                            <button onClick={() => setIsOpen(false)} className="hover:underline">閉じる</button>
+                        </div>
+                    </div>
+                    {entries.length === 0 && <p className="text-gray-400">まだデータがありません</p>}
+                    {entries.map(([mapper, entry]) => (
+                        <div key={mapper} className={`py-1 border-t border-white/10 ${hasIssues(entry) ? 'text-yellow-300' : 'text-gray-300'}`}>
+                            <div>{mapper}: mapped {entry.mapped} / dropped {entry.dropped}</div>
+                            {Object.keys(entry.fallbacks).length > 0 && <div className="pl-2">fallbacks: {formatCounts(entry.fallbacks)}</div>}
+                            {Object.keys(entry.unknownTypes).length > 0 && <div className="pl-2">unknown: {formatCounts(entry.unknownTypes)}</div>}
+                            {Object.keys(entry.dropReasons).length > 0 && <div className="pl-2">drop reasons: {formatCounts(entry.dropReasons)}</div>}
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <button
+                    onClick={() => setIsOpen(true)}
+                    className={`px-3 py-1 rounded-full shadow-lg ${issueCount > 0 ? 'bg-yellow-500 text-black' : 'bg-black/70 text-white'}`}
+                >
+                    mappers{issueCount > 0 ? ` ⚠ ${issueCount}` : ''}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default MappingDiagnosticsPanel;
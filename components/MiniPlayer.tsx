@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useMiniPlayer } from '../contexts/MiniPlayerContext';
+import { usePreference } from '../contexts/PreferenceContext';
+import { usePlaybackController } from '../hooks/usePlaybackController';
+import { useWatchProgressReporter } from '../hooks/useWatchProgress';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { getPlayerConfig, getRawStreamData, isAbortError } from '../utils/api';
+import type { StreamData } from '../utils/providers';
+import { buildEmbedUrl } from '../utils/playback';
+import { buildStreamSources, pickStreamSource, getAudioOnlyUrl } from '../utils/streamQuality';
+import StreamingPlayer from './StreamingPlayer';
+import AudioOnlyPlayer from './AudioOnlyPlayer';
+import { PlayIcon, PauseIcon, SkipNextIcon, CloseIcon } from './icons/Icons';
+
+// 視聴ページから離れても再生を続ける右下のミニプレイヤー。
+// 視聴ページが閉じるときに渡された MiniPlayerSession の位置から、同じプレイヤーモードで再生し直す。
+const MiniPlayer: React.FC = () => {
+    const { session, closeMiniPlayer, playNext } = useMiniPlayer();
+    const { streamQuality, playbackRate } = usePreference();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [playerParams, setPlayerParams] = useState<string | null>(null);
+    const [streamData, setStreamData] = useState<StreamData | null>(null);
+
+    const video = session?.video ?? null;
+    const mode = session?.mode ?? 'player';
+    const isWatchPage = location.pathname.startsWith('/watch');
+    const isShortsPage = location.pathname.startsWith('/shorts');
+
+    // ショートは自動再生されるので、音が重ならないように閉じる
+    useEffect(() => {
+        if (session && isShortsPage) closeMiniPlayer();
+    }, [session, isShortsPage, closeMiniPlayer]);
+
+    useEffect(() => {
+        if (!session || mode !== 'player' || playerParams) return;
+        getPlayerConfig().then(setPlayerParams).catch(() => setPlayerParams('autoplay=1&rel=0'));
+    }, [session, mode, playerParams]);
+
+    // ストリームは視聴ページで取得したものがキャッシュに残っているので、ほとんどの場合すぐ返る
+    useEffect(() => {
+        setStreamData(null);
+        if (!video || mode === 'player') return;
+        const controller = new AbortController();
+        getRawStreamData(video.id, controller.signal)
+            .then(setStreamData)
+            .catch(err => {
+                if (!isAbortError(err)) console.error("Failed to fetch stream data for mini player", err);
+            });
+        return () => controller.abort();
+    }, [video, mode]);
+
+    const streamSource = useMemo(() => pickStreamSource(buildStreamSources(streamData), streamQuality), [streamData, streamQuality]);
+    const audioOnlyUrl = useMemo(() => getAudioOnlyUrl(streamData), [streamData]);
+    const iframeSrc = video && playerParams ? buildEmbedUrl(video.id, playerParams, session?.startTime, session?.playing) : '';
+
+    const sourceKey = !video ? null
+        : mode === 'player' ? iframeSrc
+        : mode === 'audio' ? (audioOnlyUrl ? video.id : null)
+        : (streamSource ? video.id : null);
+    const { controller, currentTime, paused } = usePlaybackController(mode, iframeRef, mode === 'audio' ? audioRef : videoRef, sourceKey, playbackRate);
+    useWatchProgressReporter(video?.id, controller);
+    useMediaSession({
+        controller: mode !== 'player' ? controller : null,
+        details: video,
+        onPreviousTrack: () => controller?.seekTo(0),
+        onNextTrack: playNext,
+    });
+
+    useEffect(() => {
+        if (!controller || !session) return;
+        return controller.onEnded(() => {
+            if (session.loop) {
+                controller.seekTo(0);
+            } else if (session.autoAdvance) {
+                playNext();
+            }
+        });
+    }, [controller, session, playNext]);
+
+    if (!session || !video || isWatchPage || isShortsPage) return null;
+
+    const expand = () => {
+        const params = new URLSearchParams(session.search);
+        if (currentTime > 0) params.set('t', String(Math.floor(currentTime)));
+        navigate(`/watch/${video.id}?${params.toString()}`);
+    };
+
+    const renderPlayer = () => {
+        if (mode === 'player') {
+            return iframeSrc && (
+                <iframe
+                    ref={iframeRef}
+                    src={iframeSrc}
+                    key={iframeSrc}
+                    title={video.title}
+                    frameBorder="0"
+                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                    className="w-full h-full"
+                ></iframe>
+            );
+        }
+        if (mode === 'audio' && audioOnlyUrl) {
+            return (
+                <AudioOnlyPlayer
+                    audioRef={audioRef}
+                    audioUrl={audioOnlyUrl}
+                    title={video.title}
+                    channelName={video.channelName}
+                    artworkUrl={video.thumbnailUrl}
+                    startTime={session.startTime}
+                    autoPlay={session.playing}
+                    loop={session.loop}
+                    compact
+                />
+            );
+        }
+        if (mode === 'stream' && streamSource) {
+            return (
+                <StreamingPlayer
+                    videoRef={videoRef}
+                    videoUrl={streamSource.videoUrl}
+                    audioUrl={streamSource.audioUrl}
+                    startTime={session.startTime}
+                    autoPlay={session.playing}
+                    loop={session.loop}
+                />
+            );
+        }
+        return <img src={video.thumbnailUrl} alt={video.title} className="w-full h-full object-cover opacity-60" />;
+    };
+
+    const buttonClass = 'flex items-center justify-center w-9 h-9 rounded-full hover:bg-black/10 dark:hover:bg-white/10 flex-shrink-0 disabled:opacity-40';
+
+    return (
+        <div className="fixed bottom-16 right-2 md:bottom-4 md:right-4 z-40 w-72 md:w-80 rounded-xl overflow-hidden shadow-2xl bg-yt-white dark:bg-yt-light-black border border-yt-spec-light-20 dark:border-yt-spec-20">
+            <div className="relative w-full aspect-video bg-black">
+                {renderPlayer()}
+            </div>
+            <div className="flex items-center gap-1 p-2">
+                <button onClick={expand} className="flex-1 min-w-0 text-left" title="視聴ページに戻る">
+                    <p className="text-sm font-semibold text-black dark:text-white truncate">{video.title}</p>
+                    <p className="text-xs text-yt-light-gray truncate">{video.channelName}</p>
+                </button>
+                <button onClick={() => controller?.togglePlay()} className={buttonClass} title={paused ? '再生' : '一時停止'}>
+                    {paused ? <PlayIcon className="w-6 h-6 fill-current text-black dark:text-white" /> : <PauseIcon className="w-6 h-6 fill-current text-black dark:text-white" />}
+                </button>
+                <button onClick={playNext} disabled={session.upNext.length === 0} className={buttonClass} title="次の動画">
+                    <SkipNextIcon className="w-6 h-6 fill-current text-black dark:text-white" />
+                </button>
+                <button onClick={closeMiniPlayer} className={buttonClass} title="閉じる">
+                    <CloseIcon />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MiniPlayer;
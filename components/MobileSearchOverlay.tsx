@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeftIcon, SearchIcon } from './icons/Icons';
+import { useSearchAutocomplete, type SearchSuggestionItem } from '../hooks/useSearchAutocomplete';
+import SearchSuggestionDropdown from './SearchSuggestionDropdown';
+
+interface MobileSearchOverlayProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// BottomNavigation の「検索」から開く全画面の検索画面。候補の挙動は Header と共通
+const MobileSearchOverlay: React.FC<MobileSearchOverlayProps> = ({ isOpen, onClose }) => {
+    const [searchQuery, setSearchQuery] = useState('');
+    const autocomplete = useSearchAutocomplete(searchQuery, setSearchQuery);
+    const { open, close } = autocomplete;
+
+    useEffect(() => {
+        if (isOpen) open();
+        else close();
+    }, [isOpen, open, close]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!searchQuery.trim()) return;
+        autocomplete.submitSearch(searchQuery);
+        onClose();
+    };
+
+    const handleSelect = (item: SearchSuggestionItem) => {
+        autocomplete.select(item);
+        onClose();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            onClose();
+            return;
+        }
+        autocomplete.handleKeyDown(e);
+        // 候補を Enter で選んだ場合はここで画面を閉じる (フォーム送信は handleSubmit 側)
+        if (e.key === 'Enter' && e.defaultPrevented) onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-yt-white dark:bg-yt-black flex flex-col md:hidden">
+            <form onSubmit={handleSubmit} className="flex items-center gap-2 h-14 px-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+                <button type="button" onClick={onClose} className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" aria-label="戻る">
+                    <ChevronLeftIcon />
+                </button>
+                <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => { setSearchQuery(e.target.value); open(); }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="YouTube を検索"
+                    autoFocus
+                    autoComplete="off"
+                    enterKeyHint="search"
+                    role="combobox"
+                    aria-expanded={autocomplete.isOpen}
+                    className="flex-1 h-10 px-4 rounded-full bg-yt-light dark:bg-yt-dark-gray text-base text-black dark:text-white placeholder-yt-light-gray focus:outline-none"
+                />
+                <button type="submit" className="p-2 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" aria-label="検索">
+                    <SearchIcon />
+                </button>
+            </form>
+            <div className="flex-1 overflow-y-auto">
+                {autocomplete.isOpen && (
+                    <SearchSuggestionDropdown
+                        variant="fullscreen"
+                        items={autocomplete.items}
+                        activeIndex={autocomplete.activeIndex}
+                        query={searchQuery}
+                        onSelect={handleSelect}
+                        onRemoveHistory={autocomplete.removeHistoryItem}
+                        onHover={autocomplete.setActiveIndex}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MobileSearchOverlay;
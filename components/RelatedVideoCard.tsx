@@ -2,6 +2,7 @@ import React from 'react';
 // FIX: Use named import for Link from react-router-dom
 import { Link } from 'react-router-dom';
 import type { Video } from '../types';
+import WatchProgressBar from './WatchProgressBar';
 
 interface RelatedVideoCardProps {
   video: Video;
@@ -10,11 +11,12 @@ interface RelatedVideoCardProps {
 const RelatedVideoCard: React.FC<RelatedVideoCardProps> = ({ video }) => {
   return (
     <Link to={`/watch/${video.id}`} className="flex gap-2 group">
-        <div className="relative flex-shrink-0 w-40">
+        <div className="relative flex-shrink-0 w-40 rounded-lg overflow-hidden">
             <img src={video.thumbnailUrl} alt={video.title} className="w-full h-auto aspect-video object-cover rounded-lg" />
             <span className="absolute bottom-1 right-1 bg-black bg-opacity-80 text-white text-xs px-1.5 py-0.5 rounded-md">
                 {video.duration}
             </span>
+            <WatchProgressBar videoId={video.id} />
         </div>
         <div className="flex-1">
             <h3 className="text-black dark:text-white text-sm font-semibold leading-snug break-words max-h-10 overflow-hidden line-clamp-2 group-hover:text-opacity-80">
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import type { RichTextRun } from '../types';
+import { segmentPlainText, segmentRuns } from '../utils/richText';
+
+interface RichTextProps {
+    // youtubei のランがあればそちらを優先し、無ければ text を解析する
+    text: string;
+    runs?: RichTextRun[];
+    // タイムスタンプの対象動画。同じ動画への &t= 付きリンクもシークとして扱う
+    videoId?: string;
+    // 省略時はタイムスタンプをただのテキストとして表示する
+    onSeek?: (seconds: number) => void;
+}
+
+const linkClassName = 'text-yt-blue hover:underline';
+
+// 文字列はすべて React のテキストノードとして描画し、HTML は一切解釈しない
+const RichText: React.FC<RichTextProps> = ({ text, runs, videoId, onSeek }) => {
+    const segments = useMemo(
+        () => (runs && runs.length > 0 ? segmentRuns(runs, videoId) : segmentPlainText(text, videoId)),
+        [text, runs, videoId]
+    );
+
+    return (
+        <>
+            {segments.map((segment, index) => {
+                switch (segment.type) {
+                    case 'link':
+                        return (
+                            <a key={index} href={segment.href} target="_blank" rel="noopener noreferrer nofollow" className={`${linkClassName} break-all`} onClick={e => e.stopPropagation()}>
+                                {segment.text}
+                            </a>
+                        );
+                    case 'internal':
+                        return (
+                            <Link key={index} to={segment.path} className={linkClassName} onClick={e => e.stopPropagation()}>
+                                {segment.text}
+                            </Link>
+                        );
+                    case 'timestamp':
+                        if (!onSeek) return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+                        return (
+                            <button
+                                key={index}
+                                type="button"
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    onSeek(segment.seconds);
+                                }}
+                                className={linkClassName}
+                            >
+                                {segment.text}
+                            </button>
+                        );
+                    default:
+                        if (segment.bold || segment.italics) {
+                            return (
+                                <span key={index} className={`${segment.bold ? 'font-bold' : ''} ${segment.italics ? 'italic' : ''}`}>
+                                    {segment.text}
+                                </span>
+                            );
+                        }
+                        return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+                }
+            })}
+        </>
+    );
+};
+
+export default RichText;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { SearchFilters, SearchFeature } from '../types';
+import { UPLOAD_DATE_OPTIONS, TYPE_OPTIONS, DURATION_OPTIONS, SORT_OPTIONS, FEATURE_OPTIONS, hasActiveSearchFilters } from '../utils/searchFilters';
+
+interface SearchFilterBarProps {
+    filters: SearchFilters;
+    onChange: (filters: SearchFilters) => void;
+}
+
+interface FilterColumnProps<T extends string> {
+    title: string;
+    options: { value: T; label: string }[];
+    isSelected: (value: T) => boolean;
+    onSelect: (value: T) => void;
+}
+
+const FilterColumn = <T extends string,>({ title, options, isSelected, onSelect }: FilterColumnProps<T>) => (
+    <div className="min-w-[140px]">
+        <h3 className="text-xs font-semibold uppercase pb-3 mb-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20">{title}</h3>
+        <ul className="space-y-1">
+            {options.map(option => (
+                <li key={option.value}>
+                    <button
+                        onClick={() => onSelect(option.value)}
+                        className={`text-sm py-1 text-left hover:text-black dark:hover:text-white ${isSelected(option.value) ? 'font-semibold text-black dark:text-white' : 'text-yt-light-gray'}`}
+                    >
+                        {option.label}
+                        {isSelected(option.value) && <span className="ml-1">✕</span>}
+                    </button>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ filters, onChange }) => {
+    const isActive = hasActiveSearchFilters(filters);
+    const [isOpen, setIsOpen] = useState(isActive);
+    const features = filters.features || [];
+
+    const toggleFeature = (feature: SearchFeature) => {
+        const next = features.includes(feature) ? features.filter(f => f !== feature) : [...features, feature];
+        onChange({ ...filters, features: next });
+    };
+
+    return (
+        <div className="mb-4 border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-2">
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setIsOpen(prev => !prev)}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10 text-sm font-semibold"
+                    aria-expanded={isOpen}
+                >
+                    <svg viewBox="0 0 24 24" className="w-5 h-5 fill-current"><path d="M15 17h6v1h-6v-1zm-4 0H3v1h8v2h1v-5h-1v2zm3-9h1V3h-1v2H3v1h11v2zm4-3v1h3V5h-3zm-4 7h7v-1h-7v1zm-2-3v2H3v1h9v2h1V9h-1z"></path></svg>
+                    フィルタ
+                </button>
+                {isActive && (
+                    <button onClick={() => onChange({})} className="px-3 py-1.5 text-sm text-yt-blue hover:bg-yt-blue/10 rounded-full transition-colors">
+                        フィルタをクリア
+                    </button>
+                )}
+            </div>
+            {isOpen && (
+                <div className="flex flex-wrap gap-x-8 gap-y-6 pt-4 pb-2 px-3">
+                    <FilterColumn
+                        title="アップロード日"
+                        options={UPLOAD_DATE_OPTIONS}
+                        isSelected={value => value !== 'all' && filters.uploadDate === value}
+                        onSelect={value => onChange({ ...filters, uploadDate: filters.uploadDate === value ? 'all' : value })}
+                    />
+                    <FilterColumn
+                        title="タイプ"
+                        options={TYPE_OPTIONS}
+                        isSelected={value => value !== 'all' && filters.type === value}
+                        onSelect={value => onChange({ ...filters, type: filters.type === value ? 'all' : value })}
+                    />
+                    <FilterColumn
+                        title="時間"
+                        options={DURATION_OPTIONS}
+                        isSelected={value => value !== 'all' && filters.duration === value}
+                        onSelect={value => onChange({ ...filters, duration: filters.duration === value ? 'all' : value })}
+                    />
+                    <FilterColumn
+                        title="特徴"
+                        options={FEATURE_OPTIONS}
+                        isSelected={value => features.includes(value)}
+                        onSelect={toggleFeature}
+                    />
+                    <FilterColumn
+                        title="並べ替え"
+                        options={SORT_OPTIONS}
+                        isSelected={value => value !== 'relevance' && filters.sortBy === value}
+                        onSelect={value => onChange({ ...filters, sortBy: filters.sortBy === value ? 'relevance' : value })}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SearchFilterBar;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { SearchIcon, HistoryIcon } from './icons/Icons';
+import { getSuggestionText, type SearchSuggestionItem } from '../hooks/useSearchAutocomplete';
+
+interface SearchSuggestionDropdownProps {
+    items: SearchSuggestionItem[];
+    activeIndex: number;
+    query: string;
+    onSelect: (item: SearchSuggestionItem) => void;
+    onRemoveHistory: (text: string) => void;
+    onHover: (index: number) => void;
+    // モバイルの検索画面では画面いっぱいのリストとして表示する
+    variant?: 'popover' | 'fullscreen';
+}
+
+// 入力済みの部分はそのまま、続きの部分を太字にする (YouTube と同じ見せ方)
+const HighlightedText: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+    const prefix = query.trim();
+    if (!prefix || !text.toLowerCase().startsWith(prefix.toLowerCase())) {
+        return <span className="font-semibold">{text}</span>;
+    }
+    return (
+        <span>
+            {text.slice(0, prefix.length)}
+            <span className="font-semibold">{text.slice(prefix.length)}</span>
+        </span>
+    );
+};
+
+const SearchSuggestionDropdown: React.FC<SearchSuggestionDropdownProps> = ({ items, activeIndex, query, onSelect, onRemoveHistory, onHover, variant = 'popover' }) => {
+    const containerClass = variant === 'popover'
+        ? 'absolute top-full left-0 right-0 mt-1 bg-yt-white/90 dark:bg-black/90 backdrop-blur-2xl rounded-xl shadow-2xl border border-white/20 dark:border-white/10 py-2 z-50 max-h-[70vh] overflow-y-auto'
+        : 'py-2';
+
+    return (
+        // mousedown で入力欄のフォーカスが外れると候補が閉じてしまうので、既定動作を止める
+        <ul role="listbox" className={containerClass} onMouseDown={e => e.preventDefault()}>
+            {items.map((item, index) => {
+                const text = getSuggestionText(item);
+                const isActive = index === activeIndex;
+                return (
+                    <li
+                        key={`${item.kind}-${item.kind === 'channel' ? item.channel.id : text}`}
+                        role="option"
+                        aria-selected={isActive}
+                        onMouseEnter={() => onHover(index)}
+                        onClick={() => onSelect(item)}
+                        className={`flex items-center gap-3 px-4 py-1.5 cursor-pointer text-black dark:text-white ${isActive ? 'bg-yt-spec-light-10 dark:bg-yt-spec-10' : ''}`}
+                    >
+                        {item.kind === 'channel' ? (
+                            <img src={item.channel.avatarUrl} alt="" className="w-6 h-6 rounded-full object-cover flex-shrink-0" />
+                        ) : (
+                            <span className="flex-shrink-0 scale-90 text-yt-light-gray">
+                                {item.kind === 'history' ? <HistoryIcon /> : <SearchIcon />}
+                            </span>
+                        )}
+                        <span className="flex-1 min-w-0 truncate text-base">
+                            {item.kind === 'channel' ? (
+                                <>
+                                    <span className="font-semibold">{text}</span>
+                                    <span className="ml-2 text-xs text-yt-light-gray">登録チャンネル</span>
+                                </>
+                            ) : (
+                                <HighlightedText text={text} query={query} />
+                            )}
+                        </span>
+                        {item.kind === 'history' && (
+                            <button
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    onRemoveHistory(item.text);
+                                }}
+                                className="text-xs text-yt-blue hover:underline flex-shrink-0"
+                                aria-label={`「${item.text}」を検索履歴から削除`}
+                            >
+                                削除
+                            </button>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default SearchSuggestionDropdown;
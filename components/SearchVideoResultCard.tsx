@@ -3,6 +3,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import type { Video } from '../types';
 import { ChevronRightIcon } from './icons/Icons';
+import WatchProgressBar from './WatchProgressBar';
 
 interface SearchVideoResultCardProps {
   video: Video;
@@ -42,6 +43,7 @@ const SearchVideoResultCard: React.FC<SearchVideoResultCardProps> = ({ video })
         <span className="absolute bottom-1 right-1 bg-black bg-opacity-80 text-white text-xs px-1.5 py-0.5 rounded-md">
           {video.duration}
         </span>
+        <WatchProgressBar videoId={video.id} />
       </div>
 
       {/* Video Details */}
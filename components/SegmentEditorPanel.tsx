@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import {
+    ALL_SEGMENT_CATEGORIES,
+    SEGMENT_CATEGORY_COLORS,
+    SEGMENT_CATEGORY_LABELS,
+    addLocalSegment,
+    removeLocalSegment,
+    type SegmentCategory,
+    type SkipSegment,
+} from '../utils/segments';
+import { formatCueTime } from '../utils/captions';
+import { CloseIcon, TrashIcon } from './icons/Icons';
+
+interface SegmentEditorPanelProps {
+    videoId: string;
+    segments: SkipSegment[];
+    currentTime: number;
+    onSeek: (seconds: number) => void;
+    onClose: () => void;
+}
+
+// 動画が変わったら親側で key を変えて作り直す前提 (入力途中の区間は引き継がない)
+const SegmentEditorPanel: React.FC<SegmentEditorPanelProps> = ({ videoId, segments, currentTime, onSeek, onClose }) => {
+    const [category, setCategory] = useState<SegmentCategory>('sponsor');
+    const [start, setStart] = useState<number | null>(null);
+    const [end, setEnd] = useState<number | null>(null);
+
+    const canAdd = start !== null && end !== null && Math.abs(end - start) >= 1;
+
+    const handleAdd = () => {
+        if (start === null || end === null || !canAdd) return;
+        addLocalSegment(videoId, category, start, end);
+        setStart(null);
+        setEnd(null);
+    };
+
+    const markButtonClass = 'flex-1 text-xs font-semibold px-2 py-1.5 rounded-lg bg-yt-light dark:bg-yt-dark-gray hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20 tabular-nums';
+
+    return (
+        <div className="flex flex-col border border-yt-spec-light-20 dark:border-yt-spec-20 rounded-xl overflow-hidden bg-yt-white dark:bg-yt-black">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+                <h2 className="text-base font-bold">スキップ区間</h2>
+                <button onClick={onClose} className="p-1 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" aria-label="閉じる">
+                    <CloseIcon />
+                </button>
+            </div>
+
+            <div className="flex flex-col gap-2 px-4 py-3 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+                <p className="text-xs text-yt-light-gray">再生しながら開始・終了位置を記録して、この端末だけのスキップ区間を追加できます。</p>
+                <select
+                    value={category}
+                    onChange={e => setCategory(e.target.value as SegmentCategory)}
+                    className="text-sm px-2 py-1.5 rounded-lg bg-yt-light dark:bg-yt-dark-gray outline-none"
+                    aria-label="カテゴリ"
+                >
+                    {ALL_SEGMENT_CATEGORIES.map(value => (
+                        <option key={value} value={value}>{SEGMENT_CATEGORY_LABELS[value]}</option>
+                    ))}
+                </select>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setStart(currentTime)} className={markButtonClass}>
+                        開始: {start !== null ? formatCueTime(start) : '現在位置'}
+                    </button>
+                    <button onClick={() => setEnd(currentTime)} className={markButtonClass}>
+                        終了: {end !== null ? formatCueTime(end) : '現在位置'}
+                    </button>
+                </div>
+                <button onClick={handleAdd} disabled={!canAdd} className="px-4 py-1.5 rounded-full bg-black dark:bg-white text-white dark:text-black text-sm font-semibold hover:opacity-90 disabled:opacity-30">
+                    区間を追加
+                </button>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto py-2">
+                {segments.length === 0 ? (
+                    <p className="px-4 py-2 text-sm text-yt-light-gray">この動画にはスキップ区間がありません。</p>
+                ) : (
+                    segments.map(segment => (
+                        <div key={segment.id} className="flex items-center gap-3 px-4 py-2 text-sm hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10">
+                            <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: SEGMENT_CATEGORY_COLORS[segment.category] }} />
+                            <button onClick={() => onSeek(segment.start)} className="flex-1 min-w-0 text-left">
+                                <span className="font-semibold">{SEGMENT_CATEGORY_LABELS[segment.category]}</span>
+                                <span className="ml-2 text-xs text-yt-light-gray tabular-nums">{formatCueTime(segment.start)} - {formatCueTime(segment.end)}</span>
+                            </button>
+                            <span className="text-xs text-yt-light-gray flex-shrink-0">{segment.source === 'local' ? 'ローカル' : 'SponsorBlock'}</span>
+                            {segment.source === 'local' && (
+                                <button onClick={() => removeLocalSegment(videoId, segment.id)} className="p-1 rounded-full hover:bg-yt-spec-light-20 dark:hover:bg-yt-spec-20 flex-shrink-0" aria-label="削除">
+                                    <TrashIcon />
+                                </button>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SegmentEditorPanel;
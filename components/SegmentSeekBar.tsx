@@ -0,0 +1,38 @@
+import React from 'react';
+import { SEGMENT_CATEGORY_COLORS, SEGMENT_CATEGORY_LABELS, type SkipSegment } from '../utils/segments';
+import { formatCueTime } from '../utils/captions';
+
+interface SegmentSeekBarProps {
+    segments: SkipSegment[];
+    currentTime: number;
+    duration: number;
+    onSeek: (seconds: number) => void;
+}
+
+// iframe / ネイティブコントロールのシークバーには描けないので、プレイヤー直下に細いバーを重ねて出す
+const SegmentSeekBar: React.FC<SegmentSeekBarProps> = ({ segments, currentTime, duration, onSeek }) => {
+    if (segments.length === 0 || duration <= 0) return null;
+
+    const toPercent = (seconds: number) => `${Math.min(100, Math.max(0, (seconds / duration) * 100))}%`;
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    return (
+        <div onClick={handleClick} className="relative w-full h-2 mt-2 rounded-full bg-yt-spec-light-20 dark:bg-yt-spec-20 cursor-pointer overflow-hidden" role="presentation">
+            <div className="absolute inset-y-0 left-0 bg-red-600/60" style={{ width: toPercent(currentTime) }} />
+            {segments.map(segment => (
+                <div
+                    key={segment.id}
+                    className="absolute inset-y-0"
+                    style={{ left: toPercent(segment.start), width: toPercent(segment.end - segment.start), backgroundColor: SEGMENT_CATEGORY_COLORS[segment.category] }}
+                    title={`${SEGMENT_CATEGORY_LABELS[segment.category]} ${formatCueTime(segment.start)} - ${formatCueTime(segment.end)}`}
+                />
+            ))}
+        </div>
+    );
+};
+
+export default SegmentSeekBar;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { SEGMENT_CATEGORY_LABELS, type SkipSegment } from '../utils/segments';
+import type { SkipNotice } from '../hooks/useSkipSegments';
+
+interface SegmentSkipOverlayProps {
+    notice: SkipNotice | null;
+    manualSkipSegment: SkipSegment | null;
+    onUndo: () => void;
+    onSkip: (segment: SkipSegment) => void;
+}
+
+// プレイヤーのコントロールと重ならないよう右下の少し上に出す
+const SegmentSkipOverlay: React.FC<SegmentSkipOverlayProps> = ({ notice, manualSkipSegment, onUndo, onSkip }) => {
+    if (!notice && !manualSkipSegment) return null;
+
+    return (
+        <div className="absolute right-3 bottom-16 z-20 flex flex-col items-end gap-2 pointer-events-none">
+            {notice && (
+                <div className="pointer-events-auto flex items-center gap-3 px-4 py-2 rounded-lg bg-black/80 text-white text-sm shadow-lg">
+                    <span>{SEGMENT_CATEGORY_LABELS[notice.segment.category]}をスキップしました</span>
+                    <button onClick={onUndo} className="font-semibold text-yt-blue hover:underline">元に戻す</button>
+                </div>
+            )}
+            {!notice && manualSkipSegment && (
+                <button
+                    onClick={() => onSkip(manualSkipSegment)}
+                    className="pointer-events-auto px-4 py-2 rounded-lg bg-black/80 text-white text-sm font-semibold shadow-lg hover:bg-black"
+                >
+                    {SEGMENT_CATEGORY_LABELS[manualSkipSegment.category]}をスキップ ▶▶
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SegmentSkipOverlay;
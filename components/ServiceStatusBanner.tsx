@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { subscribeToResilienceEvents, getOpenCircuits, resetCircuit } from '../utils/resilience';
+
+const FAMILY_LABELS: Record<string, string> = {
+    video: '動画情報',
+    videos: '動画情報 (一括)',
+    search: '検索',
+    comments: 'コメント',
+    captions: '字幕',
+    channel: 'チャンネル',
+    'channel-home-proxy': 'チャンネルホーム',
+    'channel-playlists': 'チャンネルのプレイリスト',
+    shorts: 'ショート',
+    playlist: 'プレイリスト',
+    stream: 'ストリーム',
+    fvideo: 'ホームフィード',
+    invidious: 'Invidious',
+    piped: 'Piped',
+    sponsorblock: 'スキップ区間 (SponsorBlock)',
+};
+
+const ServiceStatusBanner: React.FC = () => {
+    const [degradedFamilies, setDegradedFamilies] = useState<string[]>(getOpenCircuits);
+
+    useEffect(() => {
+        return subscribeToResilienceEvents(event => {
+            if (event.type === 'circuit') {
+                setDegradedFamilies(getOpenCircuits());
+            }
+        });
+    }, []);
+
+    if (degradedFamilies.length === 0) return null;
+
+    const handleRetry = () => {
+        degradedFamilies.forEach(resetCircuit);
+    };
+
+    return (
+        <div className="fixed top-14 left-0 right-0 z-40 flex justify-center px-4 pointer-events-none">
+            <div className="mt-2 flex items-center gap-3 px-4 py-2 rounded-full bg-yellow-100 dark:bg-yellow-900/80 text-yellow-900 dark:text-yellow-100 text-sm shadow-lg pointer-events-auto">
+                <span>
+                    サービスが不安定です: {degradedFamilies.map(f => FAMILY_LABELS[f] || f).join('、')}
+                </span>
+                <button onClick={handleRetry} className="font-semibold hover:underline whitespace-nowrap">
+                    再試行
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ServiceStatusBanner;
@@ -0,0 +1,63 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { StreamSource, StreamQualityPreference } from '../utils/streamQuality';
+import { CheckIcon } from './icons/Icons';
+
+interface StreamQualityMenuProps {
+    sources: StreamSource[];
+    current: StreamSource;
+    preference: StreamQualityPreference;
+    onSelect: (preference: StreamQualityPreference) => void;
+}
+
+// ネイティブコントロールには画質メニューが無いので、プレイヤー右上に重ねて出す
+const StreamQualityMenu: React.FC<StreamQualityMenuProps> = ({ sources, current, preference, onSelect }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const select = (value: StreamQualityPreference) => {
+        onSelect(value);
+        setIsOpen(false);
+    };
+
+    const optionClass = 'w-full flex items-center gap-2 px-3 py-2 text-left text-sm hover:bg-white/10';
+
+    return (
+        <div ref={menuRef} className="absolute top-2 right-2 z-20">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="px-3 py-1 rounded-full bg-black/70 text-white text-xs font-semibold hover:bg-black/90"
+                aria-haspopup="listbox"
+                aria-expanded={isOpen}
+                title="画質"
+            >
+                {preference === 'auto' ? `自動 (${current.label})` : current.label}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-1 w-40 py-1 rounded-lg bg-black/90 text-white shadow-xl" role="listbox">
+                    <button onClick={() => select('auto')} className={optionClass} role="option" aria-selected={preference === 'auto'}>
+                        <span className="w-4">{preference === 'auto' && <CheckIcon className="w-4 h-4 fill-current" />}</span>
+                        自動
+                    </button>
+                    {sources.map(source => (
+                        <button key={source.id} onClick={() => select(source.id)} className={optionClass} role="option" aria-selected={preference === source.id}>
+                            <span className="w-4">{preference === source.id && <CheckIcon className="w-4 h-4 fill-current" />}</span>
+                            {source.label}
+                            {source.height >= 1080 && <span className="text-[10px] font-bold px-1 rounded bg-white/20">HD</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StreamQualityMenu;
@@ -1,63 +1,52 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, type RefObject } from 'react';
+import { createAvSyncController } from '../utils/avSync';
+import { useResumeOnLoad } from '../hooks/useResumeOnLoad';
 
 interface StreamingPlayerProps {
   videoUrl: string;
   audioUrl?: string;
+  // usePlaybackController に渡して再生位置の取得・シーク (スキップ区間など) をさせるための ref
+  videoRef?: RefObject<HTMLVideoElement>;
+  // 画質切り替え時に同じ位置・同じ再生状態から続ける
+  startTime?: number;
+  autoPlay?: boolean;
+  loop?: boolean;
 }
 
-const StreamingPlayer: React.FC<StreamingPlayerProps> = ({ videoUrl, audioUrl }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+const StreamingPlayer: React.FC<StreamingPlayerProps> = ({ videoUrl, audioUrl, videoRef: externalVideoRef, startTime = 0, autoPlay = true, loop = false }) => {
+  const internalVideoRef = useRef<HTMLVideoElement>(null);
+  const videoRef = externalVideoRef ?? internalVideoRef;
   const audioRef = useRef<HTMLAudioElement>(null);
 
+  useResumeOnLoad(videoRef, videoUrl, startTime, autoPlay);
+
+  // 映像のみ + 音声の2要素再生のときはずれ・バッファ待ち・再生速度を同期させる
   useEffect(() => {
     const video = videoRef.current;
     const audio = audioRef.current;
-    if (video && audio) {
-      const syncPlayback = () => {
-        if (audio.paused !== video.paused) {
-          video.paused ? audio.pause() : audio.play();
-        }
-        if (Math.abs(video.currentTime - audio.currentTime) > 0.2) {
-          audio.currentTime = video.currentTime;
-        }
-      };
-      
-      const syncVolume = () => {
-        audio.volume = video.volume;
-        audio.muted = video.muted;
-      };
-
-      video.addEventListener('play', syncPlayback);
-      video.addEventListener('pause', syncPlayback);
-      video.addEventListener('seeking', syncPlayback);
-      video.addEventListener('volumechange', syncVolume);
-      
-      syncVolume();
-
-      return () => {
-        video.removeEventListener('play', syncPlayback);
-        video.removeEventListener('pause', syncPlayback);
-        video.removeEventListener('seeking', syncPlayback);
-        video.removeEventListener('volumechange', syncVolume);
-      };
-    }
-  }, [videoUrl, audioUrl]);
+    if (!video || !audio) return;
+    const controller = createAvSyncController(video, audio);
+    return () => controller.destroy();
+  }, [videoUrl, audioUrl, videoRef]);
 
   return (
     <div className="w-full h-full bg-black flex justify-center items-center">
+      {/* 映像のみのストリームには音声トラックが無いので、音量は <video> のコントロールで操作して <audio> に反映する */}
       <video
         ref={videoRef}
-        key={videoUrl}
         src={videoUrl}
         controls
-        autoPlay
+        autoPlay={autoPlay}
         playsInline
+        loop={loop}
         className="w-full h-full"
-        muted={!!audioUrl}
-      />
-      {audioUrl && <audio ref={audioRef} key={audioUrl} src={audioUrl} />}
+        onError={(e) => console.error("Video Playback Error", e)}
+      >
+        お使いのブラウザは動画タグをサポートしていません。
+      </video>
+      {audioUrl && <audio ref={audioRef} src={audioUrl} loop={loop} preload="auto" />}
     </div>
   );
 };
 
-export default StreamingPlayer;
\ No newline at end of file
+export default StreamingPlayer;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { CaptionsData } from '../types';
+import { getCaptions, isAbortError } from '../utils/api';
+import { formatCueTime, findActiveCueIndex, toSrt, toVtt, downloadTextFile } from '../utils/captions';
+import { CloseIcon, DownloadIcon } from './icons/Icons';
+
+interface TranscriptPanelProps {
+    videoId: string;
+    videoTitle: string;
+    currentTime: number;
+    onSeek: (seconds: number) => void;
+    onClose: () => void;
+}
+
+// ファイル名に使えない文字を除く
+const toFilename = (title: string) => title.replace(/[\\/:*?"<>|]+/g, '_').slice(0, 100) || 'transcript';
+
+// 動画が変わったら親側で key を変えて作り直す前提 (選択トラックや検索語は引き継がない)
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ videoId, videoTitle, currentTime, onSeek, onClose }) => {
+    const [captions, setCaptions] = useState<CaptionsData | null>(null);
+    const [selectedTrackId, setSelectedTrackId] = useState<string | undefined>(undefined);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [searchTerm, setSearchTerm] = useState('');
+    const listRef = useRef<HTMLDivElement>(null);
+    const activeCueRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setIsLoading(true);
+        setError(null);
+        getCaptions(videoId, selectedTrackId, controller.signal)
+            .then(data => setCaptions(data))
+            .catch(err => {
+                if (isAbortError(err)) return;
+                setError(err.message || '字幕の取得に失敗しました。');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoading(false);
+            });
+        return () => controller.abort();
+    }, [videoId, selectedTrackId]);
+
+    const cues = captions?.cues ?? [];
+    const activeIndex = useMemo(() => findActiveCueIndex(cues, currentTime), [cues, currentTime]);
+
+    const query = searchTerm.trim().toLowerCase();
+    const visibleCues = useMemo(() => {
+        const indexed = cues.map((cue, index) => ({ cue, index }));
+        return query ? indexed.filter(({ cue }) => cue.text.toLowerCase().includes(query)) : indexed;
+    }, [cues, query]);
+
+    // 再生中のキューがリスト内に見えるようにする。検索中は結果の位置を優先して動かさない
+    useEffect(() => {
+        const list = listRef.current;
+        const item = activeCueRef.current;
+        if (query || !list || !item) return;
+        const itemTop = item.offsetTop;
+        if (itemTop < list.scrollTop || itemTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+            list.scrollTo({ top: itemTop - list.clientHeight / 3, behavior: 'smooth' });
+        }
+    }, [activeIndex, query]);
+
+    const handleDownload = (format: 'srt' | 'vtt') => {
+        if (cues.length === 0) return;
+        const language = captions?.track?.languageCode ?? 'und';
+        const filename = `${toFilename(videoTitle)}.${language}.${format}`;
+        if (format === 'srt') downloadTextFile(filename, toSrt(cues), 'application/x-subrip');
+        else downloadTextFile(filename, toVtt(cues), 'text/vtt');
+    };
+
+    const highlight = (text: string) => {
+        if (!query) return text;
+        const start = text.toLowerCase().indexOf(query);
+        if (start === -1) return text;
+        return (
+            <>
+                {text.slice(0, start)}
+                <mark className="bg-yellow-300 dark:bg-yellow-600 text-black dark:text-white rounded-sm">{text.slice(start, start + query.length)}</mark>
+                {text.slice(start + query.length)}
+            </>
+        );
+    };
+
+    return (
+        <div className="flex flex-col border border-yt-spec-light-20 dark:border-yt-spec-20 rounded-xl overflow-hidden h-[500px] bg-yt-white dark:bg-yt-black">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+                <h2 className="text-base font-bold">文字起こし</h2>
+                <button onClick={onClose} className="p-1 rounded-full hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10" aria-label="閉じる">
+                    <CloseIcon />
+                </button>
+            </div>
+
+            {captions && captions.tracks.length > 0 && (
+                <div className="flex flex-col gap-2 px-4 py-2 border-b border-yt-spec-light-20 dark:border-yt-spec-20">
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={captions.track?.id ?? ''}
+                            onChange={e => setSelectedTrackId(e.target.value)}
+                            className="flex-1 min-w-0 text-sm px-2 py-1.5 rounded-lg bg-yt-light dark:bg-yt-dark-gray outline-none"
+                            aria-label="字幕トラック"
+                        >
+                            {captions.tracks.map(track => (
+                                <option key={track.id} value={track.id}>
+                                    {track.name}{track.isAutoGenerated ? ' (自動生成)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                        <button onClick={() => handleDownload('srt')} disabled={cues.length === 0} className="flex items-center gap-1 text-xs font-semibold px-2 py-1.5 rounded-lg hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-30" title="SRT でダウンロード">
+                            <DownloadIcon />SRT
+                        </button>
+                        <button onClick={() => handleDownload('vtt')} disabled={cues.length === 0} className="flex items-center gap-1 text-xs font-semibold px-2 py-1.5 rounded-lg hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 disabled:opacity-30" title="VTT でダウンロード">
+                            <DownloadIcon />VTT
+                        </button>
+                    </div>
+                    <input
+                        type="search"
+                        value={searchTerm}
+                        onChange={e => setSearchTerm(e.target.value)}
+                        placeholder="文字起こし内を検索"
+                        className="w-full text-sm px-3 py-1.5 rounded-lg bg-yt-light dark:bg-yt-dark-gray outline-none focus:ring-2 focus:ring-yt-blue"
+                    />
+                    {query && <p className="text-xs text-yt-light-gray">{visibleCues.length}件一致</p>}
+                </div>
+            )}
+
+            <div ref={listRef} className="relative flex-1 overflow-y-auto py-2">
+                {isLoading ? (
+                    <div className="flex justify-center py-8"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue"></div></div>
+                ) : error ? (
+                    <p className="px-4 py-4 text-sm text-red-500">{error}</p>
+                ) : cues.length === 0 ? (
+                    <p className="px-4 py-4 text-sm text-yt-light-gray">この動画には字幕がありません。</p>
+                ) : (
+                    visibleCues.map(({ cue, index }) => (
+                        <button
+                            key={index}
+                            ref={index === activeIndex ? activeCueRef : undefined}
+                            onClick={() => onSeek(cue.start)}
+                            className={`w-full flex items-start gap-3 px-4 py-2 text-left text-sm hover:bg-yt-spec-light-10 dark:hover:bg-yt-spec-10 ${index === activeIndex ? 'bg-yt-spec-light-20 dark:bg-yt-spec-20' : ''}`}
+                        >
+                            <span className="flex-shrink-0 text-xs font-semibold px-1.5 py-0.5 rounded bg-yt-light dark:bg-yt-dark-gray tabular-nums">{formatCueTime(cue.start)}</span>
+                            <span className="flex-1 min-w-0 break-words">{highlight(cue.text)}</span>
+                        </button>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TranscriptPanel;
@@ -4,6 +4,7 @@ import { Link } from 'react-router-dom';
 import type { Video } from '../types';
 import { ChevronRightIcon, MoreIconHorizontal, BlockIcon, TrashIcon } from './icons/Icons';
 import { usePreference } from '../contexts/PreferenceContext';
+import WatchProgressBar from './WatchProgressBar';
 
 interface VideoCardProps {
   video: Video;
@@ -104,6 +105,7 @@ const VideoCard: React.FC<VideoCardProps> = memo(({ video, hideChannelInfo = fal
                 {video.duration}
                 </span>
             )}
+            <WatchProgressBar videoId={video.id} />
         </div>
       </Link>
       
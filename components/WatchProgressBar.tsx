@@ -0,0 +1,23 @@
+import React from 'react';
+import { useHistory } from '../contexts/HistoryContext';
+import { getProgressRatio, isWatchCompleted } from '../utils/watchProgress';
+
+interface WatchProgressBarProps {
+    videoId: string;
+}
+
+// サムネイルの下端に重ねる視聴済みバー。親は relative にしておく
+const WatchProgressBar: React.FC<WatchProgressBarProps> = ({ videoId }) => {
+    const { watchProgress } = useHistory();
+    const progress = watchProgress[videoId];
+    const ratio = isWatchCompleted(progress) ? 1 : getProgressRatio(progress);
+    if (ratio <= 0) return null;
+
+    return (
+        <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/40 pointer-events-none">
+            <div className="h-full bg-red-600" style={{ width: `${ratio * 100}%` }} />
+        </div>
+    );
+};
+
+export default WatchProgressBar;
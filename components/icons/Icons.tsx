@@ -163,6 +163,18 @@ export const PlayIcon: React.FC<{className?: string}> = ({className}) => (
     </svg>
 );
 
+export const PauseIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width="24" focusable="false" className={className || iconClasses}>
+        <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"></path>
+    </svg>
+);
+
+export const SkipNextIcon: React.FC<{className?: string}> = ({className}) => (
+    <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width="24" focusable="false" className={className || iconClasses}>
+        <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"></path>
+    </svg>
+);
+
 export const MoreIconHorizontal: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width="24" focusable="false" className={iconClasses}>
         <path d="M6 10h2v2H6zm6 0h2v2h-2zm6 0h2v2h-2z"></path>
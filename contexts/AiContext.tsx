@@ -29,7 +29,7 @@ export const AiProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const engine = useRef<webllm.MLCEngine | null>(null);
   const discoveryVideoCache = useRef<Video[]>([]); // Cache for discovered videos to prevent reload flickering
 
-  const { history } = useHistory();
+  const { history, watchProgress } = useHistory();
   const { subscribedChannels } = useSubscription();
 
   const initializeEngine = useCallback(async () => {
@@ -78,7 +78,8 @@ export const AiProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const profile = buildUserProfile({
         watchHistory: history,
         searchHistory: [],
-        subscribedChannels: subscribedChannels
+        subscribedChannels: subscribedChannels,
+        watchProgress
     });
     const interests = inferTopInterests(profile, 15);
     const recentTitles = history.slice(0, 5).map(v => v.title).join('", "');
@@ -115,7 +116,7 @@ export const AiProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
         console.error("Recommendation generation failed", e);
         return interests.slice(0, 5);
     }
-  }, [history, subscribedChannels, initializeEngine]);
+  }, [history, watchProgress, subscribedChannels, initializeEngine]);
 
   // Summarize comments using Local LLM
   const summarizeComments = useCallback(async (comments: string[]): Promise<string> => {
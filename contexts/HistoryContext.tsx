@@ -1,7 +1,8 @@
 
 
-import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
-import type { Video } from '../types';
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useRef } from 'react';
+import type { Video, WatchProgress } from '../types';
+import { getResumePosition as resumePositionOf, mergeWatchProgress } from '../utils/watchProgress';
 
 interface HistoryContextType {
   history: Video[];
@@ -10,13 +11,19 @@ interface HistoryContextType {
   addShortToHistory: (video: Video) => void;
   clearHistory: () => void;
   removeVideosFromHistory: (videoIds: string[]) => void;
+  // 動画ごとの視聴位置
+  watchProgress: Record<string, WatchProgress>;
+  updateWatchProgress: (videoId: string, position: number, duration: number) => void;
+  getResumePosition: (videoId: string) => number;
 }
 
 const HistoryContext = createContext<HistoryContextType | undefined>(undefined);
 
 const HISTORY_KEY = 'videoHistory';
 const SHORTS_HISTORY_KEY = 'shortsHistory';
+const WATCH_PROGRESS_KEY = 'watchProgress';
 const MAX_HISTORY_LENGTH = 200;
+const MAX_WATCH_PROGRESS_ENTRIES = 500;
 
 export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [history, setHistory] = useState<Video[]>(() => {
@@ -39,6 +46,19 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   });
 
+  const [watchProgress, setWatchProgress] = useState<Record<string, WatchProgress>>(() => {
+    try {
+      const item = window.localStorage.getItem(WATCH_PROGRESS_KEY);
+      return item ? JSON.parse(item) : {};
+    } catch (error) {
+      console.error("Failed to parse watch progress from localStorage", error);
+      return {};
+    }
+  });
+  // getResumePosition を再生成せずに最新の値を読むため
+  const watchProgressRef = useRef(watchProgress);
+  watchProgressRef.current = watchProgress;
+
   useEffect(() => {
     try {
       window.localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
@@ -55,6 +75,14 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   }, [shortsHistory]);
 
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(WATCH_PROGRESS_KEY, JSON.stringify(watchProgress));
+    } catch (error) {
+      console.error("Failed to save watch progress to localStorage", error);
+    }
+  }, [watchProgress]);
+
   const addVideoToHistory = useCallback((video: Video) => {
     setHistory(prev => {
       // 既存の履歴から同じIDの動画を削除し、新しい動画を先頭に追加する
@@ -73,18 +101,39 @@ export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
   }, []);
 
+  const updateWatchProgress = useCallback((videoId: string, position: number, duration: number) => {
+    setWatchProgress(prev => {
+      const next = { ...prev, [videoId]: mergeWatchProgress(prev[videoId], position, duration) };
+      const ids = Object.keys(next);
+      if (ids.length <= MAX_WATCH_PROGRESS_ENTRIES) return next;
+      // 古いものから削る
+      ids.sort((a, b) => next[b].updatedAt - next[a].updatedAt)
+        .slice(MAX_WATCH_PROGRESS_ENTRIES)
+        .forEach(id => delete next[id]);
+      return next;
+    });
+  }, []);
+
+  const getResumePosition = useCallback((videoId: string) => resumePositionOf(watchProgressRef.current[videoId]), []);
+
   const clearHistory = useCallback(() => {
     setHistory([]);
     setShortsHistory([]);
+    setWatchProgress({});
   }, []);
 
   const removeVideosFromHistory = useCallback((videoIds: string[]) => {
     setHistory(prev => prev.filter(video => !videoIds.includes(video.id)));
     setShortsHistory(prev => prev.filter(video => !videoIds.includes(video.id)));
+    setWatchProgress(prev => {
+      const next = { ...prev };
+      videoIds.forEach(id => delete next[id]);
+      return next;
+    });
   }, []);
 
   return (
-    <HistoryContext.Provider value={{ history, shortsHistory, addVideoToHistory, addShortToHistory, clearHistory, removeVideosFromHistory }}>
+    <HistoryContext.Provider value={{ history, shortsHistory, addVideoToHistory, addShortToHistory, clearHistory, removeVideosFromHistory, watchProgress, updateWatchProgress, getResumePosition }}>
       {children}
     </HistoryContext.Provider>
   );
@@ -0,0 +1,63 @@
+import React, { createContext, useState, useContext, ReactNode, useCallback } from 'react';
+import type { Video } from '../types';
+import type { PlayerMode } from './PreferenceContext';
+
+// 視聴ページから離れたときに再生を引き継ぐミニプレイヤーの状態。
+// 再生そのものは MiniPlayer コンポーネントが持ち、ここでは「何をどこから再生するか」だけを持つ。
+export interface MiniPlayerSession {
+  video: Video;
+  mode: PlayerMode;
+  startTime: number;
+  playing: boolean;
+  // 視聴ページに戻るときに引き継ぐクエリ (list / shuffle / loop)
+  search: string;
+  // 次へで再生する動画 (プレイリストの残り、無ければ関連動画の先頭)
+  upNext: Video[];
+  // プレイリスト外の単体ループ
+  loop: boolean;
+  // 再生が終わったら upNext の先頭へ進むか (プレイリスト再生中)
+  autoAdvance: boolean;
+}
+
+interface MiniPlayerContextType {
+  session: MiniPlayerSession | null;
+  openMiniPlayer: (session: MiniPlayerSession) => void;
+  closeMiniPlayer: () => void;
+  playNext: () => void;
+}
+
+const MiniPlayerContext = createContext<MiniPlayerContextType | undefined>(undefined);
+
+export const MiniPlayerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<MiniPlayerSession | null>(null);
+
+  const openMiniPlayer = useCallback((next: MiniPlayerSession) => {
+    setSession(next);
+  }, []);
+
+  const closeMiniPlayer = useCallback(() => {
+    setSession(null);
+  }, []);
+
+  const playNext = useCallback(() => {
+    setSession(prev => {
+      if (!prev || prev.upNext.length === 0) return prev;
+      const [video, ...upNext] = prev.upNext;
+      return { ...prev, video, upNext, startTime: 0, playing: true };
+    });
+  }, []);
+
+  return (
+    <MiniPlayerContext.Provider value={{ session, openMiniPlayer, closeMiniPlayer, playNext }}>
+      {children}
+    </MiniPlayerContext.Provider>
+  );
+};
+
+export const useMiniPlayer = (): MiniPlayerContextType => {
+  const context = useContext(MiniPlayerContext);
+  if (context === undefined) {
+    throw new Error('useMiniPlayer must be used within a MiniPlayerProvider');
+  }
+  return context;
+};
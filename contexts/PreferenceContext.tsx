@@ -15,20 +15,33 @@ export interface HiddenVideo {
     channelName: string;
 }
 
+// 'player' = YouTube 埋め込み、'stream' = 取得したストリームを <video> で、'audio' = 音声のみ
+export type PlayerMode = 'player' | 'stream' | 'audio';
+
 interface PreferenceContextType {
   ngKeywords: string[];
   ngChannels: BlockedChannel[];
   hiddenVideos: HiddenVideo[];
   negativeKeywords: Map<string, number>;
   isShortsAutoplayEnabled: boolean;
+  // 動画が終わったら関連動画を自動再生する (プレイリスト外)
+  isAutoplayNextEnabled: boolean;
   
   // Lite Mode State
   isLiteMode: boolean;
   toggleLiteMode: () => void;
 
-  // Persistent Player Mode ('player' or 'stream')
-  defaultPlayerMode: 'player' | 'stream';
-  setDefaultPlayerMode: (mode: 'player' | 'stream') => void;
+  // Persistent Player Mode ('player', 'stream' or 'audio')
+  defaultPlayerMode: PlayerMode;
+  setDefaultPlayerMode: (mode: PlayerMode) => void;
+
+  // Stream モードの画質 ('auto' または "720p" などの StreamSource.id)
+  streamQuality: string;
+  setStreamQuality: (quality: string) => void;
+
+  // 再生速度 (プレイヤー共通、次の動画にも引き継ぐ)
+  playbackRate: number;
+  setPlaybackRate: (rate: number) => void;
 
   // Versioning for Update Notification
   checkAppVersion: () => boolean; // Returns true if update notification should be shown
@@ -46,6 +59,7 @@ interface PreferenceContextType {
   removeNegativeProfileForVideos: (videos: Video[]) => void;
 
   toggleShortsAutoplay: () => void;
+  toggleAutoplayNext: () => void;
   exportUserData: () => void;
   importUserData: (file: File) => Promise<void>;
 }
@@ -91,6 +105,15 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
     }
   });
 
+  const [isAutoplayNextEnabled, setIsAutoplayNextEnabled] = useState<boolean>(() => {
+    try {
+        const item = window.localStorage.getItem('isAutoplayNextEnabled');
+        return item !== 'false';
+    } catch {
+        return true;
+    }
+  });
+
   // Lite Mode State
   const [isLiteMode, setIsLiteMode] = useState<boolean>(() => {
       try {
@@ -99,13 +122,26 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
   });
 
   // Persistent Player Mode
-  const [defaultPlayerMode, _setDefaultPlayerMode] = useState<'player' | 'stream'>(() => {
+  const [defaultPlayerMode, _setDefaultPlayerMode] = useState<PlayerMode>(() => {
       try {
           const stored = window.localStorage.getItem('defaultPlayerMode');
-          return stored === 'stream' ? 'stream' : 'player';
+          return stored === 'stream' || stored === 'audio' ? stored : 'player';
       } catch { return 'player'; }
   });
 
+  const [streamQuality, _setStreamQuality] = useState<string>(() => {
+      try {
+          return window.localStorage.getItem('streamQuality') || 'auto';
+      } catch { return 'auto'; }
+  });
+
+  const [playbackRate, _setPlaybackRate] = useState<number>(() => {
+      try {
+          const stored = parseFloat(window.localStorage.getItem('playbackRate') || '');
+          return Number.isFinite(stored) && stored > 0 ? stored : 1;
+      } catch { return 1; }
+  });
+
   useEffect(() => { localStorage.setItem('ngKeywords', JSON.stringify(ngKeywords)); }, [ngKeywords]);
   useEffect(() => { localStorage.setItem('ngChannels', JSON.stringify(ngChannels)); }, [ngChannels]);
   useEffect(() => { localStorage.setItem('hiddenVideos', JSON.stringify(hiddenVideos)); }, [hiddenVideos]);
@@ -115,6 +151,9 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
   useEffect(() => {
     localStorage.setItem('isShortsAutoplayEnabled', String(isShortsAutoplayEnabled));
   }, [isShortsAutoplayEnabled]);
+  useEffect(() => {
+    localStorage.setItem('isAutoplayNextEnabled', String(isAutoplayNextEnabled));
+  }, [isAutoplayNextEnabled]);
   
   useEffect(() => {
       localStorage.setItem('isLiteMode', String(isLiteMode));
@@ -191,6 +230,10 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
     setIsShortsAutoplayEnabled(prev => !prev);
   };
 
+  const toggleAutoplayNext = () => {
+    setIsAutoplayNextEnabled(prev => !prev);
+  };
+
   const toggleLiteMode = useCallback(() => {
       // 1. Calculate next state
       const nextState = !isLiteMode;
@@ -206,11 +249,21 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       setTimeout(() => window.location.reload(), 50);
   }, [isLiteMode]);
 
-  const setDefaultPlayerMode = (mode: 'player' | 'stream') => {
+  const setDefaultPlayerMode = (mode: PlayerMode) => {
       _setDefaultPlayerMode(mode);
       localStorage.setItem('defaultPlayerMode', mode);
   };
 
+  const setStreamQuality = (quality: string) => {
+      _setStreamQuality(quality);
+      localStorage.setItem('streamQuality', quality);
+  };
+
+  const setPlaybackRate = (rate: number) => {
+      _setPlaybackRate(rate);
+      localStorage.setItem('playbackRate', String(rate));
+  };
+
   const checkAppVersion = () => {
       const lastSeen = localStorage.getItem('lastSeenAppVersion');
       if (lastSeen !== CURRENT_APP_VERSION) {
@@ -227,9 +280,10 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
       subscriptions: JSON.parse(localStorage.getItem('subscribedChannels') || '[]'),
       history: JSON.parse(localStorage.getItem('videoHistory') || '[]'),
       playlists: JSON.parse(localStorage.getItem('playlists') || '[]'),
+      watchProgress: JSON.parse(localStorage.getItem('watchProgress') || '{}'),
       preferences: { 
-          ngKeywords, ngChannels, hiddenVideos, isShortsAutoplayEnabled, 
-          isLiteMode, defaultPlayerMode 
+          ngKeywords, ngChannels, hiddenVideos, isShortsAutoplayEnabled, isAutoplayNextEnabled,
+          isLiteMode, defaultPlayerMode, streamQuality, playbackRate
       }
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -252,6 +306,7 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
           localStorage.setItem('subscribedChannels', JSON.stringify(json.subscriptions));
           localStorage.setItem('videoHistory', JSON.stringify(json.history));
           localStorage.setItem('playlists', JSON.stringify(json.playlists || []));
+          localStorage.setItem('watchProgress', JSON.stringify(json.watchProgress || {}));
           
           if (json.preferences) {
             const p = json.preferences;
@@ -262,8 +317,11 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
                 : [];
             localStorage.setItem('hiddenVideos', JSON.stringify(hidden));
             localStorage.setItem('isShortsAutoplayEnabled', String(p.isShortsAutoplayEnabled ?? true));
+            localStorage.setItem('isAutoplayNextEnabled', String(p.isAutoplayNextEnabled ?? true));
             if(p.isLiteMode !== undefined) localStorage.setItem('isLiteMode', String(p.isLiteMode));
             if(p.defaultPlayerMode) localStorage.setItem('defaultPlayerMode', p.defaultPlayerMode);
+            if(p.streamQuality) localStorage.setItem('streamQuality', p.streamQuality);
+            if(p.playbackRate) localStorage.setItem('playbackRate', String(p.playbackRate));
           }
 
           window.location.reload();
@@ -279,13 +337,15 @@ export const PreferenceProvider: React.FC<{ children: ReactNode }> = ({ children
 
   return (
     <PreferenceContext.Provider value={{
-      ngKeywords, ngChannels, hiddenVideos, negativeKeywords, isShortsAutoplayEnabled,
+      ngKeywords, ngChannels, hiddenVideos, negativeKeywords, isShortsAutoplayEnabled, isAutoplayNextEnabled,
       isLiteMode, toggleLiteMode,
       defaultPlayerMode, setDefaultPlayerMode,
+      streamQuality, setStreamQuality,
+      playbackRate, setPlaybackRate,
       checkAppVersion,
       addNgKeyword, removeNgKeyword, addNgChannel, removeNgChannel, isNgChannel,
       addHiddenVideo, unhideVideo, isvideoHidden, removeNegativeProfileForVideos,
-      toggleShortsAutoplay, exportUserData, importUserData
+      toggleShortsAutoplay, toggleAutoplayNext, exportUserData, importUserData
     }}>
       {children}
     </PreferenceContext.Provider>
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Comment, CommentSort } from '../types';
+import { getComments, isAbortError } from '../utils/api';
+
+// 動画ページのコメント一覧。並び順を変えると1ページ目から取り直し、続きは継続トークンで追加する。
+export const useComments = (videoId: string | undefined) => {
+    const [sort, setSort] = useState<CommentSort>('top');
+    const [comments, setComments] = useState<Comment[]>([]);
+    const [totalCount, setTotalCount] = useState<string | undefined>(undefined);
+    const [nextPageToken, setNextPageToken] = useState<string | undefined>(undefined);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        if (!videoId) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setComments([]);
+        setTotalCount(undefined);
+        setNextPageToken(undefined);
+        setIsLoadingMore(false);
+        setIsLoading(true);
+
+        getComments(videoId, '1', sort, controller.signal)
+            .then(page => {
+                setComments(page.comments);
+                setTotalCount(page.totalCount);
+                setNextPageToken(page.nextPageToken);
+            })
+            .catch(err => {
+                if (isAbortError(err)) return;
+                console.warn("Failed to fetch comments", err);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoading(false);
+            });
+
+        return () => controller.abort();
+    }, [videoId, sort]);
+
+    const loadMore = useCallback(() => {
+        if (!videoId || !nextPageToken || isLoadingMore) return;
+        const signal = abortControllerRef.current?.signal;
+        setIsLoadingMore(true);
+        getComments(videoId, nextPageToken, sort, signal)
+            .then(page => {
+                setComments(prev => {
+                    const seen = new Set(prev.map(c => c.comment_id));
+                    return [...prev, ...page.comments.filter(c => !seen.has(c.comment_id))];
+                });
+                setNextPageToken(page.nextPageToken);
+            })
+            .catch(err => {
+                if (isAbortError(err)) return;
+                console.warn("Failed to fetch more comments", err);
+                // 続きが取れなかった場合は無限スクロールを止める
+                setNextPageToken(undefined);
+            })
+            .finally(() => {
+                if (!signal?.aborted) setIsLoadingMore(false);
+            });
+    }, [videoId, nextPageToken, isLoadingMore, sort]);
+
+    return {
+        comments,
+        totalCount,
+        sort,
+        setSort,
+        hasMore: !!nextPageToken,
+        isLoading,
+        isLoadingMore,
+        loadMore,
+    };
+};
+
+export type CommentsState = ReturnType<typeof useComments>;
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import type { Video, VideoDetails } from '../types';
+import type { PlaybackController } from '../utils/playback';
+
+// --- MEDIA SESSION ---
+// ロック画面・通知・ハードウェアのメディアキーから Stream モードのプレイヤーを操作できるようにする。
+// 前後の曲は VideoPlayerPage 側のプレイリスト (シャッフル・ループ) / 関連動画のロジックに任せる。
+
+const DEFAULT_SEEK_OFFSET_SECONDS = 10;
+
+interface MediaSessionOptions {
+    controller: PlaybackController | null;
+    // ミニプレイヤーからは一覧の Video を渡す
+    details: Video | VideoDetails | null;
+    onPreviousTrack: () => void;
+    onNextTrack: () => void;
+}
+
+const buildArtwork = (details: Video): MediaImage[] => {
+    const artwork: MediaImage[] = [
+        { src: `https://i.ytimg.com/vi/${details.id}/hqdefault.jpg`, sizes: '480x360', type: 'image/jpeg' },
+        { src: `https://i.ytimg.com/vi/${details.id}/maxresdefault.jpg`, sizes: '1280x720', type: 'image/jpeg' },
+    ];
+    return details.thumbnailUrl ? [{ src: details.thumbnailUrl }, ...artwork] : artwork;
+};
+
+// 対応していない操作を登録すると例外を投げるブラウザがある
+const setActionHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+    try {
+        navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+        // 未対応の操作は無視する
+    }
+};
+
+export const useMediaSession = ({ controller, details, onPreviousTrack, onNextTrack }: MediaSessionOptions) => {
+    // ハンドラは毎回登録し直さず、最新のコールバックを参照する
+    const trackHandlersRef = useRef({ onPreviousTrack, onNextTrack });
+    trackHandlersRef.current = { onPreviousTrack, onNextTrack };
+
+    useEffect(() => {
+        if (!('mediaSession' in navigator) || !details) return;
+        navigator.mediaSession.metadata = new MediaMetadata({
+            title: details.title,
+            artist: ('channel' in details && details.channel?.name) || details.channelName,
+            artwork: buildArtwork(details),
+        });
+        return () => {
+            navigator.mediaSession.metadata = null;
+        };
+    }, [details]);
+
+    useEffect(() => {
+        if (!('mediaSession' in navigator) || !controller) return;
+        const session = navigator.mediaSession;
+
+        setActionHandler('play', () => controller.play());
+        setActionHandler('pause', () => controller.pause());
+        setActionHandler('seekbackward', action => controller.seekBy(-(action.seekOffset ?? DEFAULT_SEEK_OFFSET_SECONDS)));
+        setActionHandler('seekforward', action => controller.seekBy(action.seekOffset ?? DEFAULT_SEEK_OFFSET_SECONDS));
+        setActionHandler('seekto', action => {
+            if (typeof action.seekTime !== 'number') return;
+            // seekTo は再生も始めるので、一時停止中なら止めたままにする
+            const wasPaused = controller.getState().paused;
+            controller.seekTo(action.seekTime);
+            if (wasPaused) controller.pause();
+        });
+        setActionHandler('previoustrack', () => trackHandlersRef.current.onPreviousTrack());
+        setActionHandler('nexttrack', () => trackHandlersRef.current.onNextTrack());
+
+        const syncState = () => {
+            const state = controller.getState();
+            session.playbackState = state.paused ? 'paused' : 'playing';
+            if (state.duration > 0 && 'setPositionState' in session) {
+                try {
+                    session.setPositionState({
+                        duration: state.duration,
+                        playbackRate: state.playbackRate || 1,
+                        position: Math.min(state.currentTime, state.duration),
+                    });
+                } catch {
+                    // 読み込み途中の不正な値は次の更新で直る
+                }
+            }
+        };
+        syncState();
+        const unsubscribe = controller.subscribe(syncState);
+
+        return () => {
+            unsubscribe();
+            (['play', 'pause', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack'] as MediaSessionAction[])
+                .forEach(action => setActionHandler(action, null));
+            session.playbackState = 'none';
+        };
+    }, [controller]);
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback, useRef, type RefObject } from 'react';
+import type { PlayerMode } from '../contexts/PreferenceContext';
+import { createIframePlaybackController, createMediaPlaybackController, type PlaybackController, type PlaybackState, type SeekOptions } from '../utils/playback';
+
+// --- PLAYBACK CONTROLLER HOOK ---
+// 現在のプレイヤー (iframe / Stream モードの <video> / 音声のみモードの <audio>) に PlaybackController を付け、
+// 再生状態を React の state として返す。プレイヤーが作り直されたら付け直す。
+
+export const usePlaybackController = (
+    mode: PlayerMode,
+    iframeRef: RefObject<HTMLIFrameElement>,
+    mediaRef: RefObject<HTMLMediaElement>,
+    // 同じ要素のまま再生元が変わったときに付け直すためのキー (src など)
+    sourceKey: string | null,
+    // 保存された再生速度。プレイヤーが変わるたびに適用する
+    playbackRate: number
+) => {
+    const [controller, setController] = useState<PlaybackController | null>(null);
+    const [state, setState] = useState<PlaybackState | null>(null);
+    const controllerRef = useRef<PlaybackController | null>(null);
+    // ref に要素が入っても再レンダーは起きないので、描画のたびに実際の要素を確かめて state に写す。
+    // (ストリームの URL がスケルトン表示中に届いた場合など、キーが変わらないまま後から要素が付くことがある)
+    const [element, setElement] = useState<HTMLIFrameElement | HTMLMediaElement | null>(null);
+
+    useEffect(() => {
+        const current = mode === 'player' ? iframeRef.current : mediaRef.current;
+        if (current !== element) setElement(current);
+    });
+
+    useEffect(() => {
+        const next = !element ? null
+            : element instanceof HTMLIFrameElement ? createIframePlaybackController(element)
+            : createMediaPlaybackController(element);
+        controllerRef.current = next;
+        setController(next);
+        setState(next?.getState() ?? null);
+        if (!next) return;
+        const unsubscribe = next.subscribe(setState);
+        return () => {
+            unsubscribe();
+            next.destroy();
+        };
+    }, [element, sourceKey]);
+
+    useEffect(() => {
+        controller?.setPlaybackRate(playbackRate);
+    }, [controller, playbackRate]);
+
+    // 文字起こし・チャプターなどから渡す用に参照を固定しておく
+    const seekTo = useCallback((seconds: number, options?: SeekOptions) => controllerRef.current?.seekTo(seconds, options), []);
+
+    return {
+        controller,
+        currentTime: state?.currentTime ?? 0,
+        duration: state?.duration ?? 0,
+        paused: state?.paused ?? true,
+        volume: state?.volume ?? 1,
+        muted: state?.muted ?? false,
+        seekTo,
+    };
+};
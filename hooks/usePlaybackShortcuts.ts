@@ -0,0 +1,109 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { PLAYBACK_RATES, type PlaybackController } from '../utils/playback';
+
+// --- KEYBOARD SHORTCUTS ---
+// YouTube と同じキー割り当てでプレイヤーを操作する。
+// 検索欄・コメント入力などにフォーカスがあるときや、修飾キー付きのときは何もしない。
+
+const SEEK_SHORT_SECONDS = 5;
+const SEEK_LONG_SECONDS = 10;
+const VOLUME_STEP = 0.05;
+
+const isEditableTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable) return true;
+    return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const stepPlaybackRate = (current: number, direction: 1 | -1): number => {
+    const index = PLAYBACK_RATES.findIndex(rate => rate >= current);
+    const base = index === -1 ? PLAYBACK_RATES.length - 1 : index;
+    // 一覧に無い速度のときは近い方向の値へ寄せる
+    const offset = PLAYBACK_RATES[base] === current ? direction : (direction === 1 ? 0 : -1);
+    return PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, base + offset))];
+};
+
+const toggleFullscreen = (element: HTMLElement | null) => {
+    if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+    } else {
+        element?.requestFullscreen?.().catch(() => {});
+    }
+};
+
+export const usePlaybackShortcuts = (
+    controller: PlaybackController | null,
+    containerRef: RefObject<HTMLElement>,
+    onPlaybackRateChange: (rate: number) => void
+) => {
+    const onRateChangeRef = useRef(onPlaybackRateChange);
+    onRateChangeRef.current = onPlaybackRateChange;
+
+    useEffect(() => {
+        if (!controller) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+            if (isEditableTarget(event.target)) return;
+
+            const state = controller.getState();
+            let handled = true;
+
+            switch (event.key) {
+                case 'k':
+                case 'K':
+                case ' ':
+                    controller.togglePlay();
+                    break;
+                case 'j':
+                case 'J':
+                    controller.seekBy(-SEEK_LONG_SECONDS);
+                    break;
+                case 'l':
+                case 'L':
+                    controller.seekBy(SEEK_LONG_SECONDS);
+                    break;
+                case 'ArrowLeft':
+                    controller.seekBy(-SEEK_SHORT_SECONDS);
+                    break;
+                case 'ArrowRight':
+                    controller.seekBy(SEEK_SHORT_SECONDS);
+                    break;
+                case 'ArrowUp':
+                    controller.setVolume(state.volume + VOLUME_STEP);
+                    break;
+                case 'ArrowDown':
+                    controller.setVolume(state.volume - VOLUME_STEP);
+                    break;
+                case 'f':
+                case 'F':
+                    toggleFullscreen(containerRef.current);
+                    break;
+                case 'm':
+                case 'M':
+                    controller.setMuted(!state.muted);
+                    break;
+                case '<':
+                case '>': {
+                    const rate = stepPlaybackRate(state.playbackRate, event.key === '>' ? 1 : -1);
+                    controller.setPlaybackRate(rate);
+                    onRateChangeRef.current(rate);
+                    break;
+                }
+                default:
+                    // 0〜9 で動画の 0%〜90% の位置へ
+                    if (/^[0-9]$/.test(event.key) && state.duration > 0) {
+                        controller.seekTo(state.duration * parseInt(event.key, 10) / 10);
+                    } else {
+                        handled = false;
+                    }
+            }
+
+            // スペース・矢印キーでページがスクロールしないようにする
+            if (handled) event.preventDefault();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [controller, containerRef]);
+};
@@ -0,0 +1,23 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+// --- RESUME ON LOAD ---
+// 要素は作り直さずに src だけ差し替えるプレイヤー (StreamingPlayer / AudioOnlyPlayer) 用。
+// 読み込みが終わってから再生位置と再生状態を戻す。startTime / autoPlay は src を切り替えた瞬間の値だけ使うので、
+// 変わっても読み込みはやり直さない。
+
+export const useResumeOnLoad = (mediaRef: RefObject<HTMLMediaElement>, src: string, startTime: number, autoPlay: boolean) => {
+    const resumeRef = useRef({ startTime, autoPlay });
+    resumeRef.current = { startTime, autoPlay };
+
+    useEffect(() => {
+        const media = mediaRef.current;
+        if (!media) return;
+        const handleLoadedMetadata = () => {
+            const { startTime, autoPlay } = resumeRef.current;
+            if (startTime > 0) media.currentTime = startTime;
+            if (autoPlay) media.play().catch(e => console.warn("Autoplay prevented:", e));
+        };
+        media.addEventListener('loadedmetadata', handleLoadedMetadata, { once: true });
+        return () => media.removeEventListener('loadedmetadata', handleLoadedMetadata);
+    }, [src, mediaRef]);
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CacheNamespace } from '../utils/cache';
+import { subscribeToRevalidation, getLastUpdated } from '../utils/revalidation';
+
+// キャッシュの裏取りが完了したら onRevalidate を呼び、最終更新時刻を返す。
+// id を null にすると名前空間内のすべての更新を受け取る（プレイリストの動画一覧など）。
+export const useRevalidation = <T,>(
+    namespace: CacheNamespace,
+    id: string | null | undefined,
+    onRevalidate?: (data: T, id: string) => void
+): number | null => {
+    const [updatedAt, setUpdatedAt] = useState<number | null>(() => id ? getLastUpdated(namespace, id) : null);
+    const callbackRef = useRef(onRevalidate);
+    callbackRef.current = onRevalidate;
+
+    useEffect(() => {
+        setUpdatedAt(id ? getLastUpdated(namespace, id) : null);
+        return subscribeToRevalidation(event => {
+            if (event.namespace !== namespace) return;
+            if (id && event.id !== id) return;
+            if (id) setUpdatedAt(event.updatedAt);
+            if (event.reason === 'revalidated') callbackRef.current?.(event.data as T, event.id);
+        });
+    }, [namespace, id]);
+
+    return updatedAt;
+};
@@ -0,0 +1,159 @@
+import { useState, useEffect, useMemo, useCallback, type KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Channel } from '../types';
+import { getSearchSuggestions, isAbortError } from '../utils/api';
+import { useSearchHistory } from '../contexts/SearchHistoryContext';
+import { useSubscription } from '../contexts/SubscriptionContext';
+
+// --- SEARCH AUTOCOMPLETE ---
+// 検索履歴・登録チャンネル・サーバーの検索候補 (/api/suggest) をまとめて1つの候補リストにする。
+// Header とモバイルの検索画面で同じ挙動になるよう、キーボード操作もここで扱う。
+
+export type SearchSuggestionItem =
+    | { kind: 'history'; text: string }
+    | { kind: 'channel'; channel: Channel }
+    | { kind: 'suggestion'; text: string };
+
+const DEBOUNCE_MS = 200;
+const MAX_HISTORY_ITEMS = 5;
+const MAX_EMPTY_QUERY_HISTORY_ITEMS = 10;
+const MAX_CHANNEL_ITEMS = 3;
+const MAX_SUGGESTION_ITEMS = 10;
+
+export const getSuggestionText = (item: SearchSuggestionItem) => item.kind === 'channel' ? item.channel.name : item.text;
+
+export const useSearchAutocomplete = (query: string, setQuery: (value: string) => void) => {
+    const navigate = useNavigate();
+    const { searchHistory, addSearchTerm, removeSearchTerms } = useSearchHistory();
+    const { subscribedChannels } = useSubscription();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const [serverSuggestions, setServerSuggestions] = useState<string[]>([]);
+
+    const trimmed = query.trim();
+    const prefix = trimmed.toLowerCase();
+
+    // 入力が止まってからサーバーに問い合わせる。古いリクエストは中断する
+    useEffect(() => {
+        if (!isOpen || !trimmed) {
+            setServerSuggestions([]);
+            return;
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            getSearchSuggestions(trimmed, controller.signal)
+                .then(setServerSuggestions)
+                .catch(error => {
+                    if (!isAbortError(error)) setServerSuggestions([]);
+                });
+        }, DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [trimmed, isOpen]);
+
+    const items = useMemo<SearchSuggestionItem[]>(() => {
+        if (!prefix) {
+            return searchHistory.slice(0, MAX_EMPTY_QUERY_HISTORY_ITEMS).map(text => ({ kind: 'history', text }));
+        }
+        const history = searchHistory
+            .filter(term => term.toLowerCase().startsWith(prefix))
+            .slice(0, MAX_HISTORY_ITEMS);
+        const channels = subscribedChannels
+            .filter(channel => channel.name?.toLowerCase().includes(prefix))
+            .slice(0, MAX_CHANNEL_ITEMS);
+        const seen = new Set(history.map(term => term.toLowerCase()));
+        const suggestions = serverSuggestions
+            .filter(text => !seen.has(text.toLowerCase()))
+            .slice(0, MAX_SUGGESTION_ITEMS);
+        return [
+            ...history.map((text): SearchSuggestionItem => ({ kind: 'history', text })),
+            ...channels.map((channel): SearchSuggestionItem => ({ kind: 'channel', channel })),
+            ...suggestions.map((text): SearchSuggestionItem => ({ kind: 'suggestion', text })),
+        ];
+    }, [prefix, searchHistory, subscribedChannels, serverSuggestions]);
+
+    // 入力が変わったら選択位置はリセットし、履歴の削除などで候補が減ったときは範囲内に収める
+    useEffect(() => {
+        setActiveIndex(-1);
+    }, [prefix]);
+    useEffect(() => {
+        setActiveIndex(prev => Math.min(prev, items.length - 1));
+    }, [items]);
+
+    const open = useCallback(() => setIsOpen(true), []);
+    const close = useCallback(() => {
+        setIsOpen(false);
+        setActiveIndex(-1);
+    }, []);
+
+    const submitSearch = useCallback((term: string) => {
+        const value = term.trim();
+        if (!value) return;
+        addSearchTerm(value);
+        setQuery(value);
+        close();
+        navigate(`/results?search_query=${encodeURIComponent(value)}`);
+    }, [addSearchTerm, setQuery, close, navigate]);
+
+    const select = useCallback((item: SearchSuggestionItem) => {
+        if (item.kind === 'channel') {
+            close();
+            navigate(`/channel/${item.channel.id}`);
+            return;
+        }
+        submitSearch(item.text);
+    }, [close, navigate, submitSearch]);
+
+    const removeHistoryItem = useCallback((text: string) => {
+        removeSearchTerms([text]);
+    }, [removeSearchTerms]);
+
+    const handleKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            close();
+            return;
+        }
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (!isOpen) {
+                setIsOpen(true);
+                return;
+            }
+            if (items.length === 0) return;
+            // -1 は入力欄そのもの。上下で候補と入力欄を循環する
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex(prev => {
+                const next = prev + step;
+                if (next >= items.length) return -1;
+                if (next < -1) return items.length - 1;
+                return next;
+            });
+            return;
+        }
+        const activeItem = isOpen ? items[activeIndex] : undefined;
+        if (!activeItem) return;
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            select(activeItem);
+        } else if (e.key === 'Delete' && activeItem.kind === 'history') {
+            e.preventDefault();
+            removeHistoryItem(activeItem.text);
+        }
+    }, [isOpen, items, activeIndex, close, select, removeHistoryItem]);
+
+    return {
+        items,
+        isOpen: isOpen && items.length > 0,
+        activeIndex,
+        setActiveIndex,
+        open,
+        close,
+        select,
+        submitSearch,
+        removeHistoryItem,
+        handleKeyDown,
+    };
+};
@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+    getSkipSegments,
+    getLocalSegments,
+    getSegmentSettings,
+    subscribeToSegmentSettings,
+    subscribeToLocalSegments,
+    type SegmentSettings,
+    type SkipSegment,
+} from '../utils/segments';
+import type { SeekOptions } from '../utils/playback';
+
+// --- SKIP SEGMENTS ---
+// 再生位置を見て「自動スキップ」の区間に入ったら終端へ飛ばし、「表示のみ」の区間では
+// スキップボタンを出せるように現在の区間を返す。シークは usePlaybackController の seekTo を使うので
+// iframe プレイヤーと Stream モードの <video> の両方で動く。
+
+// 区間の終端ぎりぎりで入った場合はスキップしない (終端へのシーク直後の再判定も防ぐ)
+const END_MARGIN_SECONDS = 0.5;
+// これより前に巻き戻したら、同じ区間をもう一度スキップする
+const REARM_MARGIN_SECONDS = 1;
+const NOTICE_DURATION_MS = 5000;
+
+export interface SkipNotice {
+    segment: SkipSegment;
+    // 取り消したときに戻る位置
+    skippedFrom: number;
+}
+
+const isInside = (segment: SkipSegment, time: number) => segment.start <= time && time < segment.end - END_MARGIN_SECONDS;
+
+export const useSkipSegments = (videoId: string | undefined, currentTime: number, seekTo: (seconds: number, options?: SeekOptions) => void) => {
+    const [segments, setSegments] = useState<SkipSegment[]>([]);
+    const [settings, setSettings] = useState<SegmentSettings>(getSegmentSettings);
+    const [notice, setNotice] = useState<SkipNotice | null>(null);
+    const skippedIdsRef = useRef(new Set<string>());
+    // 「元に戻す」を押した区間はこの動画を見ている間は自動スキップしない
+    const ignoredIdsRef = useRef(new Set<string>());
+
+    useEffect(() => subscribeToSegmentSettings(setSettings), []);
+
+    useEffect(() => {
+        skippedIdsRef.current.clear();
+        ignoredIdsRef.current.clear();
+        setNotice(null);
+        setSegments([]);
+        if (!videoId) return;
+
+        const controller = new AbortController();
+        getSkipSegments(videoId, controller.signal)
+            .then(setSegments)
+            .catch(() => {});
+        return () => controller.abort();
+    }, [videoId, settings]);
+
+    // ローカルの区間を編集したときはサーバーに問い合わせ直さず、ローカル分だけ差し替える
+    useEffect(() => {
+        if (!videoId) return;
+        return subscribeToLocalSegments(changedVideoId => {
+            if (changedVideoId !== videoId) return;
+            setSegments(prev => [
+                ...prev.filter(segment => segment.source !== 'local'),
+                ...getLocalSegments(videoId).filter(segment => getSegmentSettings().actions[segment.category] !== 'off'),
+            ].sort((a, b) => a.start - b.start));
+        });
+    }, [videoId]);
+
+    const visibleSegments = useMemo(
+        () => segments.filter(segment => settings.actions[segment.category] !== 'off'),
+        [segments, settings]
+    );
+
+    useEffect(() => {
+        for (const segment of visibleSegments) {
+            if (currentTime < segment.start - REARM_MARGIN_SECONDS) skippedIdsRef.current.delete(segment.id);
+        }
+        const target = visibleSegments.find(segment =>
+            settings.actions[segment.category] === 'skip'
+            && isInside(segment, currentTime)
+            && !skippedIdsRef.current.has(segment.id)
+            && !ignoredIdsRef.current.has(segment.id)
+        );
+        if (!target) return;
+        skippedIdsRef.current.add(target.id);
+        setNotice({ segment: target, skippedFrom: currentTime });
+        // 一時停止中にシークバーで区間に入った場合は止めたまま飛ばす
+        seekTo(target.end, { play: false });
+    }, [currentTime, visibleSegments, settings, seekTo]);
+
+    useEffect(() => {
+        if (!notice) return;
+        const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [notice]);
+
+    const undoSkip = useCallback(() => {
+        if (!notice) return;
+        ignoredIdsRef.current.add(notice.segment.id);
+        seekTo(notice.skippedFrom, { play: false });
+        setNotice(null);
+    }, [notice, seekTo]);
+
+    // 「表示のみ」の区間、または取り消した区間にいるときは手動スキップ用に返す
+    const manualSkipSegment = visibleSegments.find(segment =>
+        isInside(segment, currentTime)
+        && (settings.actions[segment.category] === 'mark' || ignoredIdsRef.current.has(segment.id))
+    ) ?? null;
+
+    const skipSegment = useCallback((segment: SkipSegment) => seekTo(segment.end), [seekTo]);
+
+    return { segments: visibleSegments, notice, undoSkip, manualSkipSegment, skipSegment };
+};
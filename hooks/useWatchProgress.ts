@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { useHistory } from '../contexts/HistoryContext';
+import type { PlaybackController, PlaybackState } from '../utils/playback';
+
+// --- WATCH PROGRESS REPORTER ---
+// 再生中は一定間隔で、一時停止・終了・動画の切り替え時にはすぐ、視聴位置を HistoryContext に記録する。
+
+const REPORT_INTERVAL_MS = 5000;
+
+export const useWatchProgressReporter = (videoId: string | undefined, controller: PlaybackController | null) => {
+    const { updateWatchProgress } = useHistory();
+
+    useEffect(() => {
+        if (!videoId || !controller) return;
+        let lastReportedAt = 0;
+
+        const report = (state: PlaybackState) => {
+            if (state.duration <= 0 || state.currentTime <= 0) return;
+            lastReportedAt = Date.now();
+            updateWatchProgress(videoId, state.currentTime, state.duration);
+        };
+
+        const unsubscribe = controller.subscribe(state => {
+            if (state.paused || Date.now() - lastReportedAt >= REPORT_INTERVAL_MS) report(state);
+        });
+        const unsubscribeEnded = controller.onEnded(() => {
+            const state = controller.getState();
+            report({ ...state, currentTime: state.duration });
+        });
+
+        return () => {
+            unsubscribe();
+            unsubscribeEnded();
+            report(controller.getState());
+        };
+    }, [videoId, controller, updateWatchProgress]);
+};
@@ -1,9 +1,9 @@
 
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
-import { useParams, Link } from 'react-router-dom';
-import { getChannelDetails, getChannelVideos, getChannelHome, mapHomeVideoToVideo, getChannelShorts, getPlayerConfig } from '../utils/api';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { getChannelDetails, resolveChannelHandle, getChannelVideos, getChannelHome, mapHomeVideoToVideo, getChannelShorts, getPlayerConfig, isAbortError } from '../utils/api';
 import type { ChannelDetails, Video, Channel, ChannelHomeData } from '../types';
 import VideoGrid from '../components/VideoGrid';
 import VideoCard from '../components/VideoCard';
@@ -12,12 +12,15 @@ import { useSubscription } from '../contexts/SubscriptionContext';
 import { usePreference } from '../contexts/PreferenceContext';
 import HorizontalScrollContainer from '../components/HorizontalScrollContainer';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { useRevalidation } from '../hooks/useRevalidation';
+import { formatLastUpdated } from '../utils/revalidation';
 import { BlockIcon } from '../components/icons/Icons';
 
 type Tab = 'home' | 'videos' | 'shorts';
 
 const ChannelPage: React.FC = () => {
     const { channelId } = useParams<{ channelId: string }>();
+    const navigate = useNavigate();
     const [channelDetails, setChannelDetails] = useState<ChannelDetails | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -27,6 +30,14 @@ const ChannelPage: React.FC = () => {
     const [videos, setVideos] = useState<Video[]>([]);
     const [shorts, setShorts] = useState<Video[]>([]);
     const [playerParams, setPlayerParams] = useState<string | null>(null);
+
+    // キャッシュ表示後に裏で取得した最新データへ差し替える
+    const detailsUpdatedAt = useRevalidation<ChannelDetails>('channel-details', channelId, freshDetails => {
+        setChannelDetails(freshDetails);
+    });
+    useRevalidation<ChannelHomeData>('channel-home', channelId, freshHome => {
+        setHomeData(freshHome);
+    });
     
     const [videosPageToken, setVideosPageToken] = useState<string | undefined>('1');
     const [isFetchingMore, setIsFetchingMore] = useState(false);
@@ -36,6 +47,7 @@ const ChannelPage: React.FC = () => {
     const { addNgChannel, removeNgChannel, isNgChannel } = usePreference();
 
     useEffect(() => {
+        const controller = new AbortController();
         const loadInitialDetails = async () => {
             if (!channelId) return;
             setIsLoading(true);
@@ -47,22 +59,40 @@ const ChannelPage: React.FC = () => {
             setActiveTab('home');
             
             try {
-                const details = await getChannelDetails(channelId);
+                // @メンションから来た場合はチャンネルIDに解決してから URL を置き換える
+                if (channelId.startsWith('@')) {
+                    const resolvedId = await resolveChannelHandle(channelId, controller.signal);
+                    navigate(`/channel/${resolvedId}`, { replace: true });
+                    return;
+                }
+                const details = await getChannelDetails(channelId, controller.signal);
                 setChannelDetails(details);
-                const params = await getPlayerConfig();
+                const params = await getPlayerConfig(controller.signal);
                 setPlayerParams(params);
             } catch (err: any) {
+                if (isAbortError(err)) return;
                 setError(err.message || 'チャンネルデータの読み込みに失敗しました。');
                 console.error(err);
-            } finally {
-                setIsLoading(false);
             }
+            setIsLoading(false);
         };
         loadInitialDetails();
-    }, [channelId]);
+        return () => controller.abort();
+    }, [channelId, navigate]);
     
+    // タブの取得はチャンネルかタブが変わったら中断する (前のチャンネルの結果で上書きしない)
+    const tabControllerRef = useRef<AbortController | null>(null);
+    useEffect(() => {
+        const controller = new AbortController();
+        tabControllerRef.current = controller;
+        setIsTabLoading(false);
+        setIsFetchingMore(false);
+        return () => controller.abort();
+    }, [channelId, activeTab]);
+
     const fetchTabData = useCallback(async (tab: Tab, pageToken?: string) => {
         if (!channelId || (isFetchingMore && tab === 'videos')) return;
+        const signal = tabControllerRef.current?.signal;
         
         if (pageToken && pageToken !== '1') {
             setIsFetchingMore(true);
@@ -74,12 +104,14 @@ const ChannelPage: React.FC = () => {
             switch (tab) {
                 case 'home':
                     if (!homeData) {
-                         const hData = await getChannelHome(channelId);
+                         const hData = await getChannelHome(channelId, signal);
+                         if (signal?.aborted) return;
                          setHomeData(hData);
                     }
                     break;
                 case 'videos':
-                    const vData = await getChannelVideos(channelId, pageToken);
+                    const vData = await getChannelVideos(channelId, pageToken, signal);
+                    if (signal?.aborted) return;
                     const enrichedVideos = vData.videos.map(v => ({
                         ...v,
                         channelName: channelDetails?.name || v.channelName,
@@ -91,7 +123,8 @@ const ChannelPage: React.FC = () => {
                     break;
                 case 'shorts':
                     if (shorts.length === 0) {
-                        const sData = await getChannelShorts(channelId);
+                        const sData = await getChannelShorts(channelId, signal);
+                        if (signal?.aborted) return;
                         const enrichedShorts = sData.videos.map(v => ({
                             ...v,
                             channelName: channelDetails?.name || v.channelName,
@@ -103,23 +136,15 @@ const ChannelPage: React.FC = () => {
                     break;
             }
         } catch (err: any) {
+            if (isAbortError(err)) return;
             console.error(`Failed to load ${tab}`, err);
-            if(tab === 'home') {
-                const useProxy = localStorage.getItem('useChannelHomeProxy') !== 'false';
-                if (!useProxy) {
-                    if (window.confirm(`外部APIからのデータ取得に失敗しました。\nProxy経由に切り替えて再試行しますか？\n(設定メニューからも変更可能です)`)) {
-                        localStorage.setItem('useChannelHomeProxy', 'true');
-                        window.location.reload();
-                    }
-                } else {
-                    console.warn("Home tab fetch failed even with proxy.");
-                }
-            } else {
-                setError(`[${tab}] タブの読み込みに失敗しました。`);
-            }
+            setError(`[${tab}] タブの読み込みに失敗しました。`);
         } finally {
-            setIsTabLoading(false);
-            setIsFetchingMore(false);
+            // 中断された場合は次のタブの読み込み状態を消さない
+            if (!signal?.aborted) {
+                setIsTabLoading(false);
+                setIsFetchingMore(false);
+            }
         }
     }, [channelId, isFetchingMore, homeData, channelDetails, shorts.length]);
     
@@ -275,6 +300,7 @@ const ChannelPage: React.FC = () => {
                     <h1 className="text-2xl md:text-4xl font-bold mb-1 md:mb-2 tracking-tight">{channelDetails.name}</h1>
                     <div className="text-yt-light-gray text-sm md:text-base mb-3 flex flex-wrap justify-center md:justify-start gap-x-2">
                          <span>{channelDetails.handle}</span>
+                         {detailsUpdatedAt && <span className="text-xs self-center">最終更新: {formatLastUpdated(detailsUpdatedAt)}</span>}
                     </div>
                     <p className="text-yt-light-gray text-sm line-clamp-1 mb-4 max-w-2xl cursor-pointer mx-auto md:mx-0" onClick={() => alert(channelDetails.description)}>
                         {channelDetails.description}
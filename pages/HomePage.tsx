@@ -6,6 +6,7 @@ import { useSearchHistory } from '../contexts/SearchHistoryContext';
 import { useHistory } from '../contexts/HistoryContext';
 import { usePreference } from '../contexts/PreferenceContext';
 import { getXraiRecommendations } from '../utils/recommendation';
+import { isAbortError } from '../utils/api';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import type { Video } from '../types';
 import { SearchIcon, SaveIcon, DownloadIcon } from '../components/icons/Icons';
@@ -24,6 +25,8 @@ const HomePage: React.FC = () => {
     
     const seenIdsRef = useRef<Set<string>>(new Set());
     const feedLengthRef = useRef(0);
+    // 条件が変わったりページを離れたりしたら、取得中のおすすめを中断する
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const { subscribedChannels } = useSubscription();
     const { searchHistory } = useSearchHistory();
@@ -54,11 +57,12 @@ const HomePage: React.FC = () => {
         if (isInitial) setIsLoading(true);
         else setIsFetchingMore(true);
         
+        const signal = abortControllerRef.current?.signal;
         try {
             const { videos: newVideos, shorts: newShorts } = await getXraiRecommendations({
                 searchHistory, watchHistory, shortsHistory, subscribedChannels,
                 ngKeywords, ngChannels, hiddenVideos, negativeKeywords,
-                page: pageNum
+                page: pageNum, signal
             });
             
             if (newVideos.length === 0 && pageNum > 1) {
@@ -97,12 +101,13 @@ const HomePage: React.FC = () => {
             }
 
         } catch (err: any) {
+            if (isAbortError(err)) return;
             if (isInitial) setError(err.message || '動画の読み込みに失敗しました。');
             console.error(err);
-        } finally {
-            setIsLoading(false);
-            setIsFetchingMore(false);
         }
+        if (signal?.aborted) return;
+        setIsLoading(false);
+        setIsFetchingMore(false);
     }, [subscribedChannels, searchHistory, watchHistory, shortsHistory, ngKeywords, ngChannels, hiddenVideos, negativeKeywords]);
 
     useEffect(() => {
@@ -114,7 +119,10 @@ const HomePage: React.FC = () => {
         setHasNextPage(true);
         feedLengthRef.current = 0;
         
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         loadRecommendations(1);
+        return () => controller.abort();
     }, [loadRecommendations]);
     
     const loadMore = () => {
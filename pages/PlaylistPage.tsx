@@ -7,10 +7,11 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { usePlaylist } from '../contexts/PlaylistContext';
-import { getVideosByIds } from '../utils/api';
+import { getVideosByIds, isAbortError } from '../utils/api';
 import type { Video } from '../types';
 import { EditIcon, TrashIcon, PlayIcon, ShuffleIcon, RepeatIcon, DragHandleIcon, MoreIconHorizontal, CheckIcon } from '../components/icons/Icons';
 import { useTheme } from '../hooks/useTheme';
+import { useRevalidation } from '../hooks/useRevalidation';
 
 const PlaylistPage: React.FC = () => {
     const { playlistId } = useParams<{ playlistId: string }>();
@@ -25,6 +26,11 @@ const PlaylistPage: React.FC = () => {
     const [isEditingName, setIsEditingName] = useState(false);
     const [playlistName, setPlaylistName] = useState(playlist?.name || '');
 
+    // 古いキャッシュから表示した動画は、裏で取得した最新情報に差し替える
+    useRevalidation<Video>('video-summary', null, (freshVideo, id) => {
+        setVideos(prev => prev.some(v => v.id === id) ? prev.map(v => v.id === id ? freshVideo : v) : prev);
+    });
+
     const dragItem = useRef<number | null>(null);
     const dragOverItem = useRef<number | null>(null);
 
@@ -34,19 +40,26 @@ const PlaylistPage: React.FC = () => {
         }
         setPlaylistName(playlist.name);
         
+        const controller = new AbortController();
         const fetchVideos = async () => {
             setIsLoading(true);
             if (playlist.videoIds.length > 0) {
-                const fetchedVideos = await getVideosByIds(playlist.videoIds);
-                const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
-                // Preserve order of IDs
-                setVideos(playlist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v));
+                try {
+                    const fetchedVideos = await getVideosByIds(playlist.videoIds, controller.signal);
+                    const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
+                    // Preserve order of IDs
+                    setVideos(playlist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v));
+                } catch (err) {
+                    if (isAbortError(err)) return;
+                    console.error("Failed to fetch playlist videos", err);
+                }
             } else {
                 setVideos([]);
             }
             setIsLoading(false);
         };
         fetchVideos();
+        return () => controller.abort();
     }, [playlist]);
 
     if (!playlist) {
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { ALL_PROVIDERS, PROVIDER_LABELS, getProviderSettings, saveProviderSettings, type ProviderId, type ProviderSettings } from '../utils/providers';
+import { cache } from '../utils/cache';
+import {
+    ALL_SEGMENT_CATEGORIES,
+    SEGMENT_ACTION_LABELS,
+    SEGMENT_CATEGORY_LABELS,
+    getSegmentSettings,
+    saveSegmentSettings,
+    type SegmentAction,
+    type SegmentCategory,
+    type SegmentSettings,
+} from '../utils/segments';
+
+const PROVIDER_DESCRIPTIONS: Record<ProviderId, string> = {
+    server: 'このサイトのサーバー経由で YouTube から直接取得します。',
+    invidious: 'Invidious インスタンスの API を使います。サーバーがブロックされている環境向け。',
+    piped: 'Piped インスタンスの API を使います。ストリームはインスタンスのプロキシ経由になります。',
+};
+
+const ProviderSettingsPage: React.FC = () => {
+    const [settings, setSettings] = useState<ProviderSettings>(getProviderSettings);
+    const [segmentSettings, setSegmentSettings] = useState<SegmentSettings>(getSegmentSettings);
+    const [isSaved, setIsSaved] = useState(false);
+
+    const update = (next: ProviderSettings) => {
+        setSettings(next);
+        setIsSaved(false);
+    };
+
+    const updateSegments = (next: SegmentSettings) => {
+        setSegmentSettings(next);
+        setIsSaved(false);
+    };
+
+    const setSegmentAction = (category: SegmentCategory, action: SegmentAction) => {
+        updateSegments({ ...segmentSettings, actions: { ...segmentSettings.actions, [category]: action } });
+    };
+
+    const toggleProvider = (id: ProviderId) => {
+        const enabled = settings.order.includes(id);
+        // 最低1つは有効にしておく
+        if (enabled && settings.order.length === 1) return;
+        update({ ...settings, order: enabled ? settings.order.filter(p => p !== id) : [...settings.order, id] });
+    };
+
+    const moveProvider = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= settings.order.length) return;
+        const order = [...settings.order];
+        [order[index], order[target]] = [order[target], order[index]];
+        update({ ...settings, order });
+    };
+
+    const handleSave = async () => {
+        saveProviderSettings(settings);
+        saveSegmentSettings(segmentSettings);
+        setSegmentSettings(getSegmentSettings());
+        // 取得元が変わると正規化結果も変わるため、古いレスポンスキャッシュは捨てる
+        await cache.clear();
+        setSettings(getProviderSettings());
+        setIsSaved(true);
+    };
+
+    const disabledProviders = ALL_PROVIDERS.filter(id => !settings.order.includes(id));
+
+    return (
+        <div className="max-w-4xl mx-auto p-4 md:p-6 text-black dark:text-white">
+            <h1 className="text-2xl md:text-3xl font-bold mb-2">データ取得元</h1>
+            <p className="text-sm text-yt-light-gray mb-6">上から順番に試し、失敗した場合は次の取得元に切り替えます。</p>
+
+            <div className="mb-10">
+                <h2 className="text-xl font-semibold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-2 mb-4">優先順位</h2>
+                <div className="space-y-3">
+                    {settings.order.map((id, index) => (
+                        <div key={id} className="flex items-center justify-between p-3 bg-yt-light dark:bg-yt-dark-gray rounded-lg">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium">
+                                    {index + 1}. {PROVIDER_LABELS[id]}
+                                    {index === 0 && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-yt-blue text-white">メイン</span>}
+                                </p>
+                                <p className="text-sm text-yt-light-gray truncate">{PROVIDER_DESCRIPTIONS[id]}</p>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <button onClick={() => moveProvider(index, -1)} disabled={index === 0} className="px-2 py-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-30" title="上へ">▲</button>
+                                <button onClick={() => moveProvider(index, 1)} disabled={index === settings.order.length - 1} className="px-2 py-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-30" title="下へ">▼</button>
+                                <button onClick={() => toggleProvider(id)} disabled={settings.order.length === 1} className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-full transition-colors disabled:opacity-30">
+                                    無効化
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    {disabledProviders.map(id => (
+                        <div key={id} className="flex items-center justify-between p-3 border border-dashed border-yt-spec-light-20 dark:border-yt-spec-20 rounded-lg opacity-70">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium">{PROVIDER_LABELS[id]}</p>
+                                <p className="text-sm text-yt-light-gray truncate">{PROVIDER_DESCRIPTIONS[id]}</p>
+                            </div>
+                            <button onClick={() => toggleProvider(id)} className="px-3 py-1.5 text-sm text-yt-blue hover:bg-yt-blue/10 rounded-full transition-colors">
+                                追加
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="mb-10">
+                <h2 className="text-xl font-semibold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-2 mb-4">インスタンス</h2>
+                <label className="block mb-4">
+                    <span className="text-sm font-medium">Invidious インスタンスURL</span>
+                    <input
+                        type="url"
+                        value={settings.invidiousInstance}
+                        onChange={e => update({ ...settings, invidiousInstance: e.target.value })}
+                        className="mt-1 w-full px-3 py-2 rounded-lg bg-yt-light dark:bg-yt-dark-gray outline-none focus:ring-2 focus:ring-yt-blue"
+                    />
+                </label>
+                <label className="block">
+                    <span className="text-sm font-medium">Piped API インスタンスURL</span>
+                    <input
+                        type="url"
+                        value={settings.pipedInstance}
+                        onChange={e => update({ ...settings, pipedInstance: e.target.value })}
+                        className="mt-1 w-full px-3 py-2 rounded-lg bg-yt-light dark:bg-yt-dark-gray outline-none focus:ring-2 focus:ring-yt-blue"
+                    />
+                </label>
+            </div>
+
+            <div className="mb-10">
+                <h2 className="text-xl font-semibold border-b border-yt-spec-light-20 dark:border-yt-spec-20 pb-2 mb-4">スキップ区間 (SponsorBlock)</h2>
+                <label className="flex items-center gap-3 mb-4 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={segmentSettings.useServer}
+                        onChange={e => updateSegments({ ...segmentSettings, useServer: e.target.checked })}
+                        className="w-4 h-4 accent-yt-blue"
+                    />
+                    <span className="text-sm font-medium">SponsorBlock 互換サーバーから区間を取得する</span>
+                </label>
+                <label className="block mb-4">
+                    <span className="text-sm font-medium">サーバーURL</span>
+                    <input
+                        type="url"
+                        value={segmentSettings.serverUrl}
+                        disabled={!segmentSettings.useServer}
+                        onChange={e => updateSegments({ ...segmentSettings, serverUrl: e.target.value })}
+                        className="mt-1 w-full px-3 py-2 rounded-lg bg-yt-light dark:bg-yt-dark-gray outline-none focus:ring-2 focus:ring-yt-blue disabled:opacity-50"
+                    />
+                    <span className="block mt-1 text-xs text-yt-light-gray">自前のミラーやローカルのサーバーも指定できます。オフにしても、動画ページで追加したローカルの区間は使われます。</span>
+                </label>
+                <div className="space-y-2">
+                    {ALL_SEGMENT_CATEGORIES.map(category => (
+                        <div key={category} className="flex items-center justify-between p-3 bg-yt-light dark:bg-yt-dark-gray rounded-lg">
+                            <span className="font-medium">{SEGMENT_CATEGORY_LABELS[category]}</span>
+                            <select
+                                value={segmentSettings.actions[category]}
+                                onChange={e => setSegmentAction(category, e.target.value as SegmentAction)}
+                                className="text-sm px-2 py-1.5 rounded-lg bg-yt-white dark:bg-yt-black outline-none"
+                            >
+                                {(Object.keys(SEGMENT_ACTION_LABELS) as SegmentAction[]).map(action => (
+                                    <option key={action} value={action}>{SEGMENT_ACTION_LABELS[action]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+                <button onClick={handleSave} className="px-6 py-2 rounded-full bg-black dark:bg-white text-white dark:text-black font-semibold hover:opacity-90">
+                    保存
+                </button>
+                {isSaved && <span className="text-sm text-yt-light-gray">保存しました</span>}
+            </div>
+        </div>
+    );
+};
+
+export default ProviderSettingsPage;
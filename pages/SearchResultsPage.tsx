@@ -1,18 +1,23 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 // FIX: Use named import for useSearchParams from react-router-dom
 import { useSearchParams } from 'react-router-dom';
-import { searchVideos, parseDuration } from '../utils/api';
-import type { Video, Channel, ApiPlaylist } from '../types';
+import { searchVideos, parseDuration, isAbortError } from '../utils/api';
+import type { Video, Channel, ApiPlaylist, SearchFilters } from '../types';
 import SearchVideoResultCard from '../components/SearchVideoResultCard';
 import SearchChannelResultCard from '../components/SearchChannelResultCard';
 import SearchPlaylistResultCard from '../components/SearchPlaylistResultCard';
 import ShortsShelf from '../components/ShortsShelf';
+import SearchFilterBar from '../components/SearchFilterBar';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import { usePreference } from '../contexts/PreferenceContext';
+import { parseSearchFilters, searchFiltersKey, toSearchFilterEntries } from '../utils/searchFilters';
 
 const SearchResultsPage: React.FC = () => {
-    const [searchParams] = useSearchParams();
+    const [searchParams, setSearchParams] = useSearchParams();
     const query = searchParams.get('search_query');
+    // フィルターは URL が正。オブジェクトは毎回作り直されるので、文字列キーで同一性を保つ
+    const filterKey = searchFiltersKey(parseSearchFilters(searchParams));
+    const filters = useMemo(() => parseSearchFilters(new URLSearchParams(filterKey)), [filterKey]);
     const { ngKeywords, ngChannels } = usePreference();
     
     const [videos, setVideos] = useState<Video[]>([]);
@@ -25,6 +30,8 @@ const SearchResultsPage: React.FC = () => {
     
     const [nextPageToken, setNextPageToken] = useState<string | undefined>(undefined);
     const [isFetchingMore, setIsFetchingMore] = useState(false);
+    // 検索クエリが変わったら古い検索結果のリクエストを中断する
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const isContentAllowed = useCallback((item: Video | Channel | ApiPlaylist) => {
         const lowerQuery = (text: string) => text.toLowerCase();
@@ -51,7 +58,7 @@ const SearchResultsPage: React.FC = () => {
         return true;
     }, [ngChannels, ngKeywords]);
 
-    const performSearch = useCallback(async (searchQuery: string, pageToken: string = '1') => {
+    const performSearch = useCallback(async (searchQuery: string, searchFilters: SearchFilters, pageToken: string = '1') => {
         if (!searchQuery) return;
         
         if (pageToken === '1') {
@@ -61,8 +68,9 @@ const SearchResultsPage: React.FC = () => {
             setIsFetchingMore(true);
         }
         
+        const signal = abortControllerRef.current?.signal;
         try {
-            const results = await searchVideos(searchQuery, pageToken);
+            const results = await searchVideos(searchQuery, pageToken, undefined, signal, searchFilters);
             
             const separatedShorts: Video[] = [];
             const separatedVideos: Video[] = [];
@@ -88,37 +96,56 @@ const SearchResultsPage: React.FC = () => {
             } else {
                 setVideos(prev => [...prev, ...filteredVideos]);
                 setShorts(prev => [...prev, ...filteredShorts]);
+                // チャンネル・再生リストで絞り込んでいるときは、それ自体が続きの結果になる
+                if (searchFilters.type === 'channel') setChannels(prev => [...prev, ...filteredChannels]);
+                if (searchFilters.type === 'playlist') setPlaylists(prev => [...prev, ...filteredPlaylists]);
             }
             setNextPageToken(results.nextPageToken);
         } catch (err: any) {
+            if (isAbortError(err)) return;
             setError(err.message);
-        } finally {
-            setIsLoading(false);
-            setIsFetchingMore(false);
         }
+        if (signal?.aborted) return;
+        setIsLoading(false);
+        setIsFetchingMore(false);
     }, [isContentAllowed]);
 
     useEffect(() => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setVideos([]);
         setShorts([]);
         setChannels([]);
         setPlaylists([]);
         setNextPageToken(undefined);
-        if (query) performSearch(query, '1');
+        setIsFetchingMore(false);
+        if (query) performSearch(query, filters, '1');
         else setIsLoading(false);
-    }, [query, performSearch]);
+        return () => controller.abort();
+    }, [query, filters, performSearch]);
 
     const handleLoadMore = () => {
         if (query && nextPageToken && !isFetchingMore) {
-            performSearch(query, nextPageToken);
+            performSearch(query, filters, nextPageToken);
         }
     };
 
+    // 履歴に積むので、戻る操作で直前の絞り込みに戻れる
+    const handleFiltersChange = (next: SearchFilters) => {
+        const params = new URLSearchParams();
+        if (query) params.set('search_query', query);
+        toSearchFilterEntries(next).forEach(([key, value]) => params.set(key, value));
+        setSearchParams(params);
+    };
+
+    const filterBar = query ? <SearchFilterBar filters={filters} onChange={handleFiltersChange} /> : null;
+
     const lastElementRef = useInfiniteScroll(handleLoadMore, !!nextPageToken, isFetchingMore || isLoading);
 
     if (isLoading) {
         return (
              <div className="flex flex-col space-y-6 max-w-6xl mx-auto p-4">
+                {filterBar}
                 {Array.from({ length: 5 }).map((_, index) => (
                    <div key={index} className="flex flex-col sm:flex-row gap-4 animate-pulse">
                         <div className="w-full sm:w-[360px] aspect-video bg-yt-light dark:bg-yt-dark-gray rounded-xl"></div>
@@ -134,15 +161,26 @@ const SearchResultsPage: React.FC = () => {
     }
     
     if (error && videos.length === 0) {
-        return <div className="text-center text-red-500 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg">{error}</div>;
+        return (
+            <div className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
+                {filterBar}
+                <div className="text-center text-red-500 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg">{error}</div>
+            </div>
+        );
     }
 
     if (videos.length === 0 && channels.length === 0 && playlists.length === 0 && shorts.length === 0 && query) {
-        return <div className="text-center mt-10">「{query}」の検索結果はありません。<br/><span className="text-xs text-yt-light-gray">※NG設定により非表示になっている可能性があります</span></div>
+        return (
+            <div className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
+                {filterBar}
+                <div className="text-center mt-10">「{query}」の検索結果はありません。<br/><span className="text-xs text-yt-light-gray">※NG設定またはフィルタにより非表示になっている可能性があります</span></div>
+            </div>
+        );
     }
 
     return (
         <div className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
+            {filterBar}
             {channels.length > 0 && (
                 <div className="mb-6 space-y-4">
                     {channels.map(channel => (
@@ -5,13 +5,15 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
 import ShortsPlayer from '../components/ShortsPlayer';
-import { getPlayerConfig, getComments, parseDuration, getChannelShorts, getVideoDetails } from '../utils/api';
+import { getPlayerConfig, getComments, parseDuration, getChannelShorts, getVideoDetails, isAbortError } from '../utils/api';
 import { getXraiShorts } from '../utils/recommendation';
 import type { Video, Comment } from '../types';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { useSearchHistory } from '../contexts/SearchHistoryContext';
 import { useHistory } from '../contexts/HistoryContext';
 import { usePreference } from '../contexts/PreferenceContext';
+import { postIframeCommand, createIframePlaybackController, type PlaybackController } from '../utils/playback';
+import { useWatchProgressReporter } from '../hooks/useWatchProgress';
 import { LikeIcon, CommentIcon, CloseIcon, BlockIcon, TrashIcon } from '../components/icons/Icons';
 import CommentComponent from '../components/Comment';
 import { useTheme } from '../hooks/useTheme';
@@ -58,15 +60,16 @@ const ShortsPage: React.FC = () => {
     const iframeRefs = useRef<Map<string, HTMLIFrameElement>>(new Map());
     
     const seenVideoIdsRef = useRef<Set<string>>(new Set());
+    // ページを離れたら追加読み込み・コメント取得を中断する
+    const pageAbortControllerRef = useRef<AbortController | null>(null);
 
-    const sendCommand = (iframe: HTMLIFrameElement, command: 'playVideo' | 'pauseVideo') => {
-        if (iframe && iframe.contentWindow) {
-            iframe.contentWindow.postMessage(
-                JSON.stringify({ event: 'command', func: command, args: [] }),
-                '*'
-            );
-        }
-    };
+    useEffect(() => {
+        const controller = new AbortController();
+        pageAbortControllerRef.current = controller;
+        return () => controller.abort();
+    }, []);
+
+    const sendCommand = (iframe: HTMLIFrameElement, command: 'playVideo' | 'pauseVideo') => postIframeCommand(iframe, command);
 
     // Play/Pause Control based on current index and autoplay setting
     useEffect(() => {
@@ -100,6 +103,7 @@ const ShortsPage: React.FC = () => {
     const fetchMoreShorts = useCallback(async () => {
         if (isFetchingMore) return;
         setIsFetchingMore(true);
+        const signal = pageAbortControllerRef.current?.signal;
         try {
             if (!context || context.type !== 'channel') {
                 const currentSeenIds = Array.from(seenVideoIdsRef.current) as string[];
@@ -108,7 +112,8 @@ const ShortsPage: React.FC = () => {
                     searchHistory, watchHistory, shortsHistory, subscribedChannels, 
                     ngKeywords, ngChannels, hiddenVideos, negativeKeywords, 
                     page: Math.floor(videos.length / 30) + 1, 
-                    seenIds: currentSeenIds
+                    seenIds: currentSeenIds,
+                    signal
                 });
                 
                 setVideos(prev => {
@@ -119,14 +124,18 @@ const ShortsPage: React.FC = () => {
                 });
             }
         } catch (e) {
+            if (isAbortError(e)) return;
             console.error(e);
-        } finally {
-            setIsFetchingMore(false);
         }
+        if (signal?.aborted) return;
+        setIsFetchingMore(false);
     }, [isFetchingMore, context, videos.length, searchHistory, watchHistory, shortsHistory, subscribedChannels, ngKeywords, ngChannels, hiddenVideos, negativeKeywords]);
 
     // Initial Data Fetch Logic
     useEffect(() => {
+        const controller = new AbortController();
+        const { signal } = controller;
+
         const init = async () => {
             // If we already have videos and the current video is in the list, don't re-init.
             // This prevents "blue spinner" when App.tsx keeps component alive but logic re-runs.
@@ -140,11 +149,12 @@ const ShortsPage: React.FC = () => {
             setError(null);
             
             try {
-                const params = await getPlayerConfig();
+                const params = await getPlayerConfig(signal);
+                if (signal.aborted) return;
                 setPlayerParams(params);
 
                 if (context?.type === 'channel' && context.channelId) {
-                    const { videos: channelShorts } = await getChannelShorts(context.channelId);
+                    const { videos: channelShorts } = await getChannelShorts(context.channelId, signal);
                     
                     let initialIndex = 0;
                     if (videoId) {
@@ -153,14 +163,16 @@ const ShortsPage: React.FC = () => {
                             initialIndex = idx;
                         } else {
                             try {
-                                const detail = await getVideoDetails(videoId);
+                                const detail = await getVideoDetails(videoId, signal);
                                 channelShorts.unshift(detail);
                                 initialIndex = 0;
                             } catch (e) {
+                                if (isAbortError(e)) throw e;
                                 console.warn("Could not fetch detail for initial video", e);
                             }
                         }
                     }
+                    if (signal.aborted) return;
                     
                     seenVideoIdsRef.current = new Set(channelShorts.map(v => v.id));
                     setVideos(channelShorts);
@@ -171,7 +183,8 @@ const ShortsPage: React.FC = () => {
                         searchHistory, watchHistory, shortsHistory, subscribedChannels, 
                         ngKeywords, ngChannels, hiddenVideos, negativeKeywords, 
                         page: 1,
-                        seenIds: []
+                        seenIds: [],
+                        signal
                     });
 
                     let initialList = shorts;
@@ -182,13 +195,15 @@ const ShortsPage: React.FC = () => {
                             initialList = [target, ...shorts];
                         } else {
                             try {
-                                const detail = await getVideoDetails(videoId);
+                                const detail = await getVideoDetails(videoId, signal);
                                 initialList = [detail, ...shorts];
                             } catch (e) {
+                                if (isAbortError(e)) throw e;
                                 console.warn("Could not fetch detail for requested video", e);
                             }
                         }
                     }
+                    if (signal.aborted) return;
                     
                     if (initialList.length === 0) setError("ショート動画が見つかりませんでした。");
                     else {
@@ -198,17 +213,19 @@ const ShortsPage: React.FC = () => {
                     setCurrentIndex(0);
                 }
             } catch (err: any) {
+                if (isAbortError(err)) return;
                 setError(err.message || 'ショート動画の読み込みに失敗しました。');
                 console.error(err);
-            } finally {
-                setIsLoading(false);
             }
+            if (signal.aborted) return;
+            setIsLoading(false);
         };
 
         // Only run init if we strictly need to (empty list or new context)
         if (videos.length === 0) {
             init();
         }
+        return () => controller.abort();
     }, [videoId, context]); // Keep dependency minimal to avoid loops
 
     // --- Pre-fetching Logic ---
@@ -284,16 +301,37 @@ const ShortsPage: React.FC = () => {
         return () => clearTimeout(historyTimer);
     }, [currentIndex, videos, addShortToHistory]);
     
+    // 表示中のショートの視聴位置を記録する (ループ再生なので完了度は maxRatio に残る)
+    const currentShortId = videos[currentIndex]?.id;
+    const [shortPlayback, setShortPlayback] = useState<PlaybackController | null>(null);
+    useEffect(() => {
+        const iframe = currentShortId ? iframeRefs.current.get(currentShortId) : undefined;
+        if (!iframe) {
+            setShortPlayback(null);
+            return;
+        }
+        const controller = createIframePlaybackController(iframe);
+        setShortPlayback(controller);
+        return () => controller.destroy();
+    }, [currentShortId, playerParams]);
+    useWatchProgressReporter(shortPlayback ? currentShortId : undefined, shortPlayback);
+
     const handleToggleComments = async () => {
         const willBeOpen = !showComments;
         setShowComments(willBeOpen);
         if (willBeOpen && comments.length === 0 && videos[currentIndex]) {
             setAreCommentsLoading(true);
+            const signal = pageAbortControllerRef.current?.signal;
             try {
-                const data = await getComments(videos[currentIndex].id);
-                setComments(data);
-            } catch (e) { console.error("Failed to fetch comments", e); } 
-            finally { setAreCommentsLoading(false); }
+                const page = await getComments(videos[currentIndex].id, '1', 'top', signal);
+                if (signal?.aborted) return;
+                setComments(page.comments);
+            } catch (e) {
+                if (isAbortError(e)) return;
+                console.error("Failed to fetch comments", e);
+            }
+            if (signal?.aborted) return;
+            setAreCommentsLoading(false);
         }
     };
     
@@ -416,7 +454,7 @@ const ShortsPage: React.FC = () => {
                              {areCommentsLoading ? <div className="flex justify-center py-8"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-yt-blue"></div></div>
                              : comments.length > 0 ? (
                                  <div className="space-y-2">
-                                     {comments.map((comment, idx) => ( <div key={idx} className="bg-black/5 dark:bg-white/5 rounded-lg p-2 backdrop-blur-sm"><CommentComponent comment={comment} /></div> ))}
+                                     {comments.map((comment, idx) => ( <div key={idx} className="bg-black/5 dark:bg-white/5 rounded-lg p-2 backdrop-blur-sm"><CommentComponent comment={comment} videoId={videos[currentIndex]?.id} /></div> ))}
                                  </div>
                              ) : <div className="text-center text-yt-light-gray py-10">コメントはありません</div> }
                          </div>
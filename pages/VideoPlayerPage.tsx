@@ -2,18 +2,41 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 // FIX: Use named imports for react-router-dom components and hooks.
 import { useParams, Link, useSearchParams, useNavigate } from 'react-router-dom';
-import { getVideoDetails, getPlayerConfig, getComments, getVideosByIds, getExternalRelatedVideos, getRawStreamData } from '../utils/api';
-import type { VideoDetails, Video, Comment, Channel } from '../types';
+import { getVideoDetails, getPlayerConfig, getVideosByIds, getExternalRelatedVideos, getRawStreamData, isAbortError } from '../utils/api';
+import { getAutoplayCandidates } from '../utils/recommendation';
+import type { VideoDetails, Video, Channel } from '../types';
 import { useSubscription } from '../contexts/SubscriptionContext';
 import { useHistory } from '../contexts/HistoryContext';
 import { usePlaylist } from '../contexts/PlaylistContext';
-import { usePreference } from '../contexts/PreferenceContext';
+import { usePreference, type PlayerMode } from '../contexts/PreferenceContext';
+import { useMiniPlayer, type MiniPlayerSession } from '../contexts/MiniPlayerContext';
 import VideoPlayerPageSkeleton from '../components/skeletons/VideoPlayerPageSkeleton';
 import PlaylistModal from '../components/PlaylistModal';
 import DownloadModal from '../components/DownloadModal';
-import CommentComponent from '../components/Comment';
+import CommentSection from '../components/CommentSection';
+import TranscriptPanel from '../components/TranscriptPanel';
+import ChapterNavigator from '../components/ChapterNavigator';
+import RichText from '../components/RichText';
+import SegmentSeekBar from '../components/SegmentSeekBar';
+import SegmentSkipOverlay from '../components/SegmentSkipOverlay';
+import SegmentEditorPanel from '../components/SegmentEditorPanel';
+import StreamingPlayer from '../components/StreamingPlayer';
+import StreamQualityMenu from '../components/StreamQualityMenu';
+import AudioOnlyPlayer from '../components/AudioOnlyPlayer';
+import AutoplayCountdownOverlay from '../components/AutoplayCountdownOverlay';
 import PlaylistPanel from '../components/PlaylistPanel';
 import RelatedVideoCard from '../components/RelatedVideoCard';
+import { useRevalidation } from '../hooks/useRevalidation';
+import { useComments } from '../hooks/useComments';
+import { usePlaybackController } from '../hooks/usePlaybackController';
+import { usePlaybackShortcuts } from '../hooks/usePlaybackShortcuts';
+import { useWatchProgressReporter } from '../hooks/useWatchProgress';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useSkipSegments } from '../hooks/useSkipSegments';
+import { formatLastUpdated } from '../utils/revalidation';
+import { PLAYBACK_RATES, buildEmbedUrl } from '../utils/playback';
+import { parseStartTime } from '../utils/richText';
+import { buildStreamSources, pickStreamSource, getAudioOnlyUrl, type StreamQualityPreference } from '../utils/streamQuality';
 import { LikeIcon, SaveIcon, MoreIconHorizontal, DownloadIcon, DislikeIcon, ChevronRightIcon, RepeatIcon } from '../components/icons/Icons';
 
 const VideoPlayerPage: React.FC = () => {
@@ -23,16 +46,29 @@ const VideoPlayerPage: React.FC = () => {
     const playlistId = searchParams.get('list');
 
     const [videoDetails, setVideoDetails] = useState<VideoDetails | null>(null);
-    const [comments, setComments] = useState<Comment[]>([]);
     const [relatedVideos, setRelatedVideos] = useState<Video[]>([]);
+    // 自動再生の候補用に、表示には使わなかった外部の関連動画も持っておく
+    const [externalRelatedVideos, setExternalRelatedVideos] = useState<Video[]>([]);
+    const [isAutoplayCountdownActive, setIsAutoplayCountdownActive] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
+    const commentsState = useComments(videoId);
+
+    // キャッシュから表示した後、裏で取得した最新の再生回数などに差し替える
+    const detailsUpdatedAt = useRevalidation<VideoDetails>('video-details', videoId, freshDetails => {
+        setVideoDetails(freshDetails);
+    });
     const [isPlaylistModalOpen, setIsPlaylistModalOpen] = useState(false);
     const [playlistVideos, setPlaylistVideos] = useState<Video[]>([]);
     const [isCollaboratorMenuOpen, setIsCollaboratorMenuOpen] = useState(false);
     const collaboratorMenuRef = useRef<HTMLDivElement>(null);
     const iframeRef = useRef<HTMLIFrameElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const playerContainerRef = useRef<HTMLDivElement>(null);
+    const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+    const [isSegmentEditorOpen, setIsSegmentEditorOpen] = useState(false);
     
     // State for player params string instead of YT.Player object
     const [playerParams, setPlayerParams] = useState<string>('');
@@ -45,13 +81,17 @@ const VideoPlayerPage: React.FC = () => {
     const shuffleSeedRef = useRef<string | null>(null);
 
     // Streaming State
-    const { defaultPlayerMode, setDefaultPlayerMode } = usePreference();
+    const { defaultPlayerMode, setDefaultPlayerMode, streamQuality, setStreamQuality, playbackRate, setPlaybackRate, isAutoplayNextEnabled, toggleAutoplayNext, hiddenVideos, ngChannels, ngKeywords } = usePreference();
     const [streamData, setStreamData] = useState<any>(null);
+    // 画質を切り替えたときに引き継ぐ再生位置と再生状態
+    const [streamResume, setStreamResume] = useState({ time: 0, playing: true });
     const [isDownloadModalOpen, setIsDownloadModalOpen] = useState(false);
     const [isStreamDataLoading, setIsStreamDataLoading] = useState(false);
 
     const { isSubscribed, subscribe, unsubscribe } = useSubscription();
-    const { addVideoToHistory } = useHistory();
+    const { history, addVideoToHistory, getResumePosition } = useHistory();
+    // 動画を開いたときの再生開始位置 (?t= または前回の続き)
+    const [initialStartTime, setInitialStartTime] = useState(0);
     const { playlists, reorderVideosInPlaylist } = usePlaylist();
 
     const currentPlaylist = useMemo(() => {
@@ -65,9 +105,11 @@ const VideoPlayerPage: React.FC = () => {
     }, [searchParams]);
     
     useEffect(() => {
+        const controller = new AbortController();
         const fetchConfig = async () => {
             try {
-                const paramsString = await getPlayerConfig();
+                const paramsString = await getPlayerConfig(controller.signal);
+                if (controller.signal.aborted) return;
                 const params = new URLSearchParams(paramsString);
                 
                 // Ensure autoplay is enabled for a better user experience.
@@ -75,11 +117,13 @@ const VideoPlayerPage: React.FC = () => {
                 
                 setPlayerParams(params.toString());
             } catch (error) {
+                if (isAbortError(error)) return;
                 console.error("Failed to fetch player config, using defaults", error);
                 setPlayerParams('autoplay=1&rel=0');
             }
         };
         fetchConfig();
+        return () => controller.abort();
     }, []);
 
     useEffect(() => {
@@ -95,13 +139,20 @@ const VideoPlayerPage: React.FC = () => {
     }, []);
 
     useEffect(() => {
+        const controller = new AbortController();
         const fetchPlaylistVideos = async () => {
             if (currentPlaylist) {
                 if (currentPlaylist.videoIds.length > 0) {
-                    const fetchedVideos = await getVideosByIds(currentPlaylist.videoIds);
-                    const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
-                    const orderedVideos = currentPlaylist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v);
-                    setPlaylistVideos(orderedVideos);
+                    try {
+                        const fetchedVideos = await getVideosByIds(currentPlaylist.videoIds, controller.signal);
+                        // キャッシュから返る場合は signal を見ないので、ここで切り替え後かどうかを確かめる
+                        if (controller.signal.aborted) return;
+                        const videoMap = new Map(fetchedVideos.map(v => [v.id, v]));
+                        const orderedVideos = currentPlaylist.videoIds.map(id => videoMap.get(id)).filter((v): v is Video => !!v);
+                        setPlaylistVideos(orderedVideos);
+                    } catch (err) {
+                        if (!isAbortError(err)) console.error("Failed to fetch playlist videos", err);
+                    }
                 } else {
                     setPlaylistVideos([]);
                 }
@@ -110,6 +161,7 @@ const VideoPlayerPage: React.FC = () => {
             }
         };
         fetchPlaylistVideos();
+        return () => controller.abort();
     }, [currentPlaylist]);
 
     // Stable Shuffle Logic
@@ -145,12 +197,18 @@ const VideoPlayerPage: React.FC = () => {
         }
     }, [isShuffle, playlistVideos, videoId, playlistId, shuffledVideos.length]);
 
-    // Fetch raw stream data when needed (Stream mode or Download)
+    const currentVideoIdRef = useRef(videoId);
+    currentVideoIdRef.current = videoId;
+
+    // Fetch raw stream data when needed (Stream / Audio mode or Download)
     const fetchStreamDataIfNeeded = useCallback(async () => {
         if (streamData || !videoId || isStreamDataLoading) return;
         setIsStreamDataLoading(true);
+        const requestedVideoId = videoId;
         try {
-            const data = await getRawStreamData(videoId);
+            const data = await getRawStreamData(requestedVideoId);
+            // 取得中に別の動画へ移っていたら前の動画のストリームは使わない
+            if (currentVideoIdRef.current !== requestedVideoId) return;
             setStreamData(data);
         } catch (e) {
             console.error("Failed to fetch stream data", e);
@@ -160,65 +218,62 @@ const VideoPlayerPage: React.FC = () => {
     }, [videoId, streamData, isStreamDataLoading]);
 
     useEffect(() => {
-        if (defaultPlayerMode === 'stream') {
+        if (defaultPlayerMode !== 'player') {
             fetchStreamDataIfNeeded();
         }
     }, [defaultPlayerMode, fetchStreamDataIfNeeded]);
 
     useEffect(() => {
-        let isMounted = true;
+        // 動画が切り替わったら前の動画のリクエストを中断する
+        const controller = new AbortController();
+        const { signal } = controller;
 
         const fetchVideoData = async () => {
             if (!videoId) return;
             
-            if (isMounted) {
-                setIsLoading(true);
-                setError(null);
-                setVideoDetails(null);
-                setComments([]);
-                setRelatedVideos([]);
-                setStreamData(null); // Reset stream data on video change
-                // Note: defaultPlayerMode persists, so we don't reset it here
-                setIsDownloadModalOpen(false); // Close menu on navigation
-                window.scrollTo(0, 0);
-            }
+            setIsLoading(true);
+            setError(null);
+            setVideoDetails(null);
+            setRelatedVideos([]);
+            setExternalRelatedVideos([]);
+            setIsAutoplayCountdownActive(false);
+            setStreamData(null); // Reset stream data on video change
+            // ?t= があればそれを優先し、無ければ前回見ていた位置から
+            const startTime = parseStartTime(searchParams.get('t')) ?? getResumePosition(videoId);
+            setInitialStartTime(startTime);
+            setStreamResume({ time: startTime, playing: true });
+            // Note: defaultPlayerMode persists, so we don't reset it here
+            setIsDownloadModalOpen(false); // Close menu on navigation
+            window.scrollTo(0, 0);
 
             // 1. Video Details (Highest Priority)
-            getVideoDetails(videoId)
+            // 取得が終わった直後に切り替わることもあるので、setState の前に毎回確かめる
+            getVideoDetails(videoId, signal)
                 .then(details => {
-                    if (isMounted) {
-                        setVideoDetails(details);
-                        // Request: No XRAI, just 20 items whatever they are.
-                        if (details.relatedVideos && details.relatedVideos.length > 0) {
-                            setRelatedVideos(details.relatedVideos.slice(0, 20));
-                        }
-                        addVideoToHistory(details);
-                        setIsLoading(false);
+                    if (signal.aborted) return;
+                    setVideoDetails(details);
+                    // Request: No XRAI, just 20 items whatever they are.
+                    if (details.relatedVideos && details.relatedVideos.length > 0) {
+                        setRelatedVideos(details.relatedVideos.slice(0, 20));
                     }
+                    addVideoToHistory(details);
+                    setIsLoading(false);
                 })
                 .catch(err => {
-                    if (isMounted) {
-                        setError(err.message || '動画の読み込みに失敗しました。');
-                        console.error(err);
-                        setIsLoading(false);
-                    }
+                    if (isAbortError(err)) return;
+                    setError(err.message || '動画の読み込みに失敗しました。');
+                    console.error(err);
+                    setIsLoading(false);
                 });
 
-            // 2. Comments (Background)
-            getComments(videoId)
-                .then(commentsData => {
-                    if (isMounted) {
-                        setComments(commentsData);
-                    }
-                })
-                .catch(err => {
-                    console.warn("Failed to fetch comments", err);
-                });
+            // 2. Comments は useComments が videoId の変化に合わせて取得する
 
             // 3. External Related Videos (Background)
-            getExternalRelatedVideos(videoId)
+            getExternalRelatedVideos(videoId, signal)
                 .then(externalRelated => {
-                    if (isMounted && externalRelated && externalRelated.length > 0) {
+                    if (signal.aborted) return;
+                    if (externalRelated && externalRelated.length > 0) {
+                        setExternalRelatedVideos(externalRelated);
                         // Request: No XRAI, just 20 items whatever they are.
                         // Overwrite if external source is better or supplementary
                         setRelatedVideos(prev => {
@@ -228,6 +283,7 @@ const VideoPlayerPage: React.FC = () => {
                     }
                 })
                 .catch(extErr => {
+                    if (isAbortError(extErr)) return;
                     console.warn("Failed to fetch external related videos", extErr);
                 });
         };
@@ -235,9 +291,9 @@ const VideoPlayerPage: React.FC = () => {
         fetchVideoData();
 
         return () => {
-            isMounted = false;
+            controller.abort();
         };
-    }, [videoId, addVideoToHistory]);
+    }, [videoId, addVideoToHistory, getResumePosition]);
     
     // Navigation Logic
     const navigateToNextVideo = useCallback(() => {
@@ -267,6 +323,8 @@ const VideoPlayerPage: React.FC = () => {
         const nextVideo = currentList[nextIndex];
         if (nextVideo) {
              const newParams = new URLSearchParams(searchParams);
+             // 開始位置は前の動画のものなので引き継がない
+             newParams.delete('t');
              // Ensure shuffle/loop state persists
              if (isShuffle) newParams.set('shuffle', '1');
              if (isLoop) newParams.set('loop', '1');
@@ -275,82 +333,160 @@ const VideoPlayerPage: React.FC = () => {
         }
     }, [currentPlaylist, playlistVideos, isShuffle, shuffledVideos, videoId, isLoop, navigate, searchParams]);
 
-    // Iframe Event Listener for Auto-Advance
-    useEffect(() => {
-        const handleMessage = (event: MessageEvent) => {
-            // Robustly parse the message
-            let data = event.data;
-            if (typeof data === 'string') {
-                try {
-                    data = JSON.parse(data);
-                } catch (e) {
-                    return; // Not JSON
-                }
-            }
+    const navigateToPreviousVideo = useCallback(() => {
+        if (!currentPlaylist) return;
+        const currentList = isShuffle ? shuffledVideos : playlistVideos;
+        const currentIndex = currentList.findIndex(v => v.id === videoId);
+        if (currentIndex === -1) return;
 
-            // Check for YouTube State Change event
-            // data.info === 0 corresponds to YT.PlayerState.ENDED
-            if (data && data.event === 'onStateChange' && data.info === 0) {
-                if (isLoop && !currentPlaylist) {
-                    // Single video loop: Seek to 0 and play (simulate loop)
-                    if (iframeRef.current && iframeRef.current.contentWindow) {
-                        iframeRef.current.contentWindow.postMessage(
-                            JSON.stringify({ event: 'command', func: 'seekTo', args: [0, true] }), '*'
-                        );
-                        // Trigger play just in case
-                        iframeRef.current.contentWindow.postMessage(
-                            JSON.stringify({ event: 'command', func: 'playVideo', args: [] }), '*'
-                        );
-                    }
-                } else {
-                    navigateToNextVideo();
-                }
-            }
-        };
+        let prevIndex = currentIndex - 1;
+        if (prevIndex < 0) {
+            if (!isLoop) return; // Start of playlist
+            prevIndex = currentList.length - 1;
+        }
 
-        window.addEventListener('message', handleMessage);
-        return () => window.removeEventListener('message', handleMessage);
-    }, [navigateToNextVideo, isLoop, currentPlaylist]);
+        const prevVideo = currentList[prevIndex];
+        if (prevVideo) {
+            const newParams = new URLSearchParams(searchParams);
+            newParams.delete('t');
+            if (isShuffle) newParams.set('shuffle', '1');
+            if (isLoop) newParams.set('loop', '1');
+            navigate(`/watch/${prevVideo.id}?${newParams.toString()}`);
+        }
+    }, [currentPlaylist, playlistVideos, isShuffle, shuffledVideos, videoId, isLoop, navigate, searchParams]);
 
     const iframeSrc = useMemo(() => {
         if (!videoDetails?.id || !playerParams) return '';
-        let src = `https://www.youtubeeducation.com/embed/${videoDetails.id}`;
-        let params = playerParams.startsWith('?') ? playerParams.substring(1) : playerParams;
-        
-        // Ensure enablejsapi=1 is present for event listening
-        if (!params.includes('enablejsapi')) {
-            params += '&enablejsapi=1';
-        }
-        // Add origin to ensure we can receive messages from the iframe
-        if (!params.includes('origin')) {
-            params += `&origin=${encodeURIComponent(window.location.origin)}`;
-        }
-        // Ensure autoplay is set
-        if (!params.includes('autoplay')) {
-            params += '&autoplay=1';
-        }
+        return buildEmbedUrl(videoDetails.id, playerParams, initialStartTime);
+    }, [videoDetails, playerParams, initialStartTime]);
+
+    // Stream mode: combinedFormats と separate1080p から選べる画質を作り、保存された画質設定で選ぶ
+    const streamSources = useMemo(() => buildStreamSources(streamData), [streamData]);
+    const streamSource = useMemo(() => pickStreamSource(streamSources, streamQuality), [streamSources, streamQuality]);
+    const audioOnlyUrl = useMemo(() => getAudioOnlyUrl(streamData), [streamData]);
+
+    const handleStreamQualityChange = (preference: StreamQualityPreference) => {
+        const video = videoRef.current;
+        setStreamResume({ time: video?.currentTime ?? 0, playing: video ? !video.paused : true });
+        setStreamQuality(preference);
+    };
 
-        return `${src}?${params}`;
-    }, [videoDetails, playerParams]);
+    // iframe / Stream どちらのプレイヤーも同じ API で操作する (文字起こし・チャプター・スキップ区間・ショートカット)
+    const playbackSourceKey = defaultPlayerMode === 'player' ? iframeSrc
+        : defaultPlayerMode === 'audio' ? (audioOnlyUrl ? videoId ?? null : null)
+        : (streamSource ? videoId ?? null : null);
+    const { controller: playback, currentTime, duration, paused, seekTo } = usePlaybackController(defaultPlayerMode, iframeRef, defaultPlayerMode === 'audio' ? audioRef : videoRef, playbackSourceKey, playbackRate);
+    usePlaybackShortcuts(playback, playerContainerRef, setPlaybackRate);
+    useWatchProgressReporter(videoDetails?.id, playback);
+
+    // プレイリスト外で終わったときに自動再生する動画 (履歴・非表示・NG を除いた関連動画の先頭)
+    const autoplayCandidate = useMemo(() => {
+        if (!videoId) return null;
+        return getAutoplayCandidates({
+            currentVideoId: videoId,
+            relatedVideos, externalRelatedVideos,
+            watchHistory: history, hiddenVideos, ngChannels, ngKeywords,
+        })[0] ?? null;
+    }, [videoId, relatedVideos, externalRelatedVideos, history, hiddenVideos, ngChannels, ngKeywords]);
+
+    // 再生が終わったら次の動画へ (単体のループ再生は先頭に戻す、プレイリスト外は自動再生のカウントダウン)
+    // 終了は iframe の onStateChange / <video>・<audio> の ended を PlaybackController がまとめて通知する
+    useEffect(() => {
+        if (!playback) return;
+        return playback.onEnded(() => {
+            if (isLoop && !currentPlaylist) {
+                seekTo(0);
+            } else if (currentPlaylist) {
+                navigateToNextVideo();
+            } else if (isAutoplayNextEnabled && autoplayCandidate) {
+                setIsAutoplayCountdownActive(true);
+            }
+        });
+    }, [playback, navigateToNextVideo, isLoop, currentPlaylist, seekTo, isAutoplayNextEnabled, autoplayCandidate]);
 
-    // Get 360p or 720p URL for Stream mode (Updated for new JSON structure)
-    const getStreamUrl = useMemo(() => {
-        if (!streamData) return null;
-        
-        // Use streamingUrl if available (usually 360p or 720p)
-        if (streamData.streamingUrl) return streamData.streamingUrl;
-        
-        // Fallback: look in combinedFormats for 360p
-        if (streamData.combinedFormats) {
-             const format360 = streamData.combinedFormats.find((f: any) => f.quality === '360p');
-             if (format360) return format360.url;
-             
-             // Fallback to any available format
-             if (streamData.combinedFormats.length > 0) return streamData.combinedFormats[0].url;
+    // カウントダウン中に巻き戻して再生し直したら取り消す
+    useEffect(() => {
+        if (isAutoplayCountdownActive && !paused) setIsAutoplayCountdownActive(false);
+    }, [isAutoplayCountdownActive, paused]);
+
+    const playAutoplayCandidate = useCallback(() => {
+        setIsAutoplayCountdownActive(false);
+        if (autoplayCandidate) navigate(`/watch/${autoplayCandidate.id}`);
+    }, [autoplayCandidate, navigate]);
+
+    // ロック画面・メディアキー (Stream / 音声のみモード。埋め込みプレイヤーは iframe 内で扱われる)
+    // 前へ: 数秒以上再生していれば頭出し、そうでなければプレイリストの前の動画
+    // 次へ: プレイリストがあればその順番で、無ければ自動再生の候補 (無ければ関連動画の先頭) へ
+    useMediaSession({
+        controller: defaultPlayerMode !== 'player' ? playback : null,
+        details: videoDetails,
+        onPreviousTrack: () => {
+            if (currentTime > 3 || !currentPlaylist) {
+                seekTo(0);
+            } else {
+                navigateToPreviousVideo();
+            }
+        },
+        onNextTrack: () => {
+            if (currentPlaylist) {
+                navigateToNextVideo();
+            } else if (autoplayCandidate ?? relatedVideos[0]) {
+                navigate(`/watch/${(autoplayCandidate ?? relatedVideos[0]).id}`);
+            }
+        },
+    });
+
+    // モードを切り替えても同じ位置から続ける
+    const handlePlayerModeChange = (mode: PlayerMode) => {
+        if (mode === defaultPlayerMode) return;
+        if (currentTime > 0) {
+            setInitialStartTime(Math.floor(currentTime));
+            setStreamResume({ time: currentTime, playing: !paused });
         }
+        setDefaultPlayerMode(mode);
+    };
 
-        return null;
-    }, [streamData]);
+    // 視聴ページから離れるときは、再生中の動画をミニプレイヤーに引き継ぐ
+    // (開いたときは逆にミニプレイヤーを閉じて、このページで再生する)
+    const { openMiniPlayer, closeMiniPlayer } = useMiniPlayer();
+    const miniPlayerHandoffRef = useRef<() => MiniPlayerSession | null>(() => null);
+    miniPlayerHandoffRef.current = () => {
+        const state = playback?.getState();
+        if (!videoDetails || !state || (state.paused && state.currentTime === 0)) return null;
+
+        const currentList = isShuffle ? shuffledVideos : playlistVideos;
+        const currentIndex = currentList.findIndex(v => v.id === videoDetails.id);
+        const upNext = currentPlaylist && currentIndex !== -1
+            ? [...currentList.slice(currentIndex + 1), ...(isLoop ? currentList.slice(0, currentIndex) : [])]
+            : [autoplayCandidate ?? relatedVideos[0]].filter(Boolean);
+        const search = new URLSearchParams(searchParams);
+        search.delete('t');
+
+        return {
+            video: videoDetails,
+            mode: defaultPlayerMode,
+            startTime: state.currentTime,
+            playing: !state.paused,
+            search: search.toString(),
+            upNext,
+            loop: isLoop && !currentPlaylist,
+            autoAdvance: !!currentPlaylist || (isAutoplayNextEnabled && !!autoplayCandidate),
+        };
+    };
+
+    useEffect(() => {
+        closeMiniPlayer();
+        return () => {
+            const session = miniPlayerHandoffRef.current();
+            if (session) openMiniPlayer(session);
+        };
+    }, [openMiniPlayer, closeMiniPlayer]);
+
+    const handlePlaybackRateChange = (rate: number) => {
+        setPlaybackRate(rate);
+        playback?.setPlaybackRate(rate);
+    };
+    const { segments: skipSegments, notice: skipNotice, undoSkip, manualSkipSegment, skipSegment } = useSkipSegments(videoId, currentTime, seekTo);
 
     const updateUrlParams = (key: string, value: string | null) => {
         const newSearchParams = new URLSearchParams(searchParams);
@@ -441,7 +577,7 @@ const VideoPlayerPage: React.FC = () => {
             {/* Main Content Column */}
             <div className="flex-1 min-w-0 max-w-full">
                 {/* Video Player Area */}
-                <div className="w-full aspect-video bg-yt-black rounded-xl overflow-hidden shadow-lg relative z-10">
+                <div ref={playerContainerRef} className="w-full aspect-video bg-yt-black rounded-xl overflow-hidden shadow-lg relative z-10">
                     {defaultPlayerMode === 'player' ? (
                         playerParams && videoId && (
                             <iframe
@@ -455,20 +591,31 @@ const VideoPlayerPage: React.FC = () => {
                                 className="w-full h-full"
                             ></iframe>
                         )
+                    ) : defaultPlayerMode === 'audio' && audioOnlyUrl ? (
+                        <AudioOnlyPlayer
+                            audioRef={audioRef}
+                            audioUrl={audioOnlyUrl}
+                            title={videoDetails.title}
+                            channelName={videoDetails.channel.name}
+                            artworkUrl={videoDetails.thumbnailUrl}
+                            startTime={streamResume.time}
+                            autoPlay={streamResume.playing}
+                            loop={isLoop && !currentPlaylist}
+                        />
                     ) : (
-                        getStreamUrl ? (
-                            // Standard HTML5 Video for 360p MP4 Playback
-                            <video 
-                                src={getStreamUrl} 
-                                controls 
-                                autoPlay 
-                                playsInline 
-                                loop={isLoop} // Native loop for stream mode
-                                className="w-full h-full"
-                                onError={(e) => console.error("Video Playback Error", e)}
-                            >
-                                お使いのブラウザは動画タグをサポートしていません。
-                            </video>
+                        defaultPlayerMode === 'stream' && streamSource ? (
+                            <>
+                                {/* 1080p は映像のみ + 音声の2要素で再生する */}
+                                <StreamingPlayer
+                                    videoRef={videoRef}
+                                    videoUrl={streamSource.videoUrl}
+                                    audioUrl={streamSource.audioUrl}
+                                    startTime={streamResume.time}
+                                    autoPlay={streamResume.playing}
+                                    loop={isLoop && !currentPlaylist} // Native loop for stream mode (プレイリストでは終了時に次へ進む)
+                                />
+                                <StreamQualityMenu sources={streamSources} current={streamSource} preference={streamQuality} onSelect={handleStreamQualityChange} />
+                            </>
                         ) : (
                             <div className="w-full h-full flex items-center justify-center text-white bg-black">
                                 {isStreamDataLoading ? (
@@ -478,15 +625,25 @@ const VideoPlayerPage: React.FC = () => {
                                     </div>
                                 ) : (
                                     <div className="text-center">
-                                        <p>360pストリームが見つかりませんでした。</p>
+                                        <p>再生できるストリームが見つかりませんでした。</p>
                                         <button onClick={fetchStreamDataIfNeeded} className="mt-2 text-blue-400 hover:underline">再試行</button>
                                     </div>
                                 )}
                             </div>
                         )
                     )}
+                    {isAutoplayCountdownActive && autoplayCandidate && (
+                        <AutoplayCountdownOverlay video={autoplayCandidate} onComplete={playAutoplayCandidate} onCancel={() => setIsAutoplayCountdownActive(false)} />
+                    )}
+                    <SegmentSkipOverlay notice={skipNotice} manualSkipSegment={manualSkipSegment} onUndo={undoSkip} onSkip={skipSegment} />
                 </div>
 
+                {/* Skip segments (SponsorBlock / ローカル) */}
+                <SegmentSeekBar segments={skipSegments} currentTime={currentTime} duration={duration} onSeek={seekTo} />
+
+                {/* Chapters (キャッシュ済みの古い詳細には chapters が無いことがある) */}
+                <ChapterNavigator chapters={videoDetails.chapters ?? []} currentTime={currentTime} onSeek={seekTo} />
+
                 <div className="">
                     {/* Title & Mode Switch */}
                     <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mt-3 mb-2">
@@ -498,16 +655,23 @@ const VideoPlayerPage: React.FC = () => {
                         <div className="flex bg-yt-light dark:bg-yt-light-black rounded-lg p-1 flex-shrink-0 self-start">
                             <button 
                                 className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${defaultPlayerMode === 'player' ? 'bg-white dark:bg-yt-spec-20 text-black dark:text-white shadow-sm' : 'text-yt-light-gray hover:text-black dark:hover:text-white'}`}
-                                onClick={() => setDefaultPlayerMode('player')}
+                                onClick={() => handlePlayerModeChange('player')}
                             >
                                 Player
                             </button>
                             <button 
                                 className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${defaultPlayerMode === 'stream' ? 'bg-white dark:bg-yt-spec-20 text-black dark:text-white shadow-sm' : 'text-yt-light-gray hover:text-black dark:hover:text-white'}`}
-                                onClick={() => setDefaultPlayerMode('stream')}
+                                onClick={() => handlePlayerModeChange('stream')}
                             >
                                 Stream
                             </button>
+                            <button 
+                                className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${defaultPlayerMode === 'audio' ? 'bg-white dark:bg-yt-spec-20 text-black dark:text-white shadow-sm' : 'text-yt-light-gray hover:text-black dark:hover:text-white'}`}
+                                onClick={() => handlePlayerModeChange('audio')}
+                                title="音声のみ (通信量を抑えてバックグラウンド再生)"
+                            >
+                                Audio
+                            </button>
                         </div>
                     </div>
 
@@ -603,6 +767,31 @@ const VideoPlayerPage: React.FC = () => {
                                 <RepeatIcon className="fill-current w-5 h-5" />
                             </button>
 
+                            {/* Autoplay Toggle */}
+                            <button
+                                onClick={toggleAutoplayNext}
+                                className="flex items-center gap-2 bg-yt-light dark:bg-[#272727] rounded-full h-9 px-3 text-sm font-semibold whitespace-nowrap hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0"
+                                title={isAutoplayNextEnabled ? "自動再生 (オン)" : "自動再生 (オフ)"}
+                                aria-pressed={isAutoplayNextEnabled}
+                            >
+                                <span className={`relative inline-block w-7 h-4 rounded-full transition-colors ${isAutoplayNextEnabled ? 'bg-yt-blue' : 'bg-yt-light-gray'}`}>
+                                    <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${isAutoplayNextEnabled ? 'left-3.5' : 'left-0.5'}`} />
+                                </span>
+                                自動再生
+                            </button>
+
+                            {/* Playback Speed */}
+                            <select
+                                value={playbackRate}
+                                onChange={(e) => handlePlaybackRateChange(parseFloat(e.target.value))}
+                                className="bg-yt-light dark:bg-[#272727] rounded-full h-9 px-3 text-sm font-semibold text-black dark:text-white hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0 cursor-pointer outline-none"
+                                title="再生速度 (< / > キーでも変更できます)"
+                            >
+                                {PLAYBACK_RATES.map(rate => (
+                                    <option key={rate} value={rate}>{rate === 1 ? '標準' : `${rate}x`}</option>
+                                ))}
+                            </select>
+
                             {/* Download Button */}
                             <button 
                                 onClick={handleDownloadClick}
@@ -611,6 +800,22 @@ const VideoPlayerPage: React.FC = () => {
                                 <DownloadIcon />
                             </button>
 
+                            {/* Transcript Button */}
+                            <button
+                                onClick={() => setIsTranscriptOpen(prev => !prev)}
+                                className={`flex items-center justify-center rounded-full h-9 px-4 text-sm font-semibold whitespace-nowrap transition-colors flex-shrink-0 ${isTranscriptOpen ? 'bg-black dark:bg-white text-white dark:text-black' : 'bg-yt-light dark:bg-[#272727] text-black dark:text-white hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]'}`}
+                            >
+                                文字起こし
+                            </button>
+
+                            {/* Skip Segments Button */}
+                            <button
+                                onClick={() => setIsSegmentEditorOpen(prev => !prev)}
+                                className={`flex items-center justify-center rounded-full h-9 px-4 text-sm font-semibold whitespace-nowrap transition-colors flex-shrink-0 ${isSegmentEditorOpen ? 'bg-black dark:bg-white text-white dark:text-black' : 'bg-yt-light dark:bg-[#272727] text-black dark:text-white hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f]'}`}
+                            >
+                                スキップ区間
+                            </button>
+
                             <button 
                                 onClick={() => setIsPlaylistModalOpen(true)} 
                                 className="flex items-center justify-center bg-yt-light dark:bg-[#272727] rounded-full w-9 h-9 hover:bg-[#e5e5e5] dark:hover:bg-[#3f3f3f] transition-colors flex-shrink-0"
@@ -629,9 +834,12 @@ const VideoPlayerPage: React.FC = () => {
                     <div className={`mt-4 bg-yt-spec-light-10 dark:bg-yt-dark-gray p-3 rounded-xl text-sm cursor-pointer hover:bg-yt-spec-light-20 dark:hover:bg-yt-gray transition-colors ${isDescriptionExpanded ? '' : 'h-24 overflow-hidden relative'}`} onClick={() => setIsDescriptionExpanded(prev => !prev)}>
                         <div className="font-bold mb-2 text-black dark:text-white">
                             {videoDetails.views}  •  {videoDetails.uploadedAt}
+                            {detailsUpdatedAt && (
+                                <span className="ml-2 text-xs font-normal text-yt-light-gray">最終更新: {formatLastUpdated(detailsUpdatedAt)}</span>
+                            )}
                         </div>
                         <div className="whitespace-pre-wrap break-words text-black dark:text-white">
-                            <div dangerouslySetInnerHTML={{ __html: videoDetails.description }} />
+                            <RichText text={videoDetails.description} runs={videoDetails.descriptionRuns} videoId={videoId} onSeek={seekTo} />
                         </div>
                         {!isDescriptionExpanded && (
                             <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-yt-spec-light-10 dark:from-yt-dark-gray to-transparent flex items-end p-3 font-semibold">
@@ -645,27 +853,33 @@ const VideoPlayerPage: React.FC = () => {
 
                     {/* Comments Section */}
                     <div className="mt-6 hidden lg:block">
-                        <div className="flex flex-col mb-6">
-                            <div className="flex items-center justify-between">
-                                <h2 className="text-xl font-bold">{comments.length.toLocaleString()}件のコメント</h2>
-                            </div>
-                        </div>
-
-                        {comments.length > 0 ? (
-                            <div className="space-y-4">
-                                {comments.map(comment => (
-                                    <CommentComponent key={comment.comment_id} comment={comment} />
-                                ))}
-                            </div>
-                        ) : (
-                             <div className="py-4 text-yt-light-gray">コメントの読み込み中、またはコメントがありません。</div>
-                        )}
+                        <CommentSection videoId={videoId} state={commentsState} onSeek={seekTo} />
                     </div>
                 </div>
             </div>
             
             {/* Sidebar: Playlist & Related Videos */}
             <div className="w-full lg:w-[350px] xl:w-[400px] flex-shrink-0 flex flex-col gap-4 pb-10">
+                {isTranscriptOpen && videoId && (
+                    <TranscriptPanel
+                        key={videoId}
+                        videoId={videoId}
+                        videoTitle={videoDetails.title}
+                        currentTime={currentTime}
+                        onSeek={seekTo}
+                        onClose={() => setIsTranscriptOpen(false)}
+                    />
+                )}
+                {isSegmentEditorOpen && videoId && (
+                    <SegmentEditorPanel
+                        key={videoId}
+                        videoId={videoId}
+                        segments={skipSegments}
+                        currentTime={currentTime}
+                        onSeek={seekTo}
+                        onClose={() => setIsSegmentEditorOpen(false)}
+                    />
+                )}
                 {currentPlaylist && (
                      <PlaylistPanel playlist={currentPlaylist} authorName={currentPlaylist.authorName} videos={isShuffle ? shuffledVideos : playlistVideos} currentVideoId={videoId} isShuffle={isShuffle} isLoop={isLoop} toggleShuffle={toggleShuffle} toggleLoop={toggleLoop} onReorder={handlePlaylistReorder} />
                 )}
@@ -690,12 +904,7 @@ const VideoPlayerPage: React.FC = () => {
 
                 {/* Mobile Comments Fallback */}
                 <div className="block lg:hidden mt-8 border-t border-yt-spec-light-20 dark:border-yt-spec-20 pt-4">
-                    <h2 className="text-lg font-bold mb-4">{comments.length.toLocaleString()}件のコメント</h2>
-                    <div className="space-y-4">
-                        {comments.map(comment => (
-                            <CommentComponent key={comment.comment_id} comment={comment} />
-                        ))}
-                    </div>
+                    <CommentSection videoId={videoId} state={commentsState} onSeek={seekTo} compact />
                 </div>
             </div>
             
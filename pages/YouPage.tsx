@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 // FIX: Use named import for Link from react-router-dom
 import { Link } from 'react-router-dom';
 import { usePlaylist } from '../contexts/PlaylistContext';
-import { getVideosByIds } from '../utils/api';
+import { getVideosByIds, isAbortError } from '../utils/api';
 import type { Playlist } from '../types';
 import { PlaylistIcon, PlayIcon } from '../components/icons/Icons';
 
@@ -11,13 +11,14 @@ const YouPage: React.FC = () => {
     const [playlistThumbnails, setPlaylistThumbnails] = useState<Record<string, string>>({});
 
     useEffect(() => {
+        const controller = new AbortController();
         const fetchThumbnails = async () => {
             const videoIdsToFetch = playlists
                 .map(p => p.videoIds[0])
                 .filter((id): id is string => !!id);
             
             if (videoIdsToFetch.length > 0) {
-                const videos = await getVideosByIds(videoIdsToFetch);
+                const videos = await getVideosByIds(videoIdsToFetch, controller.signal);
                 const thumbnails: Record<string, string> = {};
                 const videoMap = new Map(videos.map(v => [v.id, v.thumbnailUrl]));
 
@@ -33,7 +34,10 @@ const YouPage: React.FC = () => {
             }
         };
 
-        fetchThumbnails();
+        fetchThumbnails().catch(err => {
+            if (!isAbortError(err)) console.error("Failed to fetch playlist thumbnails", err);
+        });
+        return () => controller.abort();
     }, [playlists]);
 
     return (
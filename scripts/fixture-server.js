@@ -0,0 +1,12 @@
+// オフライン開発用: 保存済みフィクスチャを返すAPIサーバーを起動する
+//   npm run fixtures:serve
+//   VITE_API_BASE_URL=http://localhost:3001 npm run dev
+// フィクスチャモードは api/_session.js の読み込み時に決まるため、app は動的に読み込む
+process.env.YT_FIXTURE_MODE ||= "replay";
+
+const { default: app } = await import("../api/index.js");
+const port = Number(process.env.PORT) || 3001;
+
+app.listen(port, () => {
+  console.log(`[fixtures] API server listening on http://localhost:${port} (${process.env.YT_FIXTURE_MODE})`);
+});
@@ -0,0 +1,42 @@
+// 実際の YouTube にアクセスし、各ルートが Innertube 経由で受け取った生の youtubei レスポンスを保存する
+//   npm run fixtures:record                       -> 既定のエンドポイント一式
+//   npm run fixtures:record -- "video?id=xxxx"    -> 指定したエンドポイントのみ
+// 保存されるのはルートの出力ではなく /youtubei/v1/* の JSON なので、再生時も api/index.js の変換を通る
+process.env.YT_FIXTURE_MODE = "record";
+
+const { default: app } = await import("../api/index.js");
+
+const SAMPLE_VIDEO_ID = "dQw4w9WgXcQ";
+const SAMPLE_CHANNEL_ID = "UCuAXFkgsw1L7xaCfnd5JJOw";
+
+const DEFAULT_TARGETS = [
+  "fvideo",
+  `video?id=${SAMPLE_VIDEO_ID}`,
+  `videos?ids=${SAMPLE_VIDEO_ID}`,
+  `comments?id=${SAMPLE_VIDEO_ID}&sort=top`,
+  "search?q=lofi",
+  `channel?id=${SAMPLE_CHANNEL_ID}`,
+  `shorts?id=${SAMPLE_CHANNEL_ID}`,
+  `channel-playlists?id=${SAMPLE_CHANNEL_ID}`,
+];
+
+const targets = process.argv.slice(2).length > 0 ? process.argv.slice(2) : DEFAULT_TARGETS;
+
+const server = app.listen(0);
+await new Promise((resolve) => server.once("listening", resolve));
+const { port } = server.address();
+
+let failures = 0;
+for (const target of targets) {
+  try {
+    const response = await fetch(`http://localhost:${port}/api/${target}`);
+    if (!response.ok) failures++;
+    console.log(`${response.ok ? "ok  " : "FAIL"} ${response.status} /api/${target}`);
+  } catch (err) {
+    failures++;
+    console.log(`FAIL /api/${target}: ${err.message}`);
+  }
+}
+
+server.close();
+process.exitCode = failures > 0 ? 1 : 0;
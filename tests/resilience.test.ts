@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, executeWithResilience, getCircuitSnapshot, resetCircuit } from '../utils/resilience';
+
+// ブレーカーの状態はモジュール単位で持っているので、テストごとに family を分けて最後に閉じる
+
+const BREAKER = { failureThreshold: 2, cooldownMs: 10_000 };
+const families: string[] = [];
+let familyCount = 0;
+
+const nextFamily = () => {
+    const family = `test-${++familyCount}`;
+    families.push(family);
+    return family;
+};
+
+const stateOf = (family: string) => getCircuitSnapshot()[family]?.state;
+
+const serverError = (retryAfterMs: number | null = null) => new ApiError('Server error', 503, retryAfterMs);
+
+// 失敗させてブレーカーを開く (リトライなし)
+const openCircuit = async (family: string) => {
+    for (let i = 0; i < BREAKER.failureThreshold; i++) {
+        await expect(executeWithResilience(() => Promise.reject(serverError()), { family, endpoint: family, retry: false, breaker: BREAKER }))
+            .rejects.toThrow('Server error');
+    }
+    expect(stateOf(family)).toBe('open');
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    families.splice(0).forEach(resetCircuit);
+});
+
+describe('circuit breaker', () => {
+    it('opens after consecutive failures and rejects without calling the request', async () => {
+        const family = nextFamily();
+        await openCircuit(family);
+
+        const request = vi.fn(() => Promise.resolve('ok'));
+        await expect(executeWithResilience(request, { family, endpoint: family, breaker: BREAKER }))
+            .rejects.toMatchObject({ isCircuitOpen: true, status: 503 });
+        expect(request).not.toHaveBeenCalled();
+    });
+
+    it('lets a single probe through when half-open and closes on success', async () => {
+        const family = nextFamily();
+        await openCircuit(family);
+        vi.advanceTimersByTime(BREAKER.cooldownMs);
+
+        let finishProbe: (value: string) => void = () => {};
+        const probe = executeWithResilience(() => new Promise<string>(resolve => { finishProbe = resolve; }), { family, endpoint: family, breaker: BREAKER });
+        expect(stateOf(family)).toBe('half-open');
+
+        const second = vi.fn(() => Promise.resolve('second'));
+        await expect(executeWithResilience(second, { family, endpoint: family, breaker: BREAKER }))
+            .rejects.toMatchObject({ isCircuitOpen: true });
+        expect(second).not.toHaveBeenCalled();
+
+        finishProbe('ok');
+        await expect(probe).resolves.toBe('ok');
+        expect(stateOf(family)).toBe('closed');
+    });
+
+    it('re-opens for another cooldown when the probe fails, without retrying it', async () => {
+        const family = nextFamily();
+        await openCircuit(family);
+        vi.advanceTimersByTime(BREAKER.cooldownMs);
+
+        const probe = vi.fn(() => Promise.reject(serverError()));
+        await expect(executeWithResilience(probe, { family, endpoint: family, breaker: BREAKER })).rejects.toThrow('Server error');
+        expect(probe).toHaveBeenCalledTimes(1);
+        expect(stateOf(family)).toBe('open');
+
+        vi.advanceTimersByTime(BREAKER.cooldownMs - 1);
+        await expect(executeWithResilience(() => Promise.resolve('ok'), { family, endpoint: family, breaker: BREAKER }))
+            .rejects.toMatchObject({ isCircuitOpen: true });
+    });
+
+    it('re-opens when the probe is aborted and lets the next request probe again', async () => {
+        const family = nextFamily();
+        await openCircuit(family);
+        vi.advanceTimersByTime(BREAKER.cooldownMs);
+
+        const aborted = () => Promise.reject(new DOMException('The operation was aborted.', 'AbortError'));
+        await expect(executeWithResilience(aborted, { family, endpoint: family, breaker: BREAKER })).rejects.toThrow('aborted');
+        expect(stateOf(family)).toBe('open');
+
+        // 中断はサーバーの失敗ではないので、待たずに次のリクエストが試せる
+        await expect(executeWithResilience(() => Promise.resolve('ok'), { family, endpoint: family, breaker: BREAKER })).resolves.toBe('ok');
+        expect(stateOf(family)).toBe('closed');
+    });
+});
+
+describe('Retry-After', () => {
+    it('waits for Retry-After instead of the jittered backoff when it is under the cap', async () => {
+        const family = nextFamily();
+        const request = vi.fn()
+            .mockRejectedValueOnce(serverError(8_000))
+            .mockResolvedValueOnce('ok');
+
+        const result = executeWithResilience(request, { family, endpoint: family, retry: { maxRetryAfterMs: 10_000 }, breaker: BREAKER });
+        await vi.advanceTimersByTimeAsync(7_999);
+        expect(request).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('ok');
+        expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails fast and keeps the circuit open until a Retry-After longer than the cap', async () => {
+        const family = nextFamily();
+        const request = vi.fn(() => Promise.reject(serverError(60_000)));
+
+        await expect(executeWithResilience(request, { family, endpoint: family, retry: { maxRetryAfterMs: 10_000 }, breaker: BREAKER }))
+            .rejects.toThrow('Server error');
+        expect(request).toHaveBeenCalledTimes(1);
+        expect(stateOf(family)).toBe('open');
+
+        // cooldownMs を過ぎても Retry-After までは開いたまま
+        vi.advanceTimersByTime(59_999);
+        const blocked = vi.fn(() => Promise.resolve('ok'));
+        await expect(executeWithResilience(blocked, { family, endpoint: family, breaker: BREAKER }))
+            .rejects.toMatchObject({ isCircuitOpen: true });
+        expect(blocked).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        await expect(executeWithResilience(() => Promise.resolve('ok'), { family, endpoint: family, breaker: BREAKER })).resolves.toBe('ok');
+    });
+});
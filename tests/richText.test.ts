@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { segmentPlainText, segmentRuns, unwrapRedirectUrl } from '../utils/richText';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+
+describe('unsafe links', () => {
+    it('renders a javascript: run as plain text', () => {
+        expect(segmentRuns([{ text: 'click me', url: 'javascript:alert(1)' }], VIDEO_ID)).toEqual([
+            { type: 'text', text: 'click me' },
+        ]);
+    });
+
+    it('renders a redirect that wraps a javascript: URL as plain text', () => {
+        const url = `https://www.youtube.com/redirect?event=video_description&q=${encodeURIComponent('javascript:alert(document.cookie)')}`;
+        expect(unwrapRedirectUrl(url)).toBe('javascript:alert(document.cookie)');
+        expect(segmentRuns([{ text: 'click me', url }], VIDEO_ID)).toEqual([
+            { type: 'text', text: 'click me' },
+        ]);
+    });
+
+    it('does not treat data: or vbscript: URLs as external links', () => {
+        expect(segmentRuns([
+            { text: 'a', url: 'data:text/html,<script>alert(1)</script>' },
+            { text: 'b', url: 'vbscript:msgbox(1)' },
+        ], VIDEO_ID)).toEqual([
+            { type: 'text', text: 'a' },
+            { type: 'text', text: 'b' },
+        ]);
+    });
+
+    it('unwraps redirects to safe external links', () => {
+        const url = `https://www.youtube.com/redirect?q=${encodeURIComponent('https://example.com/page?a=1')}`;
+        expect(segmentRuns([{ text: 'example.com/page', url }], VIDEO_ID)).toEqual([
+            { type: 'link', text: 'example.com/page', href: 'https://example.com/page?a=1' },
+        ]);
+    });
+});
+
+describe('timestamps', () => {
+    it('turns youtu.be and watch links to the same video with t= into seeks', () => {
+        expect(segmentRuns([
+            { text: '1:30', url: `https://youtu.be/${VIDEO_ID}?t=90` },
+            { text: 'サビ', url: `https://www.youtube.com/watch?v=${VIDEO_ID}&t=1m5s` },
+        ], VIDEO_ID)).toEqual([
+            { type: 'timestamp', text: '1:30', seconds: 90 },
+            { type: 'timestamp', text: 'サビ', seconds: 65 },
+        ]);
+    });
+
+    it('keeps t= links to other videos as internal watch links', () => {
+        expect(segmentPlainText('続き https://youtu.be/yPYZpwSpKmA?t=42 を見る', VIDEO_ID)).toEqual([
+            { type: 'text', text: '続き ' },
+            { type: 'internal', text: 'https://youtu.be/yPYZpwSpKmA?t=42', path: '/watch/yPYZpwSpKmA?t=42' },
+            { type: 'text', text: ' を見る' },
+        ]);
+    });
+
+    it('finds bare timestamps in plain text', () => {
+        expect(segmentPlainText('0:00 イントロ\n1:02:03 最後', VIDEO_ID)).toEqual([
+            { type: 'timestamp', text: '0:00', seconds: 0 },
+            { type: 'text', text: ' イントロ\n' },
+            { type: 'timestamp', text: '1:02:03', seconds: 3723 },
+            { type: 'text', text: ' 最後' },
+        ]);
+    });
+});
+
+describe('hashtags and mentions', () => {
+    it('links hashtags to a search and mentions to the channel', () => {
+        expect(segmentPlainText('#RickAstley と @RickAstleyYT へ', VIDEO_ID)).toEqual([
+            { type: 'internal', text: '#RickAstley', path: `/results?search_query=${encodeURIComponent('#RickAstley')}` },
+            { type: 'text', text: ' と ' },
+            { type: 'internal', text: '@RickAstleyYT', path: '/channel/@RickAstleyYT' },
+            { type: 'text', text: ' へ' },
+        ]);
+    });
+
+    it('does not treat e-mail addresses or HTML entities as mentions or hashtags', () => {
+        expect(segmentPlainText('mail@example.com と a&#39;b', VIDEO_ID)).toEqual([
+            { type: 'text', text: 'mail@example.com と a&#39;b' },
+        ]);
+    });
+
+    it('maps hashtag and handle links in runs to app routes', () => {
+        expect(segmentRuns([
+            { text: '#lofi', url: '/hashtag/lofi' },
+            { text: '@LofiGirl', url: '/@LofiGirl' },
+        ], VIDEO_ID)).toEqual([
+            { type: 'internal', text: '#lofi', path: `/results?search_query=${encodeURIComponent('#lofi')}` },
+            { type: 'internal', text: '@LofiGirl', path: '/channel/@LofiGirl' },
+        ]);
+    });
+});
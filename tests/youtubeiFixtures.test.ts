@@ -0,0 +1,230 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Video } from '../types';
+
+// fixtures/youtubei/ の youtubei レスポンスを api/index.js に再生させ、
+// サーバーのルート → utils/api (youtubeiParsers) まで通した結果の形を確かめる。ネットワークには出ない。
+//
+// 注意: 今のフィクスチャは録画したものではなく、innertube の形式に合わせて手で組み立てた合成データ。
+// YouTube が実際に返す形とずれていても気付けないので、`npm run fixtures:record` で録画し直したら期待値も合わせること。
+// youtubei.js 9.4 には shortsLockupViewModel のクラスが無く、ショートタブの再生時に
+// "ShortsLockupView not found!" を出して実行時にクラスを生成する (実際のレスポンスでも同じ)。
+
+let server: Server;
+let api: typeof import('../utils/api');
+
+beforeAll(async () => {
+    process.env.YT_FIXTURE_MODE = 'replay';
+    const { default: app } = await import('../api/index.js');
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // API_BASE_URL はモジュールの読み込み時に決まるので、環境変数を差し替えてから読み込む
+    vi.stubEnv('VITE_API_BASE_URL', `http://localhost:${port}`);
+    api = await import('../utils/api');
+});
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server?.close(resolve));
+});
+
+const expectVideoShape = (video: Video) => {
+    expect(video.id).toMatch(/^[\w-]{11}$/);
+    expect(video.title).not.toBe('');
+    expect(video.thumbnailUrl).toMatch(/^https:\/\/i\.ytimg\.com\/vi\//);
+    expect(video.duration).toMatch(/^(\d+:)?\d{1,2}:\d{2}$|^$/);
+    expect(video.isoDuration).toMatch(/^PT\d+S$/);
+    expect(video.channelName).not.toBe('');
+    expect(video.channelId).toMatch(/^UC[\w-]{22}$/);
+    expect(typeof video.views).toBe('string');
+    expect(typeof video.uploadedAt).toBe('string');
+};
+
+describe('getVideoDetails', () => {
+    it('maps the player and next responses to VideoDetails', async () => {
+        const details = await api.serverProvider.getVideoDetails('dQw4w9WgXcQ');
+
+        expect(details).toMatchObject({
+            id: 'dQw4w9WgXcQ',
+            title: 'Rick Astley - Never Gonna Give You Up (Official Music Video)',
+            duration: '3:33',
+            isoDuration: 'PT213S',
+            channelId: 'UCuAXFkgsw1L7xaCfnd5JJOw',
+            channelName: 'Rick Astley',
+            channel: {
+                id: 'UCuAXFkgsw1L7xaCfnd5JJOw',
+                name: 'Rick Astley',
+                subscriberCount: 'チャンネル登録者数 420万人',
+            },
+            dislikes: '0',
+        });
+        expect(details.views).toContain('1,612,345,678');
+        expect(details.likes).not.toBe('0');
+        expect(details.channelAvatarUrl).toMatch(/^https:\/\/yt3\.ggpht\.com\//);
+        expect(details.thumbnailUrl).toContain('/vi_webp/dQw4w9WgXcQ/maxresdefault.webp');
+        expect(details.description).toContain('Never Gonna Give You Up');
+        expect(details.descriptionRuns?.some(run => run.url?.includes('RickAstley.lnk.to'))).toBe(true);
+        expect(details.collaborators).toBeUndefined();
+        expect(details.chapters).toEqual([]);
+    });
+
+    it('follows the watch-next continuation and drops duplicate related videos', async () => {
+        const details = await api.serverProvider.getVideoDetails('dQw4w9WgXcQ');
+
+        expect(details.relatedVideos.map(video => video.id)).toEqual(['yPYZpwSpKmA', 'pxw-5qfJ1dk', 'djV11Xbc914', 'BeyEGebJ1l4']);
+        details.relatedVideos.forEach(expectVideoShape);
+        expect(details.relatedVideos[1]).toMatchObject({
+            title: 'Wham! - Last Christmas (Official Video)',
+            channelName: 'Wham!',
+            duration: '4:40',
+            isoDuration: 'PT280S',
+        });
+    });
+
+    it('reads collaborators from the owner dialog and chapters from the player bar markers', async () => {
+        const details = await api.serverProvider.getVideoDetails('kZ4Sp8q1Hbw');
+
+        expect(details.collaborators).toEqual([
+            {
+                id: 'UC7rPtFVgQn7yHy-aJQx_f0A',
+                name: 'Aimer Official YouTube Channel',
+                avatarUrl: expect.stringMatching(/^https:\/\/yt3\.ggpht\.com\//),
+                subscriberCount: '512万人',
+            },
+            {
+                id: 'UCaOpIU_cbcfXydfl2LTpD0Q',
+                name: '幾田りら / Lilas Ikuta',
+                avatarUrl: expect.stringMatching(/^https:\/\/yt3\.ggpht\.com\//),
+                subscriberCount: '145万人',
+            },
+        ]);
+        expect(details.channelId).toBe('UC7rPtFVgQn7yHy-aJQx_f0A');
+        expect(details.channelName).toBe('Aimer Official YouTube Channel');
+        expect(details.chapters).toEqual([
+            { title: 'イントロ', start: 0 },
+            { title: '1番', start: 21 },
+            { title: 'サビ', start: 108 },
+            { title: 'アウトロ', start: 185 },
+        ]);
+        details.relatedVideos.forEach(expectVideoShape);
+    });
+});
+
+describe('search', () => {
+    it('maps videos, reel items and channels from the search response', async () => {
+        const results = await api.serverProvider.search('lofi', '1', {});
+
+        // youtubei.js の search.videos はレンダラーの種類ごとにまとまるので、ショートは通常の動画の後に並ぶ
+        expect(results.videos.map(video => video.id)).toEqual(['jfKfPfyJRdk', 'lTRiuFIWV54', '7NOSDKb0HlU', 'n61ULEU7CO0', '2xGQ9hQ3dLw']);
+        expect(results.videos[1]).toMatchObject({
+            title: '1 A.M Study Session 📚 - [lofi hip hop/chill beats]',
+            channelName: 'Lofi Girl',
+            channelId: 'UCSJ4gkVC6NrvII8umztf0Ow',
+            duration: '1:00:33',
+            isoDuration: 'PT3633S',
+            descriptionSnippet: 'Study with me: lofi hip hop beats to relax, study and chill.',
+        });
+        expect(results.videos[1].channelAvatarUrl).toMatch(/^https:\/\/yt3\.ggpht\.com\//);
+        expect(results.videos[1].views).toContain('9,713万');
+        expect(results.videos[3]).toMatchObject({ id: 'n61ULEU7CO0', title: 'lofi study session #lofi #study' });
+
+        expect(results.channels).toEqual([
+            expect.objectContaining({
+                id: 'UCSJ4gkVC6NrvII8umztf0Ow',
+                name: 'Lofi Girl',
+                // channelRenderer のアイコンはプロトコル相対 URL で返ってくる
+                avatarUrl: expect.stringMatching(/^(https:)?\/\/yt3\.googleusercontent\.com\//),
+            }),
+        ]);
+        expect(results.channels[0].subscriberCount).toContain('1450万');
+        expect(results.nextPageToken).toEqual(expect.any(String));
+    });
+});
+
+describe('getComments', () => {
+    it('maps comment threads to Comment', async () => {
+        const page = await api.serverProvider.getComments('dQw4w9WgXcQ', '1', 'top');
+
+        expect(page.comments).toHaveLength(3);
+        expect(page.comments[0]).toEqual({
+            comment_id: 'UgzuhiG1G4xaz6zi3AJ4AaABAg',
+            text: 'Thank you for 1.5 billion views! ❤️ https://RickAstley.lnk.to/AreWeThereYetFA',
+            published_time: '3 か月前',
+            author: {
+                id: 'UCuAXFkgsw1L7xaCfnd5JJOw',
+                name: '@RickAstleyYT',
+                thumbnails: expect.arrayContaining([expect.objectContaining({ url: expect.stringMatching(/^https:\/\/yt3\.ggpht\.com\//) })]),
+            },
+            like_count: '9.1万',
+            reply_count: '1234',
+            is_pinned: true,
+            is_hearted: true,
+            author_is_channel_owner: true,
+            replies_token: expect.any(String),
+        });
+        expect(page.comments[1]).toMatchObject({ is_pinned: false, is_hearted: true, author_is_channel_owner: false, replies_token: expect.any(String) });
+        expect(page.comments[2]).toMatchObject({ text: '2024年になってもまだ聴いてる人 👍', like_count: '345', is_hearted: false });
+        expect(page.comments[2].replies_token).toBeUndefined();
+        expect(page.nextPageToken).toEqual(expect.any(String));
+    });
+});
+
+describe('getCaptions', () => {
+    it('picks the Japanese track and maps the timedtext events to cues', async () => {
+        const captions = await api.getCaptions('dQw4w9WgXcQ');
+
+        expect(captions.tracks).toEqual([
+            { id: 'a.en', languageCode: 'en', name: '英語 (自動生成)', isAutoGenerated: true },
+            { id: '.ja', languageCode: 'ja', name: '日本語', isAutoGenerated: false },
+        ]);
+        expect(captions.track?.id).toBe('.ja');
+        // 本文の無いイベントと改行だけのイベントは落とし、途中の改行は空白にする
+        expect(captions.cues).toEqual([
+            { start: 18.8, end: 21.9, text: '♪ 僕たちは恋の初心者じゃない ♪' },
+            { start: 22, end: 26.2, text: '♪ ルールは知ってるよね 僕もさ ♪' },
+            { start: 43, end: 46, text: '♪ 絶対に君をあきらめない ♪' },
+        ]);
+    });
+});
+
+describe('channel', () => {
+    it('maps the channel page to ChannelDetails', async () => {
+        const details = await api.serverProvider.getChannelDetails('UCuAXFkgsw1L7xaCfnd5JJOw');
+
+        expect(details).toMatchObject({
+            id: 'UCuAXFkgsw1L7xaCfnd5JJOw',
+            name: 'Rick Astley',
+            description: "Rick Astley's official YouTube channel. The new album 'Are We There Yet?' is out now.",
+        });
+        expect(details.avatarUrl).toMatch(/^https:\/\/yt3\.ggpht\.com\//);
+        expect(details.bannerUrl).toMatch(/^https:\/\/yt3\.googleusercontent\.com\//);
+    });
+
+    it('maps the videos tab and overrides the channel fields', async () => {
+        const page = await api.serverProvider.getChannelVideos('UCuAXFkgsw1L7xaCfnd5JJOw', '1');
+
+        expect(page.videos.map(video => video.id)).toEqual(['kL5_tpQ5cq8', 'kgUV1MaD_M8', 'dQw4w9WgXcQ']);
+        page.videos.forEach(expectVideoShape);
+        expect(page.videos[1]).toMatchObject({
+            title: 'Rick Astley - Live at Glastonbury 2023',
+            channelName: 'Rick Astley',
+            channelId: 'UCuAXFkgsw1L7xaCfnd5JJOw',
+            duration: '1:02:37',
+            isoDuration: 'PT3757S',
+        });
+        expect(page.videos[1].channelAvatarUrl).toMatch(/^https:\/\/yt3\.ggpht\.com\//);
+        expect(page.nextPageToken).toEqual(expect.any(String));
+    });
+
+    it('maps the shorts tab lockups to Video', async () => {
+        const { videos } = await api.getChannelShorts('UCuAXFkgsw1L7xaCfnd5JJOw');
+
+        expect(videos.map(video => video.id)).toEqual(['Xr1xG5aM4sE', 'qT8d0qF0n3c']);
+        expect(videos[0].title).toBe('Never Gonna Give You Up on a ukulele 🎶');
+        expect(videos[0].thumbnailUrl).toMatch(/^https:\/\/i\.ytimg\.com\/vi\/Xr1xG5aM4sE\//);
+        expect(videos[0].views).toContain('120万');
+    });
+});
@@ -28,12 +28,28 @@ export interface Channel {
   badges?: ChannelBadge[];
 }
 
+// youtubei のテキストラン。url はリンク・ハッシュタグ・メンション・タイムスタンプの遷移先
+export interface RichTextRun {
+  text: string;
+  url?: string;
+  bold?: boolean;
+  italics?: boolean;
+}
+
+// start は秒単位
+export interface Chapter {
+  title: string;
+  start: number;
+}
+
 export interface VideoDetails extends Video {
-  description: string;
+  description: string; // プレーンテキスト (HTML ではない)
+  descriptionRuns?: RichTextRun[];
   likes: string;
   dislikes: string;
   channel: Channel;
   relatedVideos: Video[];
+  chapters: Chapter[];
 }
 
 export interface ChannelDetails {
@@ -103,6 +119,42 @@ export interface Comment {
   like_count: string;
   reply_count: string;
   is_pinned: boolean;
+  is_hearted: boolean; // 投稿者のハート
+  author_is_channel_owner: boolean;
+  replies_token?: string; // 返信の1ページ目を取得する継続トークン
+}
+
+export type CommentSort = 'top' | 'newest';
+
+export interface CaptionTrack {
+  id: string; // youtubei の vss_id (".ja", "a.en" など)
+  languageCode: string;
+  name: string;
+  isAutoGenerated: boolean;
+}
+
+// 秒単位
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CaptionsData {
+  tracks: CaptionTrack[];
+  track: CaptionTrack | null;
+  cues: CaptionCue[];
+}
+
+export interface CommentsPage {
+  comments: Comment[];
+  totalCount?: string;
+  nextPageToken?: string;
+}
+
+export interface CommentRepliesPage {
+  replies: Comment[];
+  nextPageToken?: string;
 }
 
 export interface SearchResults {
@@ -113,6 +165,21 @@ export interface SearchResults {
     nextPageToken?: string;
 }
 
+// youtubei の SearchFilters と同じ値を使う。'all' / 'relevance' は未指定と同じ扱い
+export type SearchUploadDate = 'all' | 'hour' | 'today' | 'week' | 'month' | 'year';
+export type SearchType = 'all' | 'video' | 'channel' | 'playlist' | 'movie';
+export type SearchDuration = 'all' | 'short' | 'medium' | 'long';
+export type SearchSortBy = 'relevance' | 'rating' | 'upload_date' | 'view_count';
+export type SearchFeature = 'live' | '4k' | 'hd' | 'hdr' | 'subtitles' | 'creative_commons' | '360' | 'vr180' | '3d' | 'location' | 'purchased';
+
+export interface SearchFilters {
+    uploadDate?: SearchUploadDate;
+    type?: SearchType;
+    duration?: SearchDuration;
+    sortBy?: SearchSortBy;
+    features?: SearchFeature[];
+}
+
 export interface HomeVideo {
     videoId: string;
     title: string;
@@ -157,4 +224,12 @@ export interface StreamData {
         video: StreamFormat;
         audio: StreamFormat | null;
     } | null;
-}
\ No newline at end of file
+}
+// 動画ごとの視聴位置 (秒)。続きから再生と視聴済みバーに使う
+export interface WatchProgress {
+    position: number;
+    duration: number;
+    // 一番先まで見た割合 (0〜1)。ショートのループで position が戻っても完了度を失わないように別に持つ
+    maxRatio: number;
+    updatedAt: number;
+}
@@ -1,252 +1,154 @@
-import type { Video, VideoDetails, Channel, ChannelDetails, ApiPlaylist, Comment, PlaylistDetails, SearchResults, HomeVideo, HomePlaylist, ChannelHomeData } from '../types';
-import dayjs from 'dayjs';
-import 'dayjs/locale/ja';
-import relativeTime from 'dayjs/plugin/relativeTime';
+import type { Video, VideoDetails, Channel, ChannelDetails, ApiPlaylist, Comment, CommentsPage, CommentRepliesPage, CommentSort, CaptionsData, PlaylistDetails, SearchResults, SearchFilters, HomeVideo, HomePlaylist, ChannelHomeData } from '../types';
+import { formatJapaneseNumber, formatJapaneseDate, formatDuration } from './format';
+import { cache } from './cache';
+import { runWithFailover, type DataProvider, type StreamData, type ChannelVideosPage } from './providers';
+import { withStaleWhileRevalidate, isStale, storeFresh } from './revalidation';
+import { parseVideoItem, parseChannelItem, parseShortsLockupView, readTextRuns } from './youtubeiParsers';
+import { recordFallback } from './mappingDiagnostics';
+import { toSearchFilterEntries } from './searchFilters';
+import { parseChaptersFromDescription } from './chapters';
+import { ApiError, executeWithResilience, parseRetryAfter, type RetryOptions, type BreakerOptions } from './resilience';
 
-// Day.jsの日本語化と相対時間プラグインの有効化
-dayjs.extend(relativeTime);
-dayjs.locale('ja');
+// --- HELPER FUNCTIONS ---
+// 表示用フォーマッターは各プロバイダーからも使うため format.ts に置いている
+export { formatJapaneseNumber, formatJapaneseDate, formatDuration, parseDuration } from './format';
 
-// --- CACHING LOGIC ---
-const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+// --- API FETCHER & PLAYER CONFIG ---
 
-interface CacheItem {
-    data: any;
-    expiry: number;
-}
+// VITE_API_BASE_URL でAPIサーバーを差し替えられる（例: npm run fixtures:serve のオフライン再生サーバー）
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/+$/, '');
 
-const cache = {
-    get: (key: string): any | null => {
-        try {
-            const itemStr = localStorage.getItem(key);
-            if (!itemStr) return null;
-            const item: CacheItem = JSON.parse(itemStr);
-            if (new Date().getTime() > item.expiry) {
-                localStorage.removeItem(key);
-                return null;
-            }
-            return item.data;
-        } catch (error) {
-            console.error(`Cache read error for key "${key}":`, error);
-            return null;
-        }
-    },
-    set: (key: string, value: any, ttl: number = CACHE_TTL): void => {
-        try {
-            if (value === undefined) return;
-            const item: CacheItem = { data: value, expiry: new Date().getTime() + ttl };
-            localStorage.setItem(key, JSON.stringify(item));
-        } catch (error) {
-            console.error(`Cache write error for key "${key}":`, error);
-        }
-    },
+const requestJson = async (endpoint: string, signal: AbortSignal) => {
+    const response = await fetch(`${API_BASE_URL}/api/${endpoint}`, { signal });
+    const text = await response.text();
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    let data;
+    try {
+        data = text ? JSON.parse(text) : {};
+    } catch (e) {
+        console.error("Failed to parse JSON response from endpoint:", endpoint, "Response text:", text);
+        // Treat an unparsable body like a transient failure (status 0) unless the server said otherwise
+        throw new ApiError(`Server returned a non-JSON response for endpoint: ${endpoint}`, response.ok ? 0 : response.status, retryAfterMs);
+    }
+    if (!response.ok) {
+        throw new ApiError(data.error || `Request failed for ${endpoint} with status ${response.status}`, response.status, retryAfterMs);
+    }
+    return data;
 };
 
+// "channel?id=..." -> "channel", "stream/abc" -> "stream"
+const getEndpointFamily = (endpoint: string) => endpoint.split(/[?/]/)[0];
 
-// --- HELPER FUNCTIONS ---
+interface ApiFetchOptions {
+    retry?: Partial<RetryOptions> | false;
+    breaker?: Partial<BreakerOptions> | false;
+}
 
-export const formatJapaneseNumber = (raw: number | string): string => {
-  const num = typeof raw === 'string' ? parseInt(raw.replace(/,/g, ''), 10) : raw;
-  if (isNaN(num)) return '0';
-  if (num >= 100000000) return `${(num / 100000000).toFixed(1).replace('.0', '')}億`;
-  if (num >= 10000) return `${(num / 10000).toFixed(1).replace('.0', '')}万`;
-  return num.toLocaleString();
-};
+// --- IN-FLIGHT REQUEST COALESCING ---
+// 同じエンドポイントへの同時リクエストは1つのfetchを共有する。
+// 呼び出し元が全員中断した場合のみ、実際のfetchを中断する。
+// リトライ・ブレーカーの設定が違う呼び出しは別のリクエストとして扱う (先に始まった側の設定に揃えない)。
 
-export const formatJapaneseDate = (dateText: string): string => {
-  if (!dateText) return '';
-  if (!dateText.includes('ago')) {
-    return dateText;
-  }
-  const match = dateText.match(/(\d+)\s+(year|month|week|day|hour|minute|second)s?/);
-  if (match) {
-    const num = parseInt(match[1], 10);
-    const unit = match[2] as 'year'|'month'|'day'|'hour'|'minute'|'second';
-    return dayjs().subtract(num, unit).fromNow();
-  }
-  return dateText;
+interface InFlightRequest {
+    promise: Promise<any>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+const getRequestKey = (endpoint: string, options: ApiFetchOptions) => {
+    if (options.retry === undefined && options.breaker === undefined) return endpoint;
+    return `${endpoint}#${JSON.stringify({ retry: options.retry, breaker: options.breaker })}`;
 };
 
-export const formatDuration = (totalSeconds: number): string => {
-  if (isNaN(totalSeconds) || totalSeconds < 0) return "0:00";
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  if (hours > 0) return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
-  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => {
+    return error instanceof DOMException && error.name === 'AbortError';
 };
 
-export const parseDuration = (iso: string, text: string): number => {
-    if (iso) {
-        const matches = iso.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-        if (matches) {
-            const h = parseInt(matches[1] || '0', 10);
-            const m = parseInt(matches[2] || '0', 10);
-            const s = parseInt(matches[3] || '0', 10);
-            return h * 3600 + m * 60 + s;
-        }
+const apiFetch = (endpoint: string, signal?: AbortSignal, options: ApiFetchOptions = {}): Promise<any> => {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const requestKey = getRequestKey(endpoint, options);
+    let entry = inFlightRequests.get(requestKey);
+    if (!entry) {
+        const controller = new AbortController();
+        const request = executeWithResilience(() => requestJson(endpoint, controller.signal), {
+            family: getEndpointFamily(endpoint),
+            endpoint,
+            signal: controller.signal,
+            retry: options.retry,
+            breaker: options.breaker,
+        });
+        const newEntry: InFlightRequest = {
+            controller,
+            subscribers: 0,
+            promise: request.finally(() => {
+                if (inFlightRequests.get(requestKey) === newEntry) inFlightRequests.delete(requestKey);
+            }),
+        };
+        inFlightRequests.set(requestKey, newEntry);
+        entry = newEntry;
     }
-    if (text) {
-         const parts = text.split(':').map(p => parseInt(p, 10));
-         if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
-         if (parts.length === 2) return parts[0] * 60 + parts[1];
-         if (parts.length === 1) return parts[0];
-    }
-    return 0;
-}
 
-// --- API FETCHER & PLAYER CONFIG ---
+    const shared = entry;
+    shared.subscribers++;
 
-const apiFetch = async (endpoint: string) => {
-    const response = await fetch(`/api/${endpoint}`);
-    const text = await response.text();
-    let data;
-    try {
-        data = text ? JSON.parse(text) : {};
-    } catch (e) {
-        console.error("Failed to parse JSON response from endpoint:", endpoint, "Response text:", text);
-        throw new Error(`Server returned a non-JSON response for endpoint: ${endpoint}`);
-    }
-    if (!response.ok) {
-        throw new Error(data.error || `Request failed for ${endpoint} with status ${response.status}`);
-    }
-    return data;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            shared.subscribers--;
+            if (shared.subscribers <= 0) {
+                if (inFlightRequests.get(requestKey) === shared) inFlightRequests.delete(requestKey);
+                shared.controller.abort();
+            }
+            reject(createAbortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        shared.promise.then(
+            data => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(data);
+            },
+            error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
 };
 
 let playerConfigParams: string | null = null;
-export async function getPlayerConfig(): Promise<string> {
-    if (playerConfigParams) return playerConfigParams;
+export async function getPlayerConfig(signal?: AbortSignal): Promise<string> {
+    if (playerConfigParams) {
+        signal?.throwIfAborted();
+        return playerConfigParams;
+    }
     try {
-        const response = await fetch('https://raw.githubusercontent.com/siawaseok3/wakame/master/video_config.json');
+        const response = await fetch('https://raw.githubusercontent.com/siawaseok3/wakame/master/video_config.json', { signal });
         const config = await response.json();
         const decodedParams = (config.params || '').replace(/&amp;/g, '&');
         playerConfigParams = decodedParams;
         return playerConfigParams;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Error fetching player config:", error);
         return '?autoplay=1&rel=0';
     }
 }
 
 // --- DATA MAPPING HELPERS ---
-export const mapYoutubeiVideoToVideo = (item: any): Video | null => {
-    if (!item) return null;
-
-    // Use a chain of possible ID fields
-    const videoId = item.id || item.videoId || item.content_id;
-    if (!videoId || typeof videoId !== 'string') return null;
-
-    // --- Title ---
-    const title = item.title?.text ?? 
-                  item.title?.simpleText ?? 
-                  item.metadata?.title?.text ?? 
-                  item.title ?? 
-                  '無題の動画';
-
-    // --- Thumbnails ---
-    const thumbs = item.thumbnails || item.thumbnail || item.content_image;
-    let thumbnailUrl = `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`; // Fallback
-    if (Array.isArray(thumbs) && thumbs.length > 0) {
-        thumbnailUrl = thumbs[0].url;
-    } else if (thumbs?.url) {
-        thumbnailUrl = thumbs.url;
-    }
-    if (thumbnailUrl) thumbnailUrl = thumbnailUrl.split('?')[0];
-
-    // --- Duration ---
-    // Handle overlays from different item types
-    const durationOverlay = (item.thumbnail_overlays || []).find((o: any) => o.type === 'ThumbnailOverlayTimeStatus');
-    const duration = item.duration?.text ?? 
-                     item.length?.simpleText ?? 
-                     durationOverlay?.text ?? 
-                     '';
-    const isoDuration = `PT${item.duration?.seconds ?? 0}S`;
-
-    // --- Views & Date ---
-    let views = '視聴回数不明';
-    let uploadedAt = '';
-
-    // Standard path (CompactVideo, etc.)
-    if (item.view_count?.text || item.short_view_count?.text) {
-        views = item.view_count.text ?? item.short_view_count.text;
-    } else if (item.views?.text) {
-        views = item.views.text; // ReelItem
-    }
-    uploadedAt = item.published?.text ?? '';
-
-    // LockupView path
-    const metadata_rows = item.metadata?.metadata?.metadata_rows;
-    if (Array.isArray(metadata_rows) && metadata_rows.length > 1) {
-        // Example: [{"metadata_parts": [{"text": "oricon"}]}, {"metadata_parts": [{"text": "22万 回視聴"}, {"text": "8 年前"}]}]
-        if (metadata_rows[1]?.metadata_parts?.[0]?.text?.text) {
-            views = metadata_rows[1].metadata_parts[0].text.text;
-        }
-        if (metadata_rows[1]?.metadata_parts?.[1]?.text?.text) {
-            uploadedAt = metadata_rows[1].metadata_parts[1].text.text;
-        }
-    }
-
-    // --- Channel Info ---
-    const author = item.author || item.channel;
-    let channelName = author?.name ?? '不明なチャンネル';
-    let channelId = author?.id ?? '';
-    let channelAvatarUrl = author?.thumbnails?.[0]?.url ?? '';
-
-    // LockupView path for channel name
-    if (Array.isArray(metadata_rows) && metadata_rows.length > 0) {
-        if (metadata_rows[0]?.metadata_parts?.[0]?.text?.text) {
-            channelName = metadata_rows[0].metadata_parts[0].text.text;
-        }
-    }
-
-    // --- Description ---
-    const descriptionSnippet = item.description_snippet?.text ?? '';
-
-    return {
-        id: videoId,
-        thumbnailUrl: thumbnailUrl,
-        duration: duration,
-        isoDuration: isoDuration,
-        title: title,
-        channelName: channelName,
-        channelId: channelId,
-        channelAvatarUrl: channelAvatarUrl,
-        views: views,
-        uploadedAt: formatJapaneseDate(uploadedAt),
-        descriptionSnippet: descriptionSnippet,
-    };
+// Renderer-specific parsing and fallback diagnostics live in youtubeiParsers.ts.
+// `mapper` names the call site so the diagnostics panel can show which feed degraded.
+export const mapYoutubeiVideoToVideo = (item: any, mapper: string = 'video'): Video | null => {
+    const video = parseVideoItem(item, mapper);
+    if (!video) return null;
+    return { ...video, uploadedAt: formatJapaneseDate(video.uploadedAt) };
 };
 
-const mapYoutubeiChannelToChannel = (item: any): Channel | null => {
-    if(!item?.id) return null;
-    
-    // Robust avatar extraction
-    let thumbnails = item.thumbnails || item.author?.thumbnails || item.avatar || [];
-    
-    // Some API responses put the avatar directly in a 'thumbnail' property (singular)
-    if (!Array.isArray(thumbnails) && typeof thumbnails === 'object' && thumbnails.url) {
-        thumbnails = [thumbnails];
-    }
-
-    let avatarUrl = '';
-    if (Array.isArray(thumbnails) && thumbnails.length > 0) {
-        // Usually the last one is highest quality, but let's check
-        const bestThumb = thumbnails[0]; 
-        avatarUrl = bestThumb.url;
-        // Clean up URL parameters
-        if (avatarUrl) avatarUrl = avatarUrl.split('?')[0];
-    }
-    
-    if (!avatarUrl) {
-        avatarUrl = 'https://www.gstatic.com/youtube/img/creator/avatar/default_64.svg';
-    }
-
-    return {
-        id: item.id,
-        name: item.name || item.author?.name || item.title?.text || 'No Name',
-        avatarUrl: avatarUrl,
-        subscriberCount: item.subscriber_count?.text || item.video_count?.text || ''
-    };
+const mapYoutubeiChannelToChannel = (item: any, mapper: string = 'channel'): Channel | null => {
+    return parseChannelItem(item, mapper);
 }
 
 const mapYoutubeiPlaylistToPlaylist = (item: any): ApiPlaylist | null => {
@@ -267,22 +169,26 @@ export interface StreamUrls {
     audio_url?: string;
 }
   
-export async function getStreamUrls(videoId: string): Promise<StreamUrls> {
+export async function getStreamUrls(videoId: string, signal?: AbortSignal): Promise<StreamUrls> {
     // FIX: Using correct path param instead of query
-    return await apiFetch(`stream/${videoId}`);
+    return await apiFetch(`stream/${videoId}`, signal);
+}
+
+async function fetchStreamData(videoId: string, signal?: AbortSignal): Promise<StreamData> {
+    // The upstream stream host is slow, so retry only once before giving up
+    return await apiFetch(`stream/${videoId}`, signal, { retry: { retries: 1 } });
 }
 
-export async function getRawStreamData(videoId: string): Promise<any> {
+export async function getRawStreamData(videoId: string, signal?: AbortSignal): Promise<any> {
     // Enable caching for stream data to save bandwidth, but with shorter TTL (1 hour)
     // as streaming links often expire in 6 hours.
-    const cacheKey = `stream-data-${videoId}`;
-    const cached = cache.get(cacheKey);
+    const cached = await cache.get('stream-data', videoId);
     if (cached) return cached;
 
-    const data = await apiFetch(`stream/${videoId}`);
+    const data = await runWithFailover(serverProvider, 'getStreamData', provider => provider.getStreamData(videoId, signal));
     
-    // Cache for 1 hour
-    cache.set(cacheKey, data, 60 * 60 * 1000);
+    // 'stream-data' namespace is cached for 1 hour
+    await cache.set('stream-data', videoId, data);
     return data;
 }
 
@@ -304,54 +210,60 @@ export const mapHomeVideoToVideo = (homeVideo: HomeVideo, channelData?: Partial<
     };
 };
 
-export async function getChannelHome(channelId: string): Promise<ChannelHomeData> {
-    const cacheKey = `channel-home-${channelId}`;
-    const cachedData = cache.get(cacheKey);
-    if (cachedData) return Promise.resolve(cachedData);
+// 外部 API は CORS やブロックで落ちやすいので、常にサーバー経由 (リトライ・ブレーカー付き) で取得する
+function fetchChannelHome(channelId: string, signal?: AbortSignal): Promise<ChannelHomeData> {
+    return apiFetch(`channel-home-proxy?id=${channelId}`, signal);
+}
 
-    const useProxy = localStorage.getItem('useChannelHomeProxy') !== 'false';
-    
-    let data;
-    if (useProxy) {
-        data = await apiFetch(`channel-home-proxy?id=${channelId}`);
-    } else {
-        const response = await fetch(`https://siawaseok.duckdns.org/api/channel/${channelId}`);
-        if (!response.ok) {
-            throw new Error(`Failed to fetch channel home data: ${response.status}`);
-        }
-        data = await response.json();
-    }
-    cache.set(cacheKey, data);
-    return data;
+export function getChannelHome(channelId: string, signal?: AbortSignal): Promise<ChannelHomeData> {
+    return withStaleWhileRevalidate('channel-home', channelId, s => fetchChannelHome(channelId, s), signal);
 }
 
 // --- EXPORTED API FUNCTIONS ---
 
-export async function getRecommendedVideos(): Promise<{ videos: Video[] }> {
-    const data = await apiFetch('fvideo');
-    const videos = data.videos?.map(mapYoutubeiVideoToVideo).filter((v): v is Video => v !== null) ?? [];
+export async function getRecommendedVideos(signal?: AbortSignal): Promise<{ videos: Video[] }> {
+    const data = await apiFetch('fvideo', signal);
+    const videos = data.videos?.map((item: any) => mapYoutubeiVideoToVideo(item, 'homeFeed')).filter((v): v is Video => v !== null) ?? [];
     return { videos };
 }
 
-// Updated searchVideos to accept page token and return filtered results
-export async function searchVideos(query: string, pageToken = '1', channelId?: string): Promise<SearchResults> {
-    const data = await apiFetch(`search?q=${encodeURIComponent(query)}&page=${pageToken}`);
+// サーバーの次ページトークンは不透明な continuation。'1' は最初のページを表す
+const continuationParam = (pageToken: string) => pageToken && pageToken !== '1' ? `&continuation=${encodeURIComponent(pageToken)}` : '';
+
+// 継続トークンに条件が含まれているので、フィルターは1ページ目のリクエストにだけ付ける
+const searchFilterParam = (pageToken: string, filters: SearchFilters) => {
+    if (pageToken && pageToken !== '1') return '';
+    return toSearchFilterEntries(filters).map(([key, value]) => `&${key}=${encodeURIComponent(value)}`).join('');
+};
+
+async function fetchSearchResults(query: string, pageToken: string, filters: SearchFilters, signal?: AbortSignal): Promise<SearchResults> {
+    const data = await apiFetch(`search?q=${encodeURIComponent(query)}${continuationParam(pageToken)}${searchFilterParam(pageToken, filters)}`, signal);
     
-    const videos: Video[] = Array.isArray(data.videos) ? data.videos.map(mapYoutubeiVideoToVideo).filter((v): v is Video => v !== null) : [];
-    const shorts: Video[] = Array.isArray(data.shorts) ? data.shorts.map(mapYoutubeiVideoToVideo).filter((v): v is Video => v !== null) : [];
-    const channels: Channel[] = Array.isArray(data.channels) ? data.channels.map(mapYoutubeiChannelToChannel).filter((c): c is Channel => c !== null) : [];
+    const videos: Video[] = Array.isArray(data.videos) ? data.videos.map((item: any) => mapYoutubeiVideoToVideo(item, 'search')).filter((v): v is Video => v !== null) : [];
+    const shorts: Video[] = Array.isArray(data.shorts) ? data.shorts.map((item: any) => mapYoutubeiVideoToVideo(item, 'searchShorts')).filter((v): v is Video => v !== null) : [];
+    const channels: Channel[] = Array.isArray(data.channels) ? data.channels.map((item: any) => mapYoutubeiChannelToChannel(item, 'searchChannels')).filter((c): c is Channel => c !== null) : [];
     const playlists: ApiPlaylist[] = Array.isArray(data.playlists) ? data.playlists.map(mapYoutubeiPlaylistToPlaylist).filter((p): p is ApiPlaylist => p !== null) : [];
 
-    let filteredVideos = videos;
+    return { videos, shorts, channels, playlists, nextPageToken: data.nextPageToken };
+}
+
+export async function searchVideos(query: string, pageToken = '1', channelId?: string, signal?: AbortSignal, filters: SearchFilters = {}): Promise<SearchResults> {
+    const results = await runWithFailover(serverProvider, 'search', provider => provider.search(query, pageToken, filters, signal), pageToken);
     if (channelId) {
-        filteredVideos = videos.filter(v => v.channelId === channelId);
+        return { ...results, videos: results.videos.filter(v => v.channelId === channelId) };
     }
-    return { videos: filteredVideos, shorts, channels, playlists, nextPageToken: data.nextPageToken };
+    return results;
+}
+
+// 入力中に何度も呼ばれるので、リトライやサーキットブレーカーは使わずに失敗したら候補なしとして扱う
+export async function getSearchSuggestions(query: string, signal?: AbortSignal): Promise<string[]> {
+    const data = await apiFetch(`suggest?q=${encodeURIComponent(query)}`, signal, { retry: false, breaker: false });
+    return Array.isArray(data.suggestions) ? data.suggestions.filter((s: unknown): s is string => typeof s === 'string') : [];
 }
 
-export async function getExternalRelatedVideos(videoId: string): Promise<Video[]> {
+export async function getExternalRelatedVideos(videoId: string, signal?: AbortSignal): Promise<Video[]> {
     try {
-        const response = await fetch(`https://siawaseok.duckdns.org/api/video2/${videoId}`);
+        const response = await fetch(`https://siawaseok.duckdns.org/api/video2/${videoId}`, { signal });
         if (!response.ok) return [];
         
         // Check if the response is actually JSON before parsing
@@ -372,20 +284,17 @@ export async function getExternalRelatedVideos(videoId: string): Promise<Video[]
                 return item as Video;
             }
             // Otherwise map from YoutubeI/raw format
-            return mapYoutubeiVideoToVideo(item);
+            return mapYoutubeiVideoToVideo(item, 'externalRelated');
         }).filter((v: any): v is Video => v !== null);
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.warn("Failed to fetch external related videos silently:", e);
         return [];
     }
 }
 
-export async function getVideoDetails(videoId: string): Promise<VideoDetails> {
-    const cacheKey = `video-details-${videoId}`;
-    const cachedData = cache.get(cacheKey);
-    if (cachedData) return Promise.resolve(cachedData);
-
-    const data = await apiFetch(`video?id=${videoId}`);
+async function fetchVideoDetails(videoId: string, signal?: AbortSignal): Promise<VideoDetails> {
+    const data = await apiFetch(`video?id=${videoId}`, signal);
     
     if (data.playability_status?.status !== 'OK' && !data.primary_info) {
         throw new Error(data.playability_status?.reason ?? 'この動画は利用できません。');
@@ -449,6 +358,9 @@ export async function getVideoDetails(videoId: string): Promise<VideoDetails> {
         }
     }
 
+    if (!primary?.title?.text) recordFallback('videoDetails', 'title');
+    if (!channelId) recordFallback('videoDetails', 'channel');
+
     const channel: Channel = {
         id: channelId,
         name: channelName,
@@ -470,7 +382,7 @@ export async function getVideoDetails(videoId: string): Promise<VideoDetails> {
     }
 
     const relatedVideos = rawRelated
-        .map(mapYoutubeiVideoToVideo)
+        .map((item: any) => mapYoutubeiVideoToVideo(item, 'related'))
         .filter((v): v is Video => v !== null && v.id.length === 11);
 
     const details: VideoDetails = {
@@ -484,39 +396,161 @@ export async function getVideoDetails(videoId: string): Promise<VideoDetails> {
         channelAvatarUrl: channel.avatarUrl,
         views: primary?.view_count?.text ? `${primary.view_count.text}回視聴` : '0回視聴',
         uploadedAt: formatJapaneseDate(primary?.relative_date?.text ?? ''),
-        description: secondary?.description?.text?.replace(/\n/g, '<br />') ?? '',
+        description: secondary?.description?.text ?? '',
+        descriptionRuns: readTextRuns(secondary?.description),
         likes: formatJapaneseNumber(basic?.like_count ?? 0),
         dislikes: '0',
         channel: channel,
         collaborators: collaborators.length > 0 ? collaborators : undefined,
         relatedVideos: relatedVideos,
+        // マーカーが無い動画は説明欄のタイムスタンプから推定する
+        chapters: Array.isArray(data.chapters) && data.chapters.length > 0
+            ? data.chapters
+            : parseChaptersFromDescription(secondary?.description?.text ?? ''),
     };
 
-    cache.set(cacheKey, details);
     return details;
 }
 
-export async function getComments(videoId: string): Promise<Comment[]> {
-    const data = await apiFetch(`comments?id=${videoId}`);
-    return (data.comments as Comment[]) ?? [];
+export function getVideoDetails(videoId: string, signal?: AbortSignal): Promise<VideoDetails> {
+    return withStaleWhileRevalidate('video-details', videoId, s => runWithFailover(serverProvider, 'getVideoDetails', provider => provider.getVideoDetails(videoId, s)), signal);
+}
+
+async function fetchComments(videoId: string, pageToken: string, sort: CommentSort, signal?: AbortSignal): Promise<CommentsPage> {
+    const data = await apiFetch(`comments?id=${videoId}&sort=${sort}${continuationParam(pageToken)}`, signal);
+    return {
+        comments: (data.comments as Comment[]) ?? [],
+        totalCount: data.totalCount ?? undefined,
+        nextPageToken: data.nextPageToken,
+    };
+}
+
+async function fetchCommentReplies(_videoId: string, repliesToken: string, signal?: AbortSignal): Promise<CommentRepliesPage> {
+    const data = await apiFetch(`comments/replies?continuation=${encodeURIComponent(repliesToken)}`, signal);
+    return { replies: (data.replies as Comment[]) ?? [], nextPageToken: data.nextPageToken };
+}
+
+export function getComments(videoId: string, pageToken = '1', sort: CommentSort = 'top', signal?: AbortSignal): Promise<CommentsPage> {
+    return runWithFailover(serverProvider, 'getComments', provider => provider.getComments(videoId, pageToken, sort, signal), pageToken);
+}
+
+// 返信トークンも発行したプロバイダーでしか使えない
+export function getCommentReplies(videoId: string, repliesToken: string, signal?: AbortSignal): Promise<CommentRepliesPage> {
+    return runWithFailover(serverProvider, 'getCommentReplies', provider => provider.getCommentReplies(videoId, repliesToken, signal), repliesToken);
+}
+
+// --- CAPTIONS ---
+// 字幕は自前サーバー (youtubei) のみ対応。キューは動画ごと・トラックごとに変わらないので長めにキャッシュする
+export async function getCaptions(videoId: string, trackId?: string, signal?: AbortSignal): Promise<CaptionsData> {
+    const cacheKey = `${videoId}:${trackId ?? 'default'}`;
+    const cached = await cache.get('captions', cacheKey);
+    if (cached) return cached;
+
+    const trackParam = trackId ? `&track=${encodeURIComponent(trackId)}` : '';
+    const data = await apiFetch(`captions?id=${videoId}${trackParam}`, signal);
+    const captions: CaptionsData = {
+        tracks: Array.isArray(data.tracks) ? data.tracks : [],
+        track: data.track ?? null,
+        cues: Array.isArray(data.cues) ? data.cues : [],
+    };
+    await cache.set('captions', cacheKey, captions);
+    return captions;
+}
+
+// --- BATCH VIDEO METADATA ---
+// /api/videos は1リクエストあたり最大50件。プレイリストや履歴の表示用に軽量な Video を返す。
+const VIDEO_BATCH_SIZE = 50;
+
+interface VideoSummaryResponse {
+    videos: {
+        id: string;
+        title: string;
+        thumbnailUrl: string;
+        durationSeconds: number;
+        channelName: string;
+        channelId: string;
+        viewCount: number | null;
+        publishDate: string | null;
+        isLive: boolean;
+    }[];
+    errors: { id: string; error: string }[];
 }
 
-export async function getVideosByIds(videoIds: string[]): Promise<Video[]> {
+const mapVideoSummaryToVideo = (summary: VideoSummaryResponse['videos'][number]): Video => {
+    if (!summary.title) recordFallback('videoBatch', 'title');
+    return {
+        id: summary.id,
+        thumbnailUrl: summary.thumbnailUrl,
+        duration: summary.isLive ? 'LIVE' : formatDuration(summary.durationSeconds),
+        isoDuration: `PT${summary.durationSeconds}S`,
+        title: summary.title || '無題の動画',
+        channelName: summary.channelName || '不明なチャンネル',
+        channelId: summary.channelId,
+        channelAvatarUrl: '',
+        views: summary.viewCount !== null ? `${formatJapaneseNumber(summary.viewCount)}回視聴` : '視聴回数不明',
+        uploadedAt: summary.publishDate ? new Date(summary.publishDate).toLocaleDateString('ja-JP') : '',
+    };
+};
+
+const fetchVideoSummaries = async (ids: string[], reason: 'loaded' | 'revalidated', signal?: AbortSignal): Promise<Video[]> => {
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += VIDEO_BATCH_SIZE) {
+        chunks.push(ids.slice(i, i + VIDEO_BATCH_SIZE));
+    }
+
+    const results = await Promise.all(chunks.map(async chunk => {
+        try {
+            const data: VideoSummaryResponse = await apiFetch(`videos?ids=${chunk.join(',')}`, signal);
+            const videos = (data.videos ?? []).map(mapVideoSummaryToVideo);
+            await Promise.all(videos.map(video => storeFresh('video-summary', video.id, video, reason)));
+            // Partial failures (deleted/private videos) are reported per id instead of failing the batch
+            data.errors?.forEach(({ id, error }) => console.warn(`Failed to fetch video ${id}: ${error}`));
+            return videos;
+        } catch (err) {
+            if (isAbortError(err)) throw err;
+            console.error(`Failed to fetch video batch (${chunk.length} ids)`, err);
+            return [];
+        }
+    }));
+    return results.flat();
+};
+
+export async function getVideosByIds(videoIds: string[], signal?: AbortSignal): Promise<Video[]> {
     if (videoIds.length === 0) return [];
-    const promises = videoIds.map(id => getVideoDetails(id).catch(err => {
-        console.error(`Failed to fetch video ${id}`, err);
-        return null;
+
+    const found = new Map<string, Video>();
+    const missingIds: string[] = [];
+    const staleIds: string[] = [];
+    // キャッシュは ID ごとに並行して読む (長いプレイリストで順番に待たない)
+    const uniqueIds = [...new Set(videoIds)];
+    const entries = await Promise.all(uniqueIds.map(async id => {
+        const summary = await cache.getEntry<Video>('video-summary', id);
+        if (summary) return { id, video: summary.data, stale: isStale('video-summary', summary.updatedAt) };
+        const details = await cache.get<Video>('video-details', id);
+        return { id, video: details, stale: false };
     }));
-    const results = await Promise.all(promises);
-    return results.filter((v): v is Video => v !== null);
-}
+    for (const { id, video, stale } of entries) {
+        if (!video) {
+            missingIds.push(id);
+            continue;
+        }
+        found.set(id, video);
+        if (stale) staleIds.push(id);
+    }
+
+    // 古いサマリーは一括で裏取りし、購読中のページに通知する
+    if (staleIds.length > 0) {
+        fetchVideoSummaries(staleIds, 'revalidated').catch(err => console.warn('Background revalidation failed for video summaries:', err));
+    }
 
-export async function getChannelDetails(channelId: string): Promise<ChannelDetails> {
-    const cacheKey = `channel-details-${channelId}`;
-    const cachedData = cache.get(cacheKey);
-    if (cachedData) return Promise.resolve(cachedData);
+    const fetched = await fetchVideoSummaries(missingIds, 'loaded', signal);
+    fetched.forEach(video => found.set(video.id, video));
+
+    return videoIds.map(id => found.get(id)).filter((v): v is Video => v !== undefined);
+}
 
-    const data = await apiFetch(`channel?id=${channelId}`);
+async function fetchChannelDetails(channelId: string, signal?: AbortSignal): Promise<ChannelDetails> {
+    const data = await apiFetch(`channel?id=${channelId}`, signal);
     const channel = data.channel;
     if (!channel) throw new Error(`Channel with ID ${channelId} not found.`);
 
@@ -540,13 +574,26 @@ export async function getChannelDetails(channelId: string): Promise<ChannelDetai
         videoCount: parseInt(channel.videoCount?.replace(/,/g, '') ?? '0'),
         handle: channel.name,
     };
-    cache.set(cacheKey, details);
     return details;
 }
 
-export async function getChannelVideos(channelId: string, pageToken = '1'): Promise<{ videos: Video[], nextPageToken?: string }> {
-    const page = parseInt(pageToken, 10);
-    const data = await apiFetch(`channel?id=${channelId}&page=${page}`);
+// @メンションのリンク (/channel/@handle) から UC... のチャンネルIDを引く
+export async function resolveChannelHandle(handle: string, signal?: AbortSignal): Promise<string> {
+    const data = await apiFetch(`channel/resolve?handle=${encodeURIComponent(handle)}`, signal);
+    if (typeof data.channelId !== 'string') throw new Error('チャンネルが見つかりませんでした。');
+    return data.channelId;
+}
+
+export function getChannelDetails(channelId: string, signal?: AbortSignal): Promise<ChannelDetails> {
+    return withStaleWhileRevalidate('channel-details', channelId, s => runWithFailover(serverProvider, 'getChannelDetails', provider => provider.getChannelDetails(channelId, s)), signal);
+}
+
+export function getChannelVideos(channelId: string, pageToken = '1', signal?: AbortSignal): Promise<ChannelVideosPage> {
+    return runWithFailover(serverProvider, 'getChannelVideos', provider => provider.getChannelVideos(channelId, pageToken, signal), pageToken);
+}
+
+async function fetchChannelVideos(channelId: string, pageToken: string, signal?: AbortSignal): Promise<ChannelVideosPage> {
+    const data = await apiFetch(`channel?id=${channelId}${continuationParam(pageToken)}`, signal);
     
     const channelMeta = data.channel;
     let avatarUrl = '';
@@ -561,56 +608,39 @@ export async function getChannelVideos(channelId: string, pageToken = '1'): Prom
     }
 
     const videos = data.videos?.map((item: any) => {
-        const video = mapYoutubeiVideoToVideo(item);
+        const video = mapYoutubeiVideoToVideo(item, 'channelVideos');
         if (video) {
             if (channelMeta?.name) video.channelName = channelMeta.name;
-            if (channelMeta?.id) video.channelId = channelMeta.id;
+            // チャンネルタブの videoRenderer には投稿者が入っていないので、要求したチャンネルIDで埋める
+            video.channelId = channelMeta?.id ?? channelId;
             if (avatarUrl) video.channelAvatarUrl = avatarUrl;
         }
         return video;
     }).filter((v): v is Video => v !== null) ?? [];
     
-    const hasMore = videos.length > 0;
-    return { videos, nextPageToken: hasMore ? String(page + 1) : undefined };
+    return { videos, nextPageToken: data.nextPageToken };
 }
 
-export async function getChannelShorts(channelId: string): Promise<{ videos: Video[] }> {
-    const data = await apiFetch(`shorts?id=${channelId}`);
+export async function getChannelShorts(channelId: string, signal?: AbortSignal): Promise<{ videos: Video[] }> {
+    const data = await apiFetch(`shorts?id=${channelId}`, signal);
     
     // Data can come in different shapes depending on youtubei.js version and channel type
     const contents = data?.current_tab?.content?.contents 
                      || data?.contents?.tabs?.[1]?.content?.contents
                      || [];
 
-    const videos: Video[] = contents.map((item: any) => {
-        const lockup = item.content || item.richItem?.content; // Handle both direct content and RichItem wrappers
-        if (lockup?.type !== 'ShortsLockupView') return null;
+    if (contents.length === 0) recordFallback('channelShorts', 'contents');
 
-        const videoId = lockup.on_tap?.innertubeCommand?.payload?.videoId;
-        if (!videoId) return null;
-        
-        let thumbnailUrl = lockup.thumbnail?.sources?.[0]?.url || '';
-        if (thumbnailUrl) thumbnailUrl = thumbnailUrl.split('?')[0];
-
-        return {
-            id: videoId,
-            title: lockup.overlay_metadata?.primaryText?.content || 'Untitled Short',
-            thumbnailUrl: thumbnailUrl,
-            views: lockup.overlay_metadata?.secondaryText?.content || '',
-            duration: '', // Shorts cards don't have duration
-            isoDuration: '',
-            uploadedAt: '', // Not available on shorts card
-            channelName: '', // Will be filled in by calling component (ChannelPage)
-            channelId: '',
-            channelAvatarUrl: '',
-        } as Video;
-    }).filter((v: Video | null): v is Video => v !== null);
+    // Handle both direct content and RichItem wrappers
+    const videos: Video[] = contents
+        .map((item: any) => parseShortsLockupView(item.content || item.richItem?.content || item, 'channelShorts'))
+        .filter((v: Video | null): v is Video => v !== null);
 
     return { videos };
 }
 
-export async function getChannelPlaylists(channelId: string): Promise<{ playlists: ApiPlaylist[] }> {
-    const data = await apiFetch(`channel-playlists?id=${channelId}`);
+export async function getChannelPlaylists(channelId: string, signal?: AbortSignal): Promise<{ playlists: ApiPlaylist[] }> {
+    const data = await apiFetch(`channel-playlists?id=${channelId}`, signal);
     // Use mapYoutubeiPlaylistToPlaylist for correct data mapping of raw API response
     const playlists: ApiPlaylist[] = (data.playlists || [])
         .map(mapYoutubeiPlaylistToPlaylist)
@@ -618,14 +648,10 @@ export async function getChannelPlaylists(channelId: string): Promise<{ playlist
     return { playlists };
 }
 
-export async function getPlaylistDetails(playlistId: string): Promise<PlaylistDetails> {
-    const cacheKey = `playlist-details-${playlistId}`;
-    const cachedData = cache.get(cacheKey);
-    if (cachedData) return Promise.resolve(cachedData);
-
-    const data = await apiFetch(`playlist?id=${playlistId}`);
+async function fetchPlaylistDetails(playlistId: string, signal?: AbortSignal): Promise<PlaylistDetails> {
+    const data = await apiFetch(`playlist?id=${playlistId}`, signal);
     if (!data.info?.id) throw new Error(`Playlist with ID ${playlistId} not found.`);
-    const videos = (data.videos || []).map(mapYoutubeiVideoToVideo).filter((v): v is Video => v !== null);
+    const videos = (data.videos || []).map((item: any) => mapYoutubeiVideoToVideo(item, 'playlist')).filter((v): v is Video => v !== null);
     
     const details = {
         title: data.info.title,
@@ -635,6 +661,23 @@ export async function getPlaylistDetails(playlistId: string): Promise<PlaylistDe
         videos: videos
     };
 
-    cache.set(cacheKey, details);
     return details;
-}
\ No newline at end of file
+}
+
+export function getPlaylistDetails(playlistId: string, signal?: AbortSignal): Promise<PlaylistDetails> {
+    return withStaleWhileRevalidate('playlist-details', playlistId, s => runWithFailover(serverProvider, 'getPlaylistDetails', provider => provider.getPlaylistDetails(playlistId, s)), signal);
+}
+
+// --- SERVER PROVIDER ---
+// 自前の /api/* (youtubei.js) を DataProvider として公開する。Invidious / Piped は utils/providers/ を参照。
+export const serverProvider: DataProvider = {
+    id: 'server',
+    search: fetchSearchResults,
+    getVideoDetails: fetchVideoDetails,
+    getComments: fetchComments,
+    getCommentReplies: fetchCommentReplies,
+    getChannelDetails: fetchChannelDetails,
+    getChannelVideos: fetchChannelVideos,
+    getPlaylistDetails: fetchPlaylistDetails,
+    getStreamData: fetchStreamData,
+};
\ No newline at end of file
@@ -0,0 +1,142 @@
+// --- A/V SYNC CONTROLLER ---
+// 映像のみの <video> と音声の <audio> を別々に再生するとき (separate1080p) の同期処理。
+// <video> を基準 (マスター) にして <audio> を追従させる。
+//  - 定期的にずれを測り、小さいずれは audio の playbackRate を少しだけ変えて吸収、大きいずれはシークで合わせる
+//  - どちらかが waiting (バッファ切れ) になったら両方止め、両方再生できる状態に戻ってから再開する
+//  - ユーザーが変えた再生速度・音量は audio にも反映する
+// 本来は MediaSource で1つの要素に多重化するのが理想だが、外部ストリームの CORS / コーデック事情に
+// 左右されるため、ここでは2要素のまま同期を取る。
+
+const DRIFT_CHECK_INTERVAL_MS = 250;
+// これ以下のずれは気にしない
+const DRIFT_TOLERANCE_SECONDS = 0.04;
+// これを超えたら速度補正ではなくシークで合わせる
+const HARD_SYNC_THRESHOLD_SECONDS = 0.3;
+// 速度補正の上限 (±5%)。音程は preservesPitch で保たれる
+const MAX_RATE_CORRECTION = 0.05;
+const RATE_CORRECTION_GAIN = 0.5;
+
+type MediaRole = 'video' | 'audio';
+
+export interface AvSyncController {
+    destroy: () => void;
+}
+
+const canPlayThrough = (element: HTMLMediaElement) => element.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA;
+
+export const createAvSyncController = (video: HTMLVideoElement, audio: HTMLAudioElement): AvSyncController => {
+    // ユーザーが再生を望んでいるか (バッファ待ちで内部的に止めたときは true のまま)
+    let wantsPlay = !video.paused;
+    const stalled = new Set<MediaRole>();
+
+    const baseRate = () => video.playbackRate;
+
+    const resetAudioRate = () => {
+        if (audio.playbackRate !== baseRate()) audio.playbackRate = baseRate();
+    };
+
+    const hardSync = () => {
+        audio.currentTime = video.currentTime;
+        resetAudioRate();
+    };
+
+    const resumeIfReady = () => {
+        if (!wantsPlay || stalled.size > 0) return;
+        if (!canPlayThrough(video) || !canPlayThrough(audio)) return;
+        hardSync();
+        if (video.paused) video.play().catch(() => {});
+        if (audio.paused) audio.play().catch(() => {});
+    };
+
+    const handleStall = (role: MediaRole) => () => {
+        if (!wantsPlay) return;
+        stalled.add(role);
+        // 止まっていない側も止めて、ずれが広がらないようにする
+        if (!video.paused) video.pause();
+        if (!audio.paused) audio.pause();
+    };
+
+    const handleReady = (role: MediaRole) => () => {
+        if (!stalled.has(role)) return;
+        stalled.delete(role);
+        resumeIfReady();
+    };
+
+    const handleVideoPlay = () => {
+        wantsPlay = true;
+        if (stalled.size > 0) return;
+        if (!canPlayThrough(audio)) {
+            // 音声がまだ読めていなければ映像も待たせる
+            stalled.add('audio');
+            video.pause();
+            return;
+        }
+        hardSync();
+        audio.play().catch(() => {});
+    };
+
+    const handleVideoPause = () => {
+        // バッファ待ちで自分から止めた場合はユーザーの一時停止として扱わない
+        if (stalled.size > 0) return;
+        wantsPlay = false;
+        audio.pause();
+    };
+
+    const handleVideoSeeking = () => {
+        audio.currentTime = video.currentTime;
+    };
+
+    const handleVideoEnded = () => {
+        wantsPlay = video.loop;
+        audio.pause();
+    };
+
+    const handleRateChange = () => resetAudioRate();
+
+    const handleVolumeChange = () => {
+        audio.volume = video.volume;
+        audio.muted = video.muted;
+    };
+
+    const checkDrift = () => {
+        if (!wantsPlay || stalled.size > 0 || video.paused || audio.paused || video.seeking || audio.seeking) return;
+        const drift = audio.currentTime - video.currentTime;
+        if (Math.abs(drift) > HARD_SYNC_THRESHOLD_SECONDS) {
+            hardSync();
+        } else if (Math.abs(drift) > DRIFT_TOLERANCE_SECONDS) {
+            // 音声が進んでいれば遅く、遅れていれば速くする
+            const correction = Math.max(-MAX_RATE_CORRECTION, Math.min(MAX_RATE_CORRECTION, drift * RATE_CORRECTION_GAIN));
+            audio.playbackRate = baseRate() * (1 - correction);
+        } else {
+            resetAudioRate();
+        }
+    };
+
+    const listeners: [HTMLMediaElement, string, EventListener][] = [
+        [video, 'play', handleVideoPlay],
+        [video, 'pause', handleVideoPause],
+        [video, 'seeking', handleVideoSeeking],
+        [video, 'ended', handleVideoEnded],
+        [video, 'ratechange', handleRateChange],
+        [video, 'volumechange', handleVolumeChange],
+        [video, 'waiting', handleStall('video')],
+        [audio, 'waiting', handleStall('audio')],
+        [video, 'canplay', handleReady('video')],
+        [audio, 'canplay', handleReady('audio')],
+        [video, 'playing', handleReady('video')],
+        [audio, 'playing', handleReady('audio')],
+    ];
+    listeners.forEach(([element, type, listener]) => element.addEventListener(type, listener));
+    const driftTimer = window.setInterval(checkDrift, DRIFT_CHECK_INTERVAL_MS);
+
+    handleVolumeChange();
+    resetAudioRate();
+    if (wantsPlay) handleVideoPlay();
+
+    return {
+        destroy: () => {
+            listeners.forEach(([element, type, listener]) => element.removeEventListener(type, listener));
+            window.clearInterval(driftTimer);
+        },
+    };
+};
@@ -0,0 +1,300 @@
+// --- INDEXEDDB RESPONSE CACHE ---
+// APIレスポンスのキャッシュを localStorage から IndexedDB に移し、
+// 履歴・プレイリスト・登録チャンネルと容量を奪い合わないようにする。
+
+export type CacheNamespace = 'video-details' | 'video-summary' | 'channel-details' | 'channel-home' | 'playlist-details' | 'stream-data' | 'captions';
+
+const DB_NAME = 'xeroxyt-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+const MIGRATION_FLAG_KEY = 'cacheMigratedToIndexedDB';
+
+const HOUR = 60 * 60 * 1000;
+const MAX_CACHE_BYTES = 50 * 1024 * 1024; // 50MB
+
+// Stream URLs expire after ~6 hours on YouTube's side, so keep them short-lived.
+const NAMESPACE_TTL: Record<CacheNamespace, number> = {
+    'video-details': 24 * HOUR,
+    'video-summary': 24 * HOUR,
+    'channel-details': 24 * HOUR,
+    'channel-home': 24 * HOUR,
+    'playlist-details': 24 * HOUR,
+    'stream-data': 1 * HOUR,
+    'captions': 24 * HOUR,
+};
+
+const NAMESPACES = Object.keys(NAMESPACE_TTL) as CacheNamespace[];
+
+interface CacheEntry {
+    key: string;
+    namespace: CacheNamespace;
+    data: any;
+    size: number;
+    expiry: number;
+    lastAccess: number;
+    // Absent on entries written before stale-while-revalidate was introduced
+    updatedAt?: number;
+}
+
+export interface CachedValue<T> {
+    data: T;
+    updatedAt: number;
+}
+
+const buildKey = (namespace: CacheNamespace, id: string) => `${namespace}-${id}`;
+
+const toCachedValue = <T,>(entry: CacheEntry): CachedValue<T> => ({
+    data: entry.data as T,
+    updatedAt: entry.updatedAt ?? entry.expiry - NAMESPACE_TTL[entry.namespace],
+});
+
+const estimateSize = (value: any): number => {
+    try {
+        // UTF-16 in memory, so approximate two bytes per character
+        return JSON.stringify(value).length * 2;
+    } catch {
+        return 0;
+    }
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// Fallback used when IndexedDB is unavailable (private browsing, old WebViews)
+const memoryStore = new Map<string, CacheEntry>();
+let totalBytes = 0;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                    store.createIndex('lastAccess', 'lastAccess');
+                    store.createIndex('expiry', 'expiry');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('IndexedDB cache unavailable, falling back to memory:', request.error);
+                resolve(null);
+            };
+        } catch (error) {
+            console.warn('IndexedDB cache unavailable, falling back to memory:', error);
+            resolve(null);
+        }
+    }).then(async (db) => {
+        if (db) {
+            try {
+                await migrateFromLocalStorage(db);
+                await sweepExpired(db);
+            } catch (error) {
+                console.error('Cache startup maintenance failed:', error);
+            }
+        }
+        return db;
+    });
+    return dbPromise;
+};
+
+// 旧バージョンの localStorage キャッシュを一度だけ IndexedDB に移行する
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+    if (localStorage.getItem(MIGRATION_FLAG_KEY) === 'true') return;
+
+    const now = Date.now();
+    const legacyKeys: string[] = [];
+    const entries: CacheEntry[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key) continue;
+        const namespace = NAMESPACES.find(ns => key.startsWith(`${ns}-`));
+        if (!namespace) continue;
+        legacyKeys.push(key);
+        try {
+            const item = JSON.parse(localStorage.getItem(key) || 'null');
+            if (!item || typeof item.expiry !== 'number' || item.expiry <= now || item.data === undefined) continue;
+            entries.push({
+                key,
+                namespace,
+                data: item.data,
+                size: estimateSize(item.data),
+                expiry: item.expiry,
+                lastAccess: now,
+                updatedAt: item.expiry - NAMESPACE_TTL[namespace],
+            });
+        } catch {
+            // Corrupted legacy entry, just drop it
+        }
+    }
+
+    if (entries.length > 0) {
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        entries.forEach(entry => store.put(entry));
+        await transactionDone(tx);
+    }
+
+    legacyKeys.forEach(key => localStorage.removeItem(key));
+    localStorage.setItem(MIGRATION_FLAG_KEY, 'true');
+};
+
+// 起動時に期限切れエントリを削除し、合計サイズを再計算する
+const sweepExpired = async (db: IDBDatabase): Promise<void> => {
+    const now = Date.now();
+    let bytes = 0;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const request = tx.objectStore(STORE_NAME).openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const entry = cursor.value as CacheEntry;
+        if (entry.expiry <= now) {
+            cursor.delete();
+        } else {
+            bytes += entry.size || 0;
+        }
+        cursor.continue();
+    };
+    await transactionDone(tx);
+    totalBytes = bytes;
+};
+
+// 最終アクセスが古い順に削除して上限内に収める
+const evictLeastRecentlyUsed = async (db: IDBDatabase): Promise<void> => {
+    if (totalBytes <= MAX_CACHE_BYTES) return;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const request = tx.objectStore(STORE_NAME).index('lastAccess').openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || totalBytes <= MAX_CACHE_BYTES) return;
+        const entry = cursor.value as CacheEntry;
+        totalBytes -= entry.size || 0;
+        cursor.delete();
+        cursor.continue();
+    };
+    await transactionDone(tx);
+};
+
+const evictMemoryStore = () => {
+    if (totalBytes <= MAX_CACHE_BYTES) return;
+    const byAccess = Array.from(memoryStore.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const entry of byAccess) {
+        if (totalBytes <= MAX_CACHE_BYTES) break;
+        memoryStore.delete(entry.key);
+        totalBytes -= entry.size;
+    }
+};
+
+export const cache = {
+    get: async <T = any>(namespace: CacheNamespace, id: string): Promise<T | null> => {
+        const entry = await cache.getEntry<T>(namespace, id);
+        return entry ? entry.data : null;
+    },
+    // データと最終更新時刻を返す（stale-while-revalidate 用）
+    getEntry: async <T = any>(namespace: CacheNamespace, id: string): Promise<CachedValue<T> | null> => {
+        const key = buildKey(namespace, id);
+        const now = Date.now();
+        try {
+            const db = await openDatabase();
+            if (!db) {
+                const entry = memoryStore.get(key);
+                if (!entry) return null;
+                if (now > entry.expiry) {
+                    memoryStore.delete(key);
+                    totalBytes -= entry.size;
+                    return null;
+                }
+                entry.lastAccess = now;
+                return toCachedValue<T>(entry);
+            }
+
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            const store = tx.objectStore(STORE_NAME);
+            const entry = await requestToPromise(store.get(key)) as CacheEntry | undefined;
+            if (!entry) return null;
+            if (now > entry.expiry) {
+                store.delete(key);
+                totalBytes -= entry.size || 0;
+                return null;
+            }
+            store.put({ ...entry, lastAccess: now });
+            return toCachedValue<T>(entry);
+        } catch (error) {
+            console.error(`Cache read error for key "${key}":`, error);
+            return null;
+        }
+    },
+    set: async (namespace: CacheNamespace, id: string, value: any, ttl: number = NAMESPACE_TTL[namespace]): Promise<void> => {
+        if (value === undefined) return;
+        const key = buildKey(namespace, id);
+        const now = Date.now();
+        const entry: CacheEntry = {
+            key,
+            namespace,
+            data: value,
+            size: estimateSize(value),
+            expiry: now + ttl,
+            lastAccess: now,
+            updatedAt: now,
+        };
+        try {
+            const db = await openDatabase();
+            if (!db) {
+                const previous = memoryStore.get(key);
+                if (previous) totalBytes -= previous.size;
+                memoryStore.set(key, entry);
+                totalBytes += entry.size;
+                evictMemoryStore();
+                return;
+            }
+
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            const store = tx.objectStore(STORE_NAME);
+            const previous = await requestToPromise(store.get(key)) as CacheEntry | undefined;
+            store.put(entry);
+            await transactionDone(tx);
+            totalBytes += entry.size - (previous?.size || 0);
+            await evictLeastRecentlyUsed(db);
+        } catch (error) {
+            console.error(`Cache write error for key "${key}":`, error);
+        }
+    },
+    clear: async (): Promise<void> => {
+        memoryStore.clear();
+        totalBytes = 0;
+        try {
+            const db = await openDatabase();
+            if (!db) return;
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).clear();
+            await transactionDone(tx);
+        } catch (error) {
+            console.error('Cache clear error:', error);
+        }
+    },
+};
+
+// Kick off migration and the expiry sweep at startup instead of on first read
+openDatabase();
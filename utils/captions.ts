@@ -0,0 +1,67 @@
+import type { CaptionCue } from '../types';
+
+// --- CAPTION HELPERS ---
+// 文字起こしパネルの表示と SRT / VTT 書き出し用。キューは開始時刻順に並んでいる前提。
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const splitTime = (seconds: number) => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    return {
+        hours: Math.floor(totalMs / 3600000),
+        minutes: Math.floor(totalMs / 60000) % 60,
+        secs: Math.floor(totalMs / 1000) % 60,
+        ms: totalMs % 1000,
+    };
+};
+
+// パネル表示用 (1:05 / 1:02:03)
+export const formatCueTime = (seconds: number): string => {
+    const { hours, minutes, secs } = splitTime(seconds);
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+};
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+    const { hours, minutes, secs, ms } = splitTime(seconds);
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const toSrt = (cues: CaptionCue[]): string => {
+    return cues
+        .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+        .join('\n');
+};
+
+export const toVtt = (cues: CaptionCue[]): string => {
+    const body = cues
+        .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+        .join('\n');
+    return `WEBVTT\n\n${body}`;
+};
+
+// 再生位置より前で最後に始まったキュー。自動生成字幕はキューが重なるので end では判定しない
+export const findActiveCueIndex = (cues: CaptionCue[], time: number): number => {
+    let low = 0;
+    let high = cues.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (cues[mid].start <= time) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return found;
+};
+
+export const downloadTextFile = (filename: string, content: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
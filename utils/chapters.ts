@@ -0,0 +1,38 @@
+import type { Chapter } from '../types';
+
+// --- CHAPTERS ---
+// サーバー (youtubei のマーカー) からチャプターが取れなかったときに、説明欄のタイムスタンプ行から推定する。
+// YouTube と同じく「0:00 から始まる」「3 つ以上」「昇順」のときだけチャプターとみなす。
+
+// 1 = 括弧ごとのトークン、2 = 時刻部分
+const TIMESTAMP_PATTERN = /(?:^|[^\d:])([(\[【]?((?:\d{1,2}:)?\d{1,2}:\d{2})[)\]】]?)(?![\d:])/;
+// タイムスタンプの前後に付きがちな区切り記号
+const SEPARATOR_PATTERN = /^[\s\-–—:：|｜・.)\]】]+|[\s\-–—:：|｜・.(\[【]+$/g;
+const MIN_CHAPTERS = 3;
+
+export const parseTimestamp = (value: string): number => {
+    return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+};
+
+export const parseChaptersFromDescription = (description: string): Chapter[] => {
+    const chapters: Chapter[] = [];
+    for (const line of description.split(/\r?\n/)) {
+        const match = line.match(TIMESTAMP_PATTERN);
+        if (!match) continue;
+        const title = line.replace(match[1], '').replace(SEPARATOR_PATTERN, '').trim();
+        chapters.push({ title, start: parseTimestamp(match[2]) });
+    }
+
+    if (chapters.length < MIN_CHAPTERS || chapters[0].start !== 0) return [];
+    const isAscending = chapters.every((chapter, index) => index === 0 || chapter.start > chapters[index - 1].start);
+    return isAscending ? chapters : [];
+};
+
+export const findCurrentChapterIndex = (chapters: Chapter[], time: number): number => {
+    let index = -1;
+    for (let i = 0; i < chapters.length; i++) {
+        if (chapters[i].start <= time) index = i;
+        else break;
+    }
+    return index;
+};
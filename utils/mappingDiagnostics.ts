@@ -0,0 +1,80 @@
+// --- MAPPING DIAGNOSTICS ---
+// YouTube側のレンダラー変更で「無題の動画」や空リストが静かに増えるのを検知するため、
+// マッパーごとにフォールバック・未知のアイテム型・破棄したアイテムを数える。
+
+export interface MapperStats {
+    mapped: number;
+    dropped: number;
+    fallbacks: Record<string, number>;
+    unknownTypes: Record<string, number>;
+    dropReasons: Record<string, number>;
+}
+
+const stats = new Map<string, MapperStats>();
+const listeners = new Set<() => void>();
+// Log each unknown type / drop reason once per session to avoid flooding the console
+const loggedUnknownTypes = new Set<string>();
+const loggedDropReasons = new Set<string>();
+
+const getStats = (mapper: string): MapperStats => {
+    let entry = stats.get(mapper);
+    if (!entry) {
+        entry = { mapped: 0, dropped: 0, fallbacks: {}, unknownTypes: {}, dropReasons: {} };
+        stats.set(mapper, entry);
+    }
+    return entry;
+};
+
+const increment = (record: Record<string, number>, key: string) => {
+    record[key] = (record[key] || 0) + 1;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const recordMapped = (mapper: string) => {
+    getStats(mapper).mapped++;
+    notify();
+};
+
+export const recordFallback = (mapper: string, field: string) => {
+    increment(getStats(mapper).fallbacks, field);
+    notify();
+};
+
+export const recordUnknownType = (mapper: string, type: string) => {
+    increment(getStats(mapper).unknownTypes, type);
+    const logKey = `${mapper}:${type}`;
+    if (!loggedUnknownTypes.has(logKey)) {
+        loggedUnknownTypes.add(logKey);
+        console.warn(`[mapper:${mapper}] Unknown item type "${type}"`);
+    }
+    notify();
+};
+
+export const recordDropped = (mapper: string, reason: string) => {
+    const entry = getStats(mapper);
+    entry.dropped++;
+    increment(entry.dropReasons, reason);
+    const logKey = `${mapper}:${reason}`;
+    if (!loggedDropReasons.has(logKey)) {
+        loggedDropReasons.add(logKey);
+        console.warn(`[mapper:${mapper}] Dropped item: ${reason}`);
+    }
+    notify();
+};
+
+export const getMappingStats = (): Record<string, MapperStats> => {
+    return Object.fromEntries(stats.entries());
+};
+
+export const resetMappingStats = () => {
+    stats.clear();
+    loggedUnknownTypes.clear();
+    loggedDropReasons.clear();
+    notify();
+};
+
+export const subscribeToMappingStats = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
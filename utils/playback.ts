@@ -0,0 +1,256 @@
+// --- PLAYBACK CONTROLLER ---
+// YouTube 埋め込み (iframe + postMessage) と <video> / <audio> を同じ API で操作するための抽象化。
+// 文字起こし・チャプター・スキップ区間・キーボードショートカットはすべてこれを経由する。
+// iframe は "listening" を送ると infoDelivery で再生位置などを、onStateChange で状態を通知してくる。
+
+export interface PlaybackState {
+    currentTime: number;
+    duration: number;
+    paused: boolean;
+    playbackRate: number;
+    // 0〜1
+    volume: number;
+    muted: boolean;
+}
+
+export interface SeekOptions {
+    // false なら一時停止中は止めたままにする (既定では移動先から再生を始める)
+    play?: boolean;
+}
+
+export interface PlaybackController {
+    play: () => void;
+    pause: () => void;
+    togglePlay: () => void;
+    seekTo: (seconds: number, options?: SeekOptions) => void;
+    seekBy: (deltaSeconds: number) => void;
+    setPlaybackRate: (rate: number) => void;
+    setVolume: (volume: number) => void;
+    setMuted: (muted: boolean) => void;
+    getState: () => PlaybackState;
+    subscribe: (listener: (state: PlaybackState) => void) => () => void;
+    onEnded: (listener: () => void) => () => void;
+    destroy: () => void;
+}
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+const INITIAL_STATE: PlaybackState = { currentTime: 0, duration: 0, paused: true, playbackRate: 1, volume: 1, muted: false };
+
+// YT.PlayerState
+const YT_ENDED = 0;
+const YT_PLAYING = 1;
+const YT_BUFFERING = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const postIframeCommand = (iframe: HTMLIFrameElement | null, func: string, args: unknown[] = []) => {
+    iframe?.contentWindow?.postMessage(JSON.stringify({ event: 'command', func, args }), '*');
+};
+
+// 視聴ページとミニプレイヤーで共通の埋め込み URL。playerParams は getPlayerConfig の値
+// autoplay を渡すと playerParams の autoplay より優先する (一時停止中に引き継いだミニプレイヤーなど)
+export const buildEmbedUrl = (videoId: string, playerParams: string, startTime: number = 0, autoplay?: boolean): string => {
+    let params = playerParams.startsWith('?') ? playerParams.substring(1) : playerParams;
+
+    // Ensure enablejsapi=1 is present for event listening
+    if (!params.includes('enablejsapi')) {
+        params += '&enablejsapi=1';
+    }
+    // Add origin to ensure we can receive messages from the iframe
+    if (!params.includes('origin')) {
+        params += `&origin=${encodeURIComponent(window.location.origin)}`;
+    }
+    if (autoplay !== undefined) {
+        params = params.replace(/(^|&)autoplay=[^&]*/g, '') + `&autoplay=${autoplay ? 1 : 0}`;
+    }
+    // Ensure autoplay is set
+    if (!params.includes('autoplay')) {
+        params += '&autoplay=1';
+    }
+    if (startTime > 0) {
+        params += `&start=${Math.floor(startTime)}`;
+    }
+
+    return `https://www.youtubeeducation.com/embed/${videoId}?${params}`;
+};
+
+// 埋め込みプレイヤーからのメッセージは JSON 文字列で届く
+export const parseIframeMessage = (data: unknown): any => {
+    if (typeof data !== 'string') return data;
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+// 状態の保持と購読者への通知。各実装はこれに状態を流し込むだけにする
+const createStateStore = () => {
+    let state = INITIAL_STATE;
+    const listeners = new Set<(state: PlaybackState) => void>();
+    const endedListeners = new Set<() => void>();
+    return {
+        get: () => state,
+        update: (patch: Partial<PlaybackState>) => {
+            const next = { ...state, ...patch };
+            const changed = (Object.keys(patch) as (keyof PlaybackState)[]).some(key => next[key] !== state[key]);
+            if (!changed) return;
+            state = next;
+            listeners.forEach(listener => listener(state));
+        },
+        emitEnded: () => endedListeners.forEach(listener => listener()),
+        subscribe: (listener: (state: PlaybackState) => void) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        onEnded: (listener: () => void) => {
+            endedListeners.add(listener);
+            return () => { endedListeners.delete(listener); };
+        },
+        clear: () => {
+            listeners.clear();
+            endedListeners.clear();
+        },
+    };
+};
+
+export const createIframePlaybackController = (iframe: HTMLIFrameElement): PlaybackController => {
+    const store = createStateStore();
+    // 読み込み前に指定された速度は onReady で送り直す
+    let desiredRate: number | null = null;
+
+    const command = (func: string, args: unknown[] = []) => postIframeCommand(iframe, func, args);
+    const startListening = () => iframe.contentWindow?.postMessage(JSON.stringify({ event: 'listening', id: 1, channel: 'widget' }), '*');
+
+    let lastPlayerState: number | null = null;
+
+    const applyPlayerState = (playerState: number) => {
+        // バッファ中は再生中として扱う (一時停止表示にしない)
+        store.update({ paused: playerState !== YT_PLAYING && playerState !== YT_BUFFERING });
+        // onStateChange と infoDelivery の両方で届くので、終了への変化を1回だけ通知する
+        if (playerState === YT_ENDED && lastPlayerState !== YT_ENDED) store.emitEnded();
+        lastPlayerState = playerState;
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+        if (event.source !== iframe.contentWindow) return;
+        const data = parseIframeMessage(event.data);
+        if (!data) return;
+
+        if (data.event === 'onReady') {
+            if (desiredRate !== null) command('setPlaybackRate', [desiredRate]);
+        } else if (data.event === 'onStateChange' && typeof data.info === 'number') {
+            applyPlayerState(data.info);
+        } else if (data.event === 'infoDelivery' && data.info) {
+            const info = data.info;
+            const patch: Partial<PlaybackState> = {};
+            if (typeof info.currentTime === 'number') patch.currentTime = info.currentTime;
+            if (typeof info.duration === 'number' && info.duration > 0) patch.duration = info.duration;
+            if (typeof info.playbackRate === 'number') patch.playbackRate = info.playbackRate;
+            if (typeof info.volume === 'number') patch.volume = info.volume / 100;
+            if (typeof info.muted === 'boolean') patch.muted = info.muted;
+            store.update(patch);
+            if (typeof info.playerState === 'number') applyPlayerState(info.playerState);
+        }
+    };
+
+    iframe.addEventListener('load', startListening);
+    window.addEventListener('message', handleMessage);
+    // すでに読み込み済みの場合に備えて一度送っておく
+    startListening();
+
+    const controller: PlaybackController = {
+        play: () => command('playVideo'),
+        pause: () => command('pauseVideo'),
+        togglePlay: () => (store.get().paused ? controller.play() : controller.pause()),
+        seekTo: (seconds, options) => {
+            const target = Math.max(0, seconds);
+            command('seekTo', [target, true]);
+            if (options?.play !== false) command('playVideo');
+            store.update({ currentTime: target });
+        },
+        // ショートカットでの移動は再生状態を変えない
+        seekBy: delta => {
+            const target = clamp(store.get().currentTime + delta, 0, store.get().duration || Infinity);
+            command('seekTo', [target, true]);
+            store.update({ currentTime: target });
+        },
+        setPlaybackRate: rate => {
+            desiredRate = rate;
+            command('setPlaybackRate', [rate]);
+        },
+        setVolume: volume => {
+            const next = clamp(volume, 0, 1);
+            command('setVolume', [Math.round(next * 100)]);
+            if (next > 0 && store.get().muted) command('unMute');
+            store.update({ volume: next, muted: next === 0 ? store.get().muted : false });
+        },
+        setMuted: muted => {
+            command(muted ? 'mute' : 'unMute');
+            store.update({ muted });
+        },
+        getState: store.get,
+        subscribe: store.subscribe,
+        onEnded: store.onEnded,
+        destroy: () => {
+            iframe.removeEventListener('load', startListening);
+            window.removeEventListener('message', handleMessage);
+            store.clear();
+        },
+    };
+    return controller;
+};
+
+// Stream モードの <video> と音声のみモードの <audio> で共通
+export const createMediaPlaybackController = (video: HTMLMediaElement): PlaybackController => {
+    const store = createStateStore();
+
+    const readState = () => store.update({
+        currentTime: video.currentTime,
+        duration: Number.isFinite(video.duration) ? video.duration : 0,
+        paused: video.paused,
+        playbackRate: video.playbackRate,
+        volume: video.volume,
+        muted: video.muted,
+    });
+    const handleEnded = () => store.emitEnded();
+
+    const events = ['timeupdate', 'seeked', 'durationchange', 'play', 'pause', 'ratechange', 'volumechange', 'loadedmetadata'];
+    events.forEach(type => video.addEventListener(type, readState));
+    video.addEventListener('ended', handleEnded);
+    readState();
+
+    const controller: PlaybackController = {
+        play: () => { video.play().catch(() => {}); },
+        pause: () => video.pause(),
+        togglePlay: () => (video.paused ? controller.play() : controller.pause()),
+        seekTo: (seconds, options) => {
+            video.currentTime = Math.max(0, seconds);
+            if (options?.play !== false) controller.play();
+            store.update({ currentTime: video.currentTime });
+        },
+        seekBy: delta => {
+            video.currentTime = clamp(video.currentTime + delta, 0, Number.isFinite(video.duration) ? video.duration : Infinity);
+        },
+        setPlaybackRate: rate => {
+            // 画質切り替えなどで src が変わっても同じ速度になるよう defaultPlaybackRate も変える
+            video.defaultPlaybackRate = rate;
+            video.playbackRate = rate;
+        },
+        setVolume: volume => {
+            video.volume = clamp(volume, 0, 1);
+            if (video.volume > 0) video.muted = false;
+        },
+        setMuted: muted => { video.muted = muted; },
+        getState: store.get,
+        subscribe: store.subscribe,
+        onEnded: store.onEnded,
+        destroy: () => {
+            events.forEach(type => video.removeEventListener(type, readState));
+            video.removeEventListener('ended', handleEnded);
+            store.clear();
+        },
+    };
+    return controller;
+};
@@ -0,0 +1,20 @@
+import { ApiError, executeWithResilience, parseRetryAfter } from '../resilience';
+
+// 外部インスタンス (Invidious / Piped) 向けのJSON取得。
+// サーキットブレーカーはプロバイダー単位でまとめる（1インスタンスが落ちたら全操作が落ちるため）。
+export const fetchProviderJson = (family: string, url: string, signal?: AbortSignal): Promise<any> => {
+    return executeWithResilience(async () => {
+        const response = await fetch(url, { signal });
+        const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        let data;
+        try {
+            data = await response.json();
+        } catch {
+            throw new ApiError(`${family} returned a non-JSON response`, response.ok ? 0 : response.status, retryAfterMs);
+        }
+        if (!response.ok) {
+            throw new ApiError(data?.error || data?.message || `${family} request failed with status ${response.status}`, response.status, retryAfterMs);
+        }
+        return data;
+    }, { family, endpoint: url, signal, retry: { retries: 1 } });
+};
@@ -0,0 +1,62 @@
+import { createInvidiousProvider } from './invidious';
+import { createPipedProvider } from './piped';
+import { getProviderSettings } from './settings';
+import type { DataProvider, ProviderId, ProviderOperation } from './types';
+
+export type { DataProvider, ProviderId, ProviderOperation, StreamData, StreamFormat, ChannelVideosPage } from './types';
+export { getProviderSettings, saveProviderSettings, subscribeToProviderSettings, ALL_PROVIDERS, PROVIDER_LABELS, DEFAULT_PROVIDER_SETTINGS, type ProviderSettings } from './settings';
+
+// --- PROVIDER FAILOVER ---
+// 設定された順番でプロバイダーを試し、最初に成功した結果を返す。
+// サーバー実装は utils/api.ts にあるため、呼び出し側から渡してもらう。
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+export const resolveProviders = (serverProvider: DataProvider): DataProvider[] => {
+    const settings = getProviderSettings();
+    return settings.order.map(id => {
+        switch (id) {
+            case 'invidious': return createInvidiousProvider(settings.invidiousInstance);
+            case 'piped': return createPipedProvider(settings.pipedInstance);
+            default: return serverProvider;
+        }
+    });
+};
+
+// 継続トークンは発行したプロバイダーでしか使えない
+// ("invidious:..." / "piped:..."、それ以外はサーバーの continuation。"1" は最初のページなのでどこでもよい)
+export const getTokenOwner = (pageToken: string | undefined): ProviderId | null => {
+    if (!pageToken || pageToken === '1') return null;
+    const prefix = pageToken.split(':')[0];
+    if (prefix === 'invidious' || prefix === 'piped') return prefix;
+    return 'server';
+};
+
+export const runWithFailover = async <T,>(
+    serverProvider: DataProvider,
+    operation: ProviderOperation,
+    call: (provider: DataProvider) => Promise<T>,
+    pageToken?: string
+): Promise<T> => {
+    let providers = resolveProviders(serverProvider);
+    const owner = getTokenOwner(pageToken);
+    if (owner) {
+        const pinned = providers.find(provider => provider.id === owner) ?? (owner === 'server' ? serverProvider : null);
+        providers = pinned ? [pinned] : providers;
+    }
+
+    let firstError: unknown = null;
+    for (const provider of providers) {
+        try {
+            return await call(provider);
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            firstError = firstError ?? error;
+            const hasNext = provider !== providers[providers.length - 1];
+            if (hasNext) {
+                console.warn(`[provider:${provider.id}] ${operation} failed, trying next provider`, error);
+            }
+        }
+    }
+    throw firstError;
+};
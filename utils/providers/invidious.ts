@@ -0,0 +1,229 @@
+import type { Video, Channel, ApiPlaylist, Comment, VideoDetails, ChannelDetails, PlaylistDetails, SearchResults, SearchFilters } from '../../types';
+import { formatDuration, formatJapaneseDate, formatJapaneseNumber } from '../format';
+import { fetchProviderJson } from './http';
+import { toAbsoluteUrl, defaultThumbnail, formatViews, formatSubscribers } from './normalize';
+import { parseChaptersFromDescription } from '../chapters';
+import { ApiError } from '../resilience';
+import type { DataProvider, StreamData, StreamFormat } from './types';
+
+// --- INVIDIOUS PROVIDER ---
+// https://docs.invidious.io/api/ 互換の JSON API を既存の型に正規化する。
+// 継続トークンは "invidious:" を付けて返し、他プロバイダーに渡らないようにする。
+
+const TOKEN_PREFIX = 'invidious:';
+
+const pickThumbnail = (thumbnails: any[] | undefined, instance: string): string => {
+    if (!Array.isArray(thumbnails) || thumbnails.length === 0) return '';
+    const preferred = thumbnails.find(t => t.quality === 'medium' || t.quality === 'high') ?? thumbnails[thumbnails.length - 1];
+    return toAbsoluteUrl(preferred?.url, instance);
+};
+
+const mapVideo = (item: any, instance: string): Video | null => {
+    if (!item?.videoId) return null;
+    return {
+        id: item.videoId,
+        thumbnailUrl: defaultThumbnail(item.videoId),
+        duration: item.liveNow ? 'LIVE' : formatDuration(item.lengthSeconds ?? 0),
+        isoDuration: `PT${item.lengthSeconds ?? 0}S`,
+        title: item.title || '無題の動画',
+        channelName: item.author || '不明なチャンネル',
+        channelId: item.authorId || '',
+        channelAvatarUrl: pickThumbnail(item.authorThumbnails, instance),
+        views: typeof item.viewCount === 'number' ? formatViews(item.viewCount) : (item.viewCountText || '視聴回数不明'),
+        uploadedAt: formatJapaneseDate(item.publishedText || ''),
+        descriptionSnippet: item.description || '',
+    };
+};
+
+const mapChannel = (item: any, instance: string): Channel | null => {
+    if (!item?.authorId) return null;
+    return {
+        id: item.authorId,
+        name: item.author || 'No Name',
+        avatarUrl: pickThumbnail(item.authorThumbnails, instance),
+        subscriberCount: formatSubscribers(item.subCount),
+    };
+};
+
+const mapPlaylist = (item: any, instance: string): ApiPlaylist | null => {
+    if (!item?.playlistId) return null;
+    return {
+        id: item.playlistId,
+        title: item.title,
+        thumbnailUrl: toAbsoluteUrl(item.playlistThumbnail, instance) || (item.videos?.[0]?.videoId ? defaultThumbnail(item.videos[0].videoId) : undefined),
+        videoCount: item.videoCount ?? 0,
+        author: item.author,
+        authorId: item.authorId,
+    };
+};
+
+const mapComment = (item: any, instance: string): Comment => ({
+    comment_id: item.commentId,
+    text: item.content || '',
+    published_time: formatJapaneseDate(item.publishedText || ''),
+    author: {
+        id: item.authorId || '',
+        name: item.author || '',
+        thumbnails: [{ url: pickThumbnail(item.authorThumbnails, instance) }],
+    },
+    like_count: formatJapaneseNumber(item.likeCount ?? 0),
+    reply_count: String(item.replies?.replyCount ?? 0),
+    is_pinned: !!item.isPinned,
+    is_hearted: !!item.creatorHeart,
+    author_is_channel_owner: !!item.authorIsChannelOwner,
+    replies_token: item.replies?.continuation ? `${TOKEN_PREFIX}${item.replies.continuation}` : undefined,
+});
+
+// Invidious の検索パラメータは youtubei とほぼ同じ値を取る (date / sort だけ名前が違う)
+const toSearchParams = (filters: SearchFilters): string => {
+    const params = new URLSearchParams({ type: filters.type || 'all' });
+    if (filters.uploadDate && filters.uploadDate !== 'all') params.set('date', filters.uploadDate);
+    if (filters.duration && filters.duration !== 'all') params.set('duration', filters.duration);
+    if (filters.sortBy && filters.sortBy !== 'relevance') params.set('sort', filters.sortBy);
+    if (filters.features?.length) params.set('features', filters.features.join(','));
+    return `&${params.toString()}`;
+};
+
+const toFormat = (format: any, instance: string): StreamFormat => ({
+    url: toAbsoluteUrl(format.url, instance),
+    quality: format.qualityLabel || format.quality || format.resolution,
+    mimeType: format.type,
+});
+
+export const createInvidiousProvider = (instance: string): DataProvider => {
+    const request = (path: string, signal?: AbortSignal) => fetchProviderJson('invidious', `${instance}/api/v1/${path}`, signal);
+
+    const fetchVideo = (videoId: string, signal?: AbortSignal) => request(`videos/${videoId}?hl=ja&local=true`, signal);
+
+    const readToken = (pageToken: string) => pageToken.startsWith(TOKEN_PREFIX) ? pageToken.slice(TOKEN_PREFIX.length) : '';
+
+    return {
+        id: 'invidious',
+
+        async search(query, pageToken, filters, signal) {
+            const page = parseInt(pageToken.replace(TOKEN_PREFIX, ''), 10) || 1;
+            // Invidious はページ番号で辿るため、2ページ目以降も同じ条件を付け直す
+            const items: any[] = await request(`search?q=${encodeURIComponent(query)}&page=${page}&hl=ja${toSearchParams(filters)}`, signal);
+            const results: SearchResults = { videos: [], shorts: [], channels: [], playlists: [] };
+            for (const item of Array.isArray(items) ? items : []) {
+                if (item.type === 'video') {
+                    const video = mapVideo(item, instance);
+                    if (video) (item.isShort ? results.shorts : results.videos).push(video);
+                } else if (item.type === 'channel') {
+                    const channel = mapChannel(item, instance);
+                    if (channel) results.channels.push(channel);
+                } else if (item.type === 'playlist') {
+                    const playlist = mapPlaylist(item, instance);
+                    if (playlist) results.playlists.push(playlist);
+                }
+            }
+            if (items?.length > 0) results.nextPageToken = `${TOKEN_PREFIX}${page + 1}`;
+            return results;
+        },
+
+        async getVideoDetails(videoId, signal) {
+            const data = await fetchVideo(videoId, signal);
+            const video = mapVideo(data, instance);
+            // videoId の無い応答は壊れているので、次のプロバイダーに任せる
+            if (!video) throw new ApiError(`invidious returned no video for ${videoId}`);
+            const channel: Channel = {
+                id: data.authorId || '',
+                name: data.author || '不明なチャンネル',
+                avatarUrl: pickThumbnail(data.authorThumbnails, instance),
+                subscriberCount: data.subCountText ? `チャンネル登録者数 ${data.subCountText}人` : '非公開',
+            };
+            const details: VideoDetails = {
+                ...video,
+                id: videoId,
+                thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+                channelAvatarUrl: channel.avatarUrl,
+                description: data.description ?? '',
+                likes: formatJapaneseNumber(data.likeCount ?? 0),
+                dislikes: '0',
+                channel,
+                relatedVideos: (data.recommendedVideos || [])
+                    .map((item: any) => mapVideo(item, instance))
+                    .filter((v: Video | null): v is Video => v !== null),
+                // Invidious はチャプターを返さないので説明文から推定する
+                chapters: parseChaptersFromDescription(data.description ?? ''),
+            };
+            return details;
+        },
+
+        async getComments(videoId, pageToken, sort, signal) {
+            const continuation = readToken(pageToken);
+            const sortBy = sort === 'newest' ? 'new' : 'top';
+            const data = await request(`comments/${videoId}?hl=ja&sort_by=${sortBy}${continuation ? `&continuation=${encodeURIComponent(continuation)}` : ''}`, signal);
+            return {
+                comments: (data.comments || []).map((item: any) => mapComment(item, instance)),
+                totalCount: typeof data.commentCount === 'number' ? formatJapaneseNumber(data.commentCount) : undefined,
+                nextPageToken: data.continuation ? `${TOKEN_PREFIX}${data.continuation}` : undefined,
+            };
+        },
+
+        async getCommentReplies(videoId, repliesToken, signal) {
+            // 返信も同じ comments エンドポイントに continuation を渡して取得する
+            const data = await request(`comments/${videoId}?hl=ja&continuation=${encodeURIComponent(readToken(repliesToken))}`, signal);
+            return {
+                replies: (data.comments || []).map((item: any) => mapComment(item, instance)),
+                nextPageToken: data.continuation ? `${TOKEN_PREFIX}${data.continuation}` : undefined,
+            };
+        },
+
+        async getChannelDetails(channelId, signal) {
+            const data = await request(`channels/${channelId}?hl=ja`, signal);
+            const details: ChannelDetails = {
+                id: channelId,
+                name: data.author ?? 'No Name',
+                avatarUrl: pickThumbnail(data.authorThumbnails, instance),
+                subscriberCount: formatSubscribers(data.subCount),
+                bannerUrl: toAbsoluteUrl(data.authorBanners?.[0]?.url, instance) || undefined,
+                description: data.description ?? '',
+                videoCount: 0,
+                handle: data.author,
+            };
+            return details;
+        },
+
+        async getChannelVideos(channelId, pageToken, signal) {
+            const continuation = readToken(pageToken);
+            const query = continuation ? `?continuation=${encodeURIComponent(continuation)}` : '';
+            const data = await request(`channels/${channelId}/videos${query}`, signal);
+            const videos = (data.videos || [])
+                .map((item: any) => mapVideo(item, instance))
+                .filter((v: Video | null): v is Video => v !== null);
+            return { videos, nextPageToken: data.continuation ? `${TOKEN_PREFIX}${data.continuation}` : undefined };
+        },
+
+        async getPlaylistDetails(playlistId, signal) {
+            const data = await request(`playlists/${playlistId}?hl=ja`, signal);
+            const details: PlaylistDetails = {
+                title: data.title,
+                author: data.author ?? '不明',
+                authorId: data.authorId ?? '',
+                description: data.description ?? '',
+                videos: (data.videos || [])
+                    .map((item: any) => mapVideo(item, instance))
+                    .filter((v: Video | null): v is Video => v !== null),
+            };
+            return details;
+        },
+
+        async getStreamData(videoId, signal) {
+            const data = await fetchVideo(videoId, signal);
+            const combinedFormats: StreamFormat[] = (data.formatStreams || []).map((f: any) => toFormat(f, instance));
+            const adaptive: any[] = data.adaptiveFormats || [];
+            const video1080 = adaptive.find(f => f.type?.startsWith('video/mp4') && f.qualityLabel?.startsWith('1080p'));
+            const bestAudio = adaptive
+                .filter(f => f.type?.startsWith('audio/mp4'))
+                .sort((a, b) => (parseInt(b.bitrate, 10) || 0) - (parseInt(a.bitrate, 10) || 0))[0];
+            const streamData: StreamData = {
+                streamingUrl: combinedFormats.find(f => f.quality === '360p')?.url ?? combinedFormats[0]?.url,
+                combinedFormats,
+                separate1080p: video1080 ? { video: toFormat(video1080, instance), audio: bestAudio ? toFormat(bestAudio, instance) : undefined } : undefined,
+                audioOnlyFormat: bestAudio ? { ...toFormat(bestAudio, instance), quality: bestAudio.audioQuality } : undefined,
+            };
+            return streamData;
+        },
+    };
+};
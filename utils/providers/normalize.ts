@@ -0,0 +1,41 @@
+import { formatJapaneseNumber } from '../format';
+
+// --- SHARED NORMALIZATION HELPERS ---
+// Invidious / Piped のレスポンスを既存の型に合わせるための小さなヘルパー群
+
+// "//yt3.ggpht.com/..." やインスタンス相対パスを絶対URLにする
+export const toAbsoluteUrl = (url: string | undefined, instance: string): string => {
+    if (!url) return '';
+    if (url.startsWith('//')) return `https:${url}`;
+    if (url.startsWith('/')) return `${instance}${url}`;
+    return url;
+};
+
+export const defaultThumbnail = (videoId: string) => `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`;
+
+export const formatViews = (count: number | undefined | null): string => {
+    if (count === undefined || count === null || count < 0) return '視聴回数不明';
+    return `${formatJapaneseNumber(count)}回視聴`;
+};
+
+export const formatSubscribers = (count: number | undefined | null): string => {
+    if (count === undefined || count === null || count < 0) return '非公開';
+    return `チャンネル登録者数 ${formatJapaneseNumber(count)}人`;
+};
+
+const HTML_ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+// Piped の HTML 説明文から改行を保ったままテキストを取り出す (描画は RichText がリンク等を拾い直す)
+export const htmlToPlainText = (html: string | undefined): string => {
+    if (!html) return '';
+    return html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(?:amp|lt|gt|quot|#39);/g, entity => HTML_ENTITIES[entity]);
+};
+
+// "/watch?v=ID" や "/channel/ID" からIDを取り出す (Piped)
+export const extractIdFromPath = (path: string | undefined, pattern: RegExp): string => {
+    if (!path) return '';
+    return path.match(pattern)?.[1] ?? '';
+};
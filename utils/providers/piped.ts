@@ -0,0 +1,236 @@
+import type { Video, Channel, ApiPlaylist, Comment, VideoDetails, ChannelDetails, PlaylistDetails, SearchResults, SearchFilters } from '../../types';
+import { formatDuration, formatJapaneseDate, formatJapaneseNumber } from '../format';
+import { fetchProviderJson } from './http';
+import { defaultThumbnail, formatViews, formatSubscribers, extractIdFromPath, htmlToPlainText } from './normalize';
+import { parseChaptersFromDescription } from '../chapters';
+import type { DataProvider, StreamData, StreamFormat } from './types';
+
+// --- PIPED PROVIDER ---
+// https://docs.piped.video/docs/api-documentation/ 互換の JSON API を既存の型に正規化する。
+// Piped の nextpage は不透明な文字列なので "piped:" を付けてそのまま持ち回る。
+
+const TOKEN_PREFIX = 'piped:';
+
+const VIDEO_ID_PATTERN = /[?&]v=([\w-]{11})/;
+const CHANNEL_ID_PATTERN = /\/channel\/([\w-]+)/;
+const PLAYLIST_ID_PATTERN = /[?&]list=([\w-]+)/;
+
+const mapStream = (item: any): Video | null => {
+    const id = extractIdFromPath(item?.url, VIDEO_ID_PATTERN);
+    if (!id) return null;
+    return {
+        id,
+        thumbnailUrl: item.thumbnail || defaultThumbnail(id),
+        duration: item.duration === -1 ? 'LIVE' : formatDuration(item.duration ?? 0),
+        isoDuration: `PT${Math.max(item.duration ?? 0, 0)}S`,
+        title: item.title || '無題の動画',
+        channelName: item.uploaderName || '不明なチャンネル',
+        channelId: extractIdFromPath(item.uploaderUrl, CHANNEL_ID_PATTERN),
+        channelAvatarUrl: item.uploaderAvatar || '',
+        views: formatViews(item.views),
+        uploadedAt: formatJapaneseDate(item.uploadedDate || ''),
+        descriptionSnippet: item.shortDescription || '',
+    };
+};
+
+const mapChannel = (item: any): Channel | null => {
+    const id = extractIdFromPath(item?.url, CHANNEL_ID_PATTERN);
+    if (!id) return null;
+    return {
+        id,
+        name: item.name || 'No Name',
+        avatarUrl: item.thumbnail || '',
+        subscriberCount: formatSubscribers(item.subscribers),
+    };
+};
+
+const mapPlaylist = (item: any): ApiPlaylist | null => {
+    const id = extractIdFromPath(item?.url, PLAYLIST_ID_PATTERN);
+    if (!id) return null;
+    return {
+        id,
+        title: item.name,
+        thumbnailUrl: item.thumbnail,
+        videoCount: item.videos ?? 0,
+        author: item.uploaderName,
+        authorId: extractIdFromPath(item.uploaderUrl, CHANNEL_ID_PATTERN),
+    };
+};
+
+const mapComment = (item: any): Comment => ({
+    comment_id: item.commentId,
+    // commentText はリンクや <br> を含む HTML。RichText がプレーンテキストからリンクを作り直す
+    text: htmlToPlainText(item.commentText),
+    published_time: formatJapaneseDate(item.commentedTime || ''),
+    author: {
+        id: extractIdFromPath(item.commentorUrl, CHANNEL_ID_PATTERN),
+        name: item.author || '',
+        thumbnails: [{ url: item.thumbnail || '' }],
+    },
+    like_count: formatJapaneseNumber(item.likeCount ?? 0),
+    reply_count: String(item.replyCount ?? 0),
+    is_pinned: !!item.pinned,
+    is_hearted: !!item.hearted,
+    author_is_channel_owner: !!item.channelOwner,
+    replies_token: item.repliesPage ? `${TOKEN_PREFIX}${item.repliesPage}` : undefined,
+});
+
+const mapStreams = (items: any[] | undefined): Video[] => {
+    return (items || []).map(mapStream).filter((v): v is Video => v !== null);
+};
+
+// Piped が受け付けるのは種類の絞り込みだけ。期間・長さ・並び替え・特徴は無視される
+const toPipedFilter = (filters: SearchFilters): string => {
+    switch (filters.type) {
+        case 'video': return 'videos';
+        case 'channel': return 'channels';
+        case 'playlist': return 'playlists';
+        default: return 'all';
+    }
+};
+
+const toFormat = (stream: any): StreamFormat => ({
+    url: stream.url,
+    quality: stream.quality,
+    mimeType: stream.mimeType,
+});
+
+export const createPipedProvider = (instance: string): DataProvider => {
+    const request = (path: string, signal?: AbortSignal) => fetchProviderJson('piped', `${instance}/${path}`, signal);
+
+    const readToken = (pageToken: string) => pageToken.startsWith(TOKEN_PREFIX) ? pageToken.slice(TOKEN_PREFIX.length) : '';
+    const writeToken = (nextpage: string | null | undefined) => nextpage ? `${TOKEN_PREFIX}${nextpage}` : undefined;
+
+    return {
+        id: 'piped',
+
+        async search(query, pageToken, filters, signal) {
+            const nextpage = readToken(pageToken);
+            const q = encodeURIComponent(query);
+            const filter = toPipedFilter(filters);
+            const data = nextpage
+                ? await request(`nextpage/search?q=${q}&filter=${filter}&nextpage=${encodeURIComponent(nextpage)}`, signal)
+                : await request(`search?q=${q}&filter=${filter}`, signal);
+            const results: SearchResults = { videos: [], shorts: [], channels: [], playlists: [] };
+            for (const item of data.items || []) {
+                if (item.type === 'stream') {
+                    const video = mapStream(item);
+                    if (video) (item.isShort ? results.shorts : results.videos).push(video);
+                } else if (item.type === 'channel') {
+                    const channel = mapChannel(item);
+                    if (channel) results.channels.push(channel);
+                } else if (item.type === 'playlist') {
+                    const playlist = mapPlaylist(item);
+                    if (playlist) results.playlists.push(playlist);
+                }
+            }
+            results.nextPageToken = writeToken(data.nextpage);
+            return results;
+        },
+
+        async getVideoDetails(videoId, signal) {
+            const data = await request(`streams/${videoId}`, signal);
+            const channel: Channel = {
+                id: extractIdFromPath(data.uploaderUrl, CHANNEL_ID_PATTERN),
+                name: data.uploader || '不明なチャンネル',
+                avatarUrl: data.uploaderAvatar || '',
+                subscriberCount: formatSubscribers(data.uploaderSubscriberCount),
+            };
+            // Piped は説明文をHTML（リンク付き）で返すのでテキストに戻す
+            const description = htmlToPlainText(data.description);
+            const details: VideoDetails = {
+                id: videoId,
+                thumbnailUrl: data.thumbnailUrl || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+                duration: data.livestream ? 'LIVE' : formatDuration(data.duration ?? 0),
+                isoDuration: `PT${Math.max(data.duration ?? 0, 0)}S`,
+                title: data.title || '無題の動画',
+                channelName: channel.name,
+                channelId: channel.id,
+                channelAvatarUrl: channel.avatarUrl,
+                views: formatViews(data.views),
+                uploadedAt: data.uploadDate ? new Date(data.uploadDate).toLocaleDateString('ja-JP') : '',
+                description,
+                likes: formatJapaneseNumber(Math.max(data.likes ?? 0, 0)),
+                dislikes: '0',
+                channel,
+                relatedVideos: mapStreams(data.relatedStreams),
+                chapters: Array.isArray(data.chapters) && data.chapters.length > 0
+                    ? data.chapters.map((chapter: any) => ({ title: chapter.title || '', start: chapter.start ?? 0 }))
+                    : parseChaptersFromDescription(description),
+            };
+            return details;
+        },
+
+        // Piped のコメントは並び替えに対応していないので sort は無視する
+        async getComments(videoId, pageToken, _sort, signal) {
+            const nextpage = readToken(pageToken);
+            const data = nextpage
+                ? await request(`nextpage/comments/${videoId}?nextpage=${encodeURIComponent(nextpage)}`, signal)
+                : await request(`comments/${videoId}`, signal);
+            return {
+                comments: (data.comments || []).map(mapComment),
+                totalCount: typeof data.commentCount === 'number' && data.commentCount >= 0 ? formatJapaneseNumber(data.commentCount) : undefined,
+                nextPageToken: writeToken(data.nextpage),
+            };
+        },
+
+        async getCommentReplies(videoId, repliesToken, signal) {
+            const data = await request(`nextpage/comments/${videoId}?nextpage=${encodeURIComponent(readToken(repliesToken))}`, signal);
+            return { replies: (data.comments || []).map(mapComment), nextPageToken: writeToken(data.nextpage) };
+        },
+
+        async getChannelDetails(channelId, signal) {
+            const data = await request(`channel/${channelId}`, signal);
+            const details: ChannelDetails = {
+                id: channelId,
+                name: data.name ?? 'No Name',
+                avatarUrl: data.avatarUrl || '',
+                subscriberCount: formatSubscribers(data.subscriberCount),
+                bannerUrl: data.bannerUrl || undefined,
+                description: data.description ?? '',
+                videoCount: 0,
+                handle: data.name,
+            };
+            return details;
+        },
+
+        async getChannelVideos(channelId, pageToken, signal) {
+            const nextpage = readToken(pageToken);
+            const data = nextpage
+                ? await request(`nextpage/channel/${channelId}?nextpage=${encodeURIComponent(nextpage)}`, signal)
+                : await request(`channel/${channelId}`, signal);
+            return { videos: mapStreams(data.relatedStreams), nextPageToken: writeToken(data.nextpage) };
+        },
+
+        async getPlaylistDetails(playlistId, signal) {
+            const data = await request(`playlists/${playlistId}`, signal);
+            const details: PlaylistDetails = {
+                title: data.name,
+                author: data.uploader ?? '不明',
+                authorId: extractIdFromPath(data.uploaderUrl, CHANNEL_ID_PATTERN),
+                description: data.description ?? '',
+                videos: mapStreams(data.relatedStreams),
+            };
+            return details;
+        },
+
+        async getStreamData(videoId, signal) {
+            const data = await request(`streams/${videoId}`, signal);
+            const videoStreams: any[] = data.videoStreams || [];
+            const combinedFormats = videoStreams
+                .filter(s => !s.videoOnly && s.mimeType?.startsWith('video/mp4'))
+                .map(toFormat);
+            const video1080 = videoStreams.find(s => s.videoOnly && s.mimeType?.startsWith('video/mp4') && s.quality?.startsWith('1080p'));
+            const bestAudio = (data.audioStreams || [])
+                .filter((s: any) => s.mimeType?.startsWith('audio/mp4'))
+                .sort((a: any, b: any) => (b.bitrate || 0) - (a.bitrate || 0))[0];
+            const streamData: StreamData = {
+                streamingUrl: combinedFormats.find(f => f.quality === '360p')?.url ?? combinedFormats[0]?.url,
+                combinedFormats,
+                separate1080p: video1080 ? { video: toFormat(video1080), audio: bestAudio ? toFormat(bestAudio) : undefined } : undefined,
+                audioOnlyFormat: bestAudio ? toFormat(bestAudio) : undefined,
+            };
+            return streamData;
+        },
+    };
+};
@@ -0,0 +1,61 @@
+import type { ProviderId } from './types';
+
+// --- PROVIDER SETTINGS ---
+// order[0] が優先プロバイダー、それ以降は失敗時に順番に試すフェイルオーバー先。
+
+export interface ProviderSettings {
+    order: ProviderId[];
+    invidiousInstance: string;
+    pipedInstance: string;
+}
+
+const STORAGE_KEY = 'dataProviderSettings';
+
+export const ALL_PROVIDERS: ProviderId[] = ['server', 'invidious', 'piped'];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    server: 'XeroxYT サーバー (youtubei)',
+    invidious: 'Invidious',
+    piped: 'Piped',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    order: ['server'],
+    invidiousInstance: 'https://inv.nadeko.net',
+    pipedInstance: 'https://pipedapi.kavin.rocks',
+};
+
+const listeners = new Set<(settings: ProviderSettings) => void>();
+
+const normalizeInstance = (url: string) => url.trim().replace(/\/+$/, '');
+
+const sanitize = (raw: Partial<ProviderSettings>): ProviderSettings => {
+    const order = Array.isArray(raw.order)
+        ? raw.order.filter((id, index, list): id is ProviderId => ALL_PROVIDERS.includes(id) && list.indexOf(id) === index)
+        : [];
+    return {
+        order: order.length > 0 ? order : DEFAULT_PROVIDER_SETTINGS.order,
+        invidiousInstance: normalizeInstance(raw.invidiousInstance || DEFAULT_PROVIDER_SETTINGS.invidiousInstance),
+        pipedInstance: normalizeInstance(raw.pipedInstance || DEFAULT_PROVIDER_SETTINGS.pipedInstance),
+    };
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? sanitize(JSON.parse(stored)) : DEFAULT_PROVIDER_SETTINGS;
+    } catch {
+        return DEFAULT_PROVIDER_SETTINGS;
+    }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    const sanitized = sanitize(settings);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sanitized));
+    listeners.forEach(listener => listener(sanitized));
+};
+
+export const subscribeToProviderSettings = (listener: (settings: ProviderSettings) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
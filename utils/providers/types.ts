@@ -0,0 +1,42 @@
+import type { VideoDetails, CommentsPage, CommentRepliesPage, CommentSort, ChannelDetails, Video, PlaylistDetails, SearchResults, SearchFilters } from '../../types';
+
+export type ProviderId = 'server' | 'invidious' | 'piped';
+
+export interface StreamFormat {
+    url: string;
+    quality?: string;
+    mimeType?: string;
+}
+
+// /api/stream (xeroxdwapi) と同じ形に揃える。DownloadModal や LiteModePage がこの形を前提にしている
+export interface StreamData {
+    streamingUrl?: string;
+    combinedFormats?: StreamFormat[];
+    separate1080p?: { video?: StreamFormat; audio?: StreamFormat };
+    audioOnlyFormat?: StreamFormat;
+    [key: string]: any;
+}
+
+export interface ChannelVideosPage {
+    videos: Video[];
+    nextPageToken?: string;
+}
+
+/**
+ * データ取得元の共通インターフェース。
+ * どの実装も既存の Video / Channel 型に正規化した結果を返す。
+ */
+export interface DataProvider {
+    id: ProviderId;
+    // フィルターは1ページ目だけで使う。継続トークンには絞り込み条件が含まれている
+    search(query: string, pageToken: string, filters: SearchFilters, signal?: AbortSignal): Promise<SearchResults>;
+    getVideoDetails(videoId: string, signal?: AbortSignal): Promise<VideoDetails>;
+    getComments(videoId: string, pageToken: string, sort: CommentSort, signal?: AbortSignal): Promise<CommentsPage>;
+    getCommentReplies(videoId: string, repliesToken: string, signal?: AbortSignal): Promise<CommentRepliesPage>;
+    getChannelDetails(channelId: string, signal?: AbortSignal): Promise<ChannelDetails>;
+    getChannelVideos(channelId: string, pageToken: string, signal?: AbortSignal): Promise<ChannelVideosPage>;
+    getPlaylistDetails(playlistId: string, signal?: AbortSignal): Promise<PlaylistDetails>;
+    getStreamData(videoId: string, signal?: AbortSignal): Promise<StreamData>;
+}
+
+export type ProviderOperation = Exclude<keyof DataProvider, 'id'>;
@@ -17,6 +17,8 @@ interface RecommendationSource {
     hiddenVideos: HiddenVideo[];
     negativeKeywords: Map<string, number>;
     page: number;
+    // ページを離れたら取得を打ち切る
+    signal?: AbortSignal;
 }
 
 export interface HomeFeed {
@@ -95,12 +97,15 @@ export const getXraiRecommendations = async (sources: RecommendationSource): Pro
     }
 
     // 2. Fetch Content
-    const trendingPromise = getRecommendedVideos().then(res => res.videos).catch(() => []);
+    const { signal } = sources;
+    const trendingPromise = getRecommendedVideos(signal).then(res => res.videos).catch(() => []);
     const searchPromises = personalizedSeeds.map(query => 
-        searchVideos(query, '1').then(res => ({ videos: res.videos, shorts: res.shorts })).catch(() => ({ videos: [], shorts: [] }))
+        searchVideos(query, '1', undefined, signal).then(res => ({ videos: res.videos, shorts: res.shorts })).catch(() => ({ videos: [], shorts: [] }))
     );
     
     const [trendingContent, personalizedResults] = await Promise.all([trendingPromise, Promise.all(searchPromises)]);
+    // 個々の失敗は空として扱うが、中断は呼び出し元に伝える
+    signal?.throwIfAborted();
 
     // 3. Separate ALL content into videos and shorts FIRST
     const allTrendingVideos: Video[] = [];
@@ -158,7 +163,8 @@ export const getXraiShorts = async (sources: RecommendationSource & { seenIds?:
         ngChannels,
         ngKeywords,
         negativeKeywords,
-        seenIds = []
+        seenIds = [],
+        signal
     } = sources;
 
     // --- Configuration ---
@@ -209,17 +215,18 @@ export const getXraiShorts = async (sources: RecommendationSource & { seenIds?:
     const selectedQueries = shuffleArray(popularQueries).slice(0, 3);
     
     const popularPromise = Promise.all([
-        getRecommendedVideos().then(res => res.videos.filter(isShortVideo)).catch(() => []),
-        ...selectedQueries.map(q => searchVideos(q, '1').then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => []))
+        getRecommendedVideos(signal).then(res => res.videos.filter(isShortVideo)).catch(() => []),
+        ...selectedQueries.map(q => searchVideos(q, '1', undefined, signal).then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => []))
     ]).then(results => results.flat());
     
     const topKeywords = [...userVector.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(e => e[0]);
     const personalizedSeeds = topKeywords.length > 0 ? topKeywords.map(k => `${k} #shorts`) : ["音楽 #shorts"];
     const personalizedPromise = Promise.all(personalizedSeeds.map(query => 
-        searchVideos(query, '1').then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => [])
+        searchVideos(query, '1', undefined, signal).then(res => [...res.videos, ...res.shorts].filter(isShortVideo)).catch(() => [])
     )).then(results => results.flat());
 
     const [popularShortsRaw, personalizedShortsRaw] = await Promise.all([popularPromise, personalizedPromise]);
+    signal?.throwIfAborted();
 
     // --- Filtering & Scoring ---
     const allSeenIds = new Set([
@@ -314,4 +321,37 @@ export const getXraiShorts = async (sources: RecommendationSource & { seenIds?:
     }
 
     return shuffleArray(finalFeed);
-};
\ No newline at end of file
+};
+
+// --- AUTOPLAY NEXT ---
+// 動画の終了時に自動で再生する候補。関連動画 (内部 + 外部) から、見たことのある動画・非表示・
+// NG チャンネル・NG キーワード・ショートを除いて、並び順のまま返す。
+interface AutoplaySource {
+    currentVideoId: string;
+    relatedVideos: Video[];
+    externalRelatedVideos: Video[];
+    watchHistory: Video[];
+    hiddenVideos: HiddenVideo[];
+    ngChannels: BlockedChannel[];
+    ngKeywords: string[];
+}
+
+export const getAutoplayCandidates = (sources: AutoplaySource): Video[] => {
+    const excludedIds = new Set<string>([
+        sources.currentVideoId,
+        ...sources.watchHistory.map(v => v.id),
+        ...sources.hiddenVideos.map(v => v.id),
+    ]);
+    const ngChannelIds = new Set(sources.ngChannels.map(c => c.id));
+
+    return [...sources.relatedVideos, ...sources.externalRelatedVideos].filter(v => {
+        if (excludedIds.has(v.id)) return false;
+        // 内部と外部で同じ動画が重複していることがある
+        excludedIds.add(v.id);
+
+        const fullText = `${v.title} ${v.channelName}`.toLowerCase();
+        if (sources.ngKeywords.some(ng => fullText.includes(ng.toLowerCase()))) return false;
+        if (ngChannelIds.has(v.channelId)) return false;
+        return !isShortVideo(v);
+    });
+};
@@ -0,0 +1,260 @@
+// --- RETRY & CIRCUIT BREAKER ---
+// youtubei系のエンドポイントは一時的に500を返すことがあるため、
+// リトライとエンドポイント単位のサーキットブレーカーで吸収する。
+
+export interface RetryOptions {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Retry-After is honoured up to this cap; a longer wait fails fast instead of retrying early
+    maxRetryAfterMs: number;
+}
+
+export interface BreakerOptions {
+    failureThreshold: number;
+    cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type ResilienceEvent =
+    | { type: 'retry'; family: string; endpoint: string; attempt: number; delayMs: number; error: string }
+    | { type: 'failure'; family: string; endpoint: string; error: string }
+    | { type: 'circuit'; family: string; state: CircuitState };
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 2,
+    baseDelayMs: 400,
+    maxDelayMs: 5000,
+    maxRetryAfterMs: 30 * 1000,
+};
+
+export const DEFAULT_BREAKER_OPTIONS: BreakerOptions = {
+    failureThreshold: 4,
+    cooldownMs: 30 * 1000,
+};
+
+export class ApiError extends Error {
+    status: number;
+    retryAfterMs: number | null;
+    isCircuitOpen: boolean;
+
+    constructor(message: string, status = 0, retryAfterMs: number | null = null, isCircuitOpen = false) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+        this.isCircuitOpen = isCircuitOpen;
+    }
+}
+
+// Retry-After は秒数またはHTTP日付のどちらでも来る
+export const parseRetryAfter = (header: string | null): number | null => {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+    return null;
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+    if (error instanceof DOMException && error.name === 'AbortError') return false;
+    if (error instanceof ApiError) {
+        if (error.isCircuitOpen) return false;
+        // status 0 = network failure or unparsable body
+        return error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500;
+    }
+    // fetch() rejects with TypeError on network errors
+    return error instanceof TypeError;
+};
+
+// --- OBSERVABILITY ---
+
+const eventListeners = new Set<(event: ResilienceEvent) => void>();
+
+const isDebugEnabled = () => {
+    try {
+        return localStorage.getItem('debugApi') === 'true';
+    } catch {
+        return false;
+    }
+};
+
+const emit = (event: ResilienceEvent) => {
+    if (isDebugEnabled()) console.debug('[API resilience]', event);
+    eventListeners.forEach(listener => listener(event));
+};
+
+export const subscribeToResilienceEvents = (listener: (event: ResilienceEvent) => void): (() => void) => {
+    eventListeners.add(listener);
+    return () => { eventListeners.delete(listener); };
+};
+
+// --- CIRCUIT BREAKER ---
+
+interface BreakerRecord {
+    state: CircuitState;
+    consecutiveFailures: number;
+    // Usually openedAt + cooldownMs, or later when the server sent a long Retry-After
+    openUntil: number;
+    trialInFlight: boolean;
+}
+
+const breakers = new Map<string, BreakerRecord>();
+
+const getBreaker = (family: string): BreakerRecord => {
+    let record = breakers.get(family);
+    if (!record) {
+        record = { state: 'closed', consecutiveFailures: 0, openUntil: 0, trialInFlight: false };
+        breakers.set(family, record);
+    }
+    return record;
+};
+
+const setBreakerState = (family: string, record: BreakerRecord, state: CircuitState) => {
+    if (record.state === state) return;
+    record.state = state;
+    emit({ type: 'circuit', family, state });
+};
+
+export const getOpenCircuits = (): string[] => {
+    return Array.from(breakers.entries())
+        .filter(([, record]) => record.state !== 'closed')
+        .map(([family]) => family);
+};
+
+export const getCircuitSnapshot = (): Record<string, { state: CircuitState; consecutiveFailures: number }> => {
+    const snapshot: Record<string, { state: CircuitState; consecutiveFailures: number }> = {};
+    breakers.forEach((record, family) => {
+        snapshot[family] = { state: record.state, consecutiveFailures: record.consecutiveFailures };
+    });
+    return snapshot;
+};
+
+export const resetCircuit = (family: string) => {
+    const record = breakers.get(family);
+    if (!record) return;
+    record.consecutiveFailures = 0;
+    record.trialInFlight = false;
+    setBreakerState(family, record, 'closed');
+};
+
+// --- EXECUTION ---
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+// Full jitter: random delay between 0 and the exponential cap
+const computeDelay = (attempt: number, options: RetryOptions, retryAfterMs: number | null): number => {
+    if (retryAfterMs !== null) return retryAfterMs;
+    const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * cap);
+};
+
+const getRetryAfter = (error: unknown): number | null => {
+    return error instanceof ApiError ? error.retryAfterMs : null;
+};
+
+export interface ResilientRequestOptions {
+    family: string;
+    endpoint: string;
+    signal?: AbortSignal;
+    // false disables retries (e.g. non-idempotent requests)
+    retry?: Partial<RetryOptions> | false;
+    breaker?: Partial<BreakerOptions> | false;
+}
+
+export const executeWithResilience = async <T,>(
+    request: () => Promise<T>,
+    { family, endpoint, signal, retry, breaker }: ResilientRequestOptions
+): Promise<T> => {
+    const retryOptions: RetryOptions = retry === false
+        ? { ...DEFAULT_RETRY_OPTIONS, retries: 0 }
+        : { ...DEFAULT_RETRY_OPTIONS, ...retry };
+    const breakerOptions: BreakerOptions | null = breaker === false
+        ? null
+        : { ...DEFAULT_BREAKER_OPTIONS, ...breaker };
+
+    const record = breakerOptions ? getBreaker(family) : null;
+    let isTrialRequest = false;
+
+    if (record && breakerOptions) {
+        if (record.state === 'open') {
+            if (Date.now() < record.openUntil) {
+                throw new ApiError(`サービスが一時的に利用できません (${family})`, 503, null, true);
+            }
+            setBreakerState(family, record, 'half-open');
+        }
+        if (record.state === 'half-open') {
+            // Only a single probe request is allowed through while half-open
+            if (record.trialInFlight) {
+                throw new ApiError(`サービスが一時的に利用できません (${family})`, 503, null, true);
+            }
+            record.trialInFlight = true;
+            isTrialRequest = true;
+        }
+    }
+
+    // A half-open probe should fail fast instead of retrying
+    const maxRetries = isTrialRequest ? 0 : retryOptions.retries;
+
+    try {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await request();
+                if (record) {
+                    record.consecutiveFailures = 0;
+                    setBreakerState(family, record, 'closed');
+                }
+                return result;
+            } catch (error) {
+                if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+                const retryAfterMs = getRetryAfter(error);
+                if (retryAfterMs !== null && retryAfterMs > retryOptions.maxRetryAfterMs) throw error;
+                const delayMs = computeDelay(attempt, retryOptions, retryAfterMs);
+                emit({ type: 'retry', family, endpoint, attempt: attempt + 1, delayMs, error: String((error as Error)?.message ?? error) });
+                await sleep(delayMs, signal);
+            }
+        }
+    } catch (error) {
+        if (record && breakerOptions) {
+            if (isRetryableError(error)) {
+                record.consecutiveFailures++;
+                emit({ type: 'failure', family, endpoint, error: String((error as Error)?.message ?? error) });
+                // The server asked us to stay away longer than we are willing to wait: keep the circuit open until then
+                const retryAfterMs = getRetryAfter(error) ?? 0;
+                const isBackingOff = retryAfterMs > retryOptions.maxRetryAfterMs;
+                if (isTrialRequest || isBackingOff || record.consecutiveFailures >= breakerOptions.failureThreshold) {
+                    record.openUntil = Date.now() + Math.max(breakerOptions.cooldownMs, retryAfterMs);
+                    setBreakerState(family, record, 'open');
+                }
+            } else if (error instanceof ApiError && !error.isCircuitOpen) {
+                // A 4xx still means the backend is answering
+                record.consecutiveFailures = 0;
+                setBreakerState(family, record, 'closed');
+            } else if (isTrialRequest) {
+                // Aborted probe: let the next request probe again
+                setBreakerState(family, record, 'open');
+            }
+        }
+        throw error;
+    } finally {
+        if (record && isTrialRequest) record.trialInFlight = false;
+    }
+};
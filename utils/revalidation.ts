@@ -0,0 +1,99 @@
+// --- STALE-WHILE-REVALIDATE ---
+// キャッシュ済みのメタデータは即座に返し、一定時間経過していれば裏で再取得する。
+// 再取得が終わったら購読中のページに通知して再描画させる。
+import { cache, type CacheNamespace } from './cache';
+
+const MINUTE = 60 * 1000;
+
+// これより古いエントリはバックグラウンドで更新する（ハードな期限は cache.ts の TTL）
+const REVALIDATE_AFTER: Partial<Record<CacheNamespace, number>> = {
+    'video-details': 5 * MINUTE,
+    'video-summary': 30 * MINUTE,
+    'channel-details': 10 * MINUTE,
+    'channel-home': 10 * MINUTE,
+    'playlist-details': 10 * MINUTE,
+};
+
+export interface RevalidationEvent<T = any> {
+    namespace: CacheNamespace;
+    id: string;
+    data: T;
+    updatedAt: number;
+    // 'loaded' = served from cache or first fetch, 'revalidated' = fresh data replaced a stale entry
+    reason: 'loaded' | 'revalidated';
+}
+
+const listeners = new Set<(event: RevalidationEvent) => void>();
+const lastUpdated = new Map<string, number>();
+const pendingRevalidations = new Set<string>();
+
+const buildKey = (namespace: CacheNamespace, id: string) => `${namespace}-${id}`;
+
+const publish = <T,>(namespace: CacheNamespace, id: string, data: T, updatedAt: number, reason: RevalidationEvent['reason']) => {
+    lastUpdated.set(buildKey(namespace, id), updatedAt);
+    listeners.forEach(listener => listener({ namespace, id, data, updatedAt, reason }));
+};
+
+export const subscribeToRevalidation = (listener: (event: RevalidationEvent) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getLastUpdated = (namespace: CacheNamespace, id: string): number | null => {
+    return lastUpdated.get(buildKey(namespace, id)) ?? null;
+};
+
+export const isStale = (namespace: CacheNamespace, updatedAt: number): boolean => {
+    const threshold = REVALIDATE_AFTER[namespace];
+    return threshold !== undefined && Date.now() - updatedAt > threshold;
+};
+
+// 呼び出し元のページ遷移に左右されないよう、signal は渡さずに再取得する
+export const revalidateInBackground = <T,>(namespace: CacheNamespace, id: string, fetcher: () => Promise<T>) => {
+    const key = buildKey(namespace, id);
+    if (pendingRevalidations.has(key)) return;
+    pendingRevalidations.add(key);
+    fetcher()
+        .then(async data => {
+            await cache.set(namespace, id, data);
+            publish(namespace, id, data, Date.now(), 'revalidated');
+        })
+        .catch(error => console.warn(`Background revalidation failed for ${key}:`, error))
+        .finally(() => pendingRevalidations.delete(key));
+};
+
+// 新しく取得したデータをキャッシュに書き込み、購読者に通知する
+export const storeFresh = async <T,>(namespace: CacheNamespace, id: string, data: T, reason: RevalidationEvent['reason'] = 'loaded') => {
+    await cache.set(namespace, id, data);
+    publish(namespace, id, data, Date.now(), reason);
+};
+
+export const withStaleWhileRevalidate = async <T,>(
+    namespace: CacheNamespace,
+    id: string,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> => {
+    const entry = await cache.getEntry<T>(namespace, id);
+    // キャッシュから返す場合も、読み込み中に中断されていたら呼び出し元に AbortError を返す
+    signal?.throwIfAborted();
+    if (entry) {
+        publish(namespace, id, entry.data, entry.updatedAt, 'loaded');
+        if (isStale(namespace, entry.updatedAt)) {
+            revalidateInBackground(namespace, id, () => fetcher());
+        }
+        return entry.data;
+    }
+    const data = await fetcher(signal);
+    await storeFresh(namespace, id, data);
+    return data;
+};
+
+export const formatLastUpdated = (updatedAt: number): string => {
+    const minutes = Math.floor((Date.now() - updatedAt) / MINUTE);
+    if (minutes < 1) return 'たった今';
+    if (minutes < 60) return `${minutes}分前`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}時間前`;
+    return `${Math.floor(hours / 24)}日前`;
+};
@@ -0,0 +1,139 @@
+import type { RichTextRun } from '../types';
+import { parseTimestamp } from './chapters';
+
+// --- RICH TEXT ---
+// 説明欄・コメントの文字列を安全に描画するため、HTML ではなくセグメント列に分解する。
+// youtubei のラン (リンク付きテキスト) はその URL を優先し、素のテキストは正規表現で
+// URL / #ハッシュタグ / @メンション / タイムスタンプを拾う。描画は components/RichText.tsx。
+
+export type RichTextSegment =
+    | { type: 'text'; text: string; bold?: boolean; italics?: boolean }
+    // href は http(s) の外部 URL のみ
+    | { type: 'link'; text: string; href: string }
+    // path はアプリ内のルート (/watch/ID, /channel/ID, /results?... など)
+    | { type: 'internal'; text: string; path: string }
+    | { type: 'timestamp'; text: string; seconds: number };
+
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+const YOUTUBE_HOSTS = new Set(['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com']);
+
+// 1 = URL, 2 = ハッシュタグ, 3 = メンション, 4 = タイムスタンプ
+const PLAIN_TEXT_PATTERN = /(https?:\/\/[^\s<>"'、。「」]+)|(?<![\w&])#([\p{L}\p{N}_]+)|(?<![\w@])(@[\w.\-]*\w)|(?<![\d:])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:])/gu;
+// URL 末尾に付きがちな句読点は URL に含めない
+const TRAILING_PUNCTUATION = /[.,!?;:)\]]+$/;
+
+// https://www.youtube.com/redirect?q=... の外部リンクを元の URL に戻す
+export const unwrapRedirectUrl = (url: string): string => {
+    try {
+        const parsed = new URL(url, YOUTUBE_ORIGIN);
+        if (YOUTUBE_HOSTS.has(parsed.hostname) && parsed.pathname === '/redirect') {
+            return parsed.searchParams.get('q') ?? url;
+        }
+        return parsed.href;
+    } catch {
+        return url;
+    }
+};
+
+const isSafeExternalUrl = (url: string): boolean => {
+    try {
+        const { protocol } = new URL(url);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+// t=90 / t=1m30s 形式。再生ページの ?t= にも使う
+export const parseStartTime = (value: string | null): number | null => {
+    if (!value) return null;
+    const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+    if (!match || !match[0]) return null;
+    const [, hours = '0', minutes = '0', seconds = '0'] = match;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+};
+
+export const hashtagSearchPath = (tag: string) => `/results?search_query=${encodeURIComponent(`#${tag}`)}`;
+
+// YouTube の URL をアプリ内のルートに読み替える。対応しないものは null
+export const toInternalPath = (url: string): string | null => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url, YOUTUBE_ORIGIN);
+    } catch {
+        return null;
+    }
+    // 開始位置の指定はそのまま引き継ぐ
+    const seconds = parseStartTime(parsed.searchParams.get('t'));
+    const startQuery = seconds ? `?t=${seconds}` : '';
+    if (parsed.hostname === 'youtu.be') {
+        const id = parsed.pathname.slice(1);
+        return id ? `/watch/${id}${startQuery}` : null;
+    }
+    if (!YOUTUBE_HOSTS.has(parsed.hostname)) return null;
+
+    const [first, second] = parsed.pathname.split('/').filter(Boolean);
+    if (first === 'watch' && parsed.searchParams.get('v')) return `/watch/${parsed.searchParams.get('v')}${startQuery}`;
+    if (first === 'shorts' && second) return `/shorts/${second}`;
+    if (first === 'playlist' && parsed.searchParams.get('list')) return `/playlist/${parsed.searchParams.get('list')}`;
+    if (first === 'channel' && second) return `/channel/${second}`;
+    if (first === 'hashtag' && second) return hashtagSearchPath(decodeURIComponent(second));
+    if (first?.startsWith('@')) return `/channel/${decodeURIComponent(first)}`;
+    return null;
+};
+
+const linkSegment = (text: string, url: string, videoId?: string): RichTextSegment => {
+    const target = unwrapRedirectUrl(url);
+    try {
+        const parsed = new URL(target, YOUTUBE_ORIGIN);
+        // 同じ動画の &t= 付きリンクは再生位置の移動として扱う
+        const seconds = parseStartTime(parsed.searchParams.get('t'));
+        if (videoId && seconds !== null && (parsed.searchParams.get('v') === videoId || parsed.pathname === `/${videoId}`)) {
+            return { type: 'timestamp', text, seconds };
+        }
+    } catch {
+        // 下でテキストとして扱う
+    }
+    const path = toInternalPath(target);
+    if (path) return { type: 'internal', text, path };
+    if (isSafeExternalUrl(target)) return { type: 'link', text, href: target };
+    return { type: 'text', text };
+};
+
+export const segmentPlainText = (text: string, videoId?: string): RichTextSegment[] => {
+    const segments: RichTextSegment[] = [];
+    let lastIndex = 0;
+    const pushText = (value: string) => {
+        if (value) segments.push({ type: 'text', text: value });
+    };
+
+    for (const match of text.matchAll(PLAIN_TEXT_PATTERN)) {
+        const [full, url, hashtag, mention, timestamp] = match;
+        const index = match.index ?? 0;
+        pushText(text.slice(lastIndex, index));
+        lastIndex = index + full.length;
+
+        if (url) {
+            const trailing = url.match(TRAILING_PUNCTUATION)?.[0] ?? '';
+            const cleanUrl = url.slice(0, url.length - trailing.length);
+            segments.push(linkSegment(cleanUrl, cleanUrl, videoId));
+            pushText(trailing);
+        } else if (hashtag) {
+            segments.push({ type: 'internal', text: full, path: hashtagSearchPath(hashtag) });
+        } else if (mention) {
+            segments.push({ type: 'internal', text: full, path: `/channel/${mention}` });
+        } else if (timestamp) {
+            segments.push({ type: 'timestamp', text: full, seconds: parseTimestamp(timestamp) });
+        }
+    }
+    pushText(text.slice(lastIndex));
+    return segments;
+};
+
+export const segmentRuns = (runs: RichTextRun[], videoId?: string): RichTextSegment[] => {
+    return runs.flatMap<RichTextSegment>(run => {
+        if (run.url) return [linkSegment(run.text, run.url, videoId)];
+        if (run.bold || run.italics) return [{ type: 'text', text: run.text, bold: run.bold, italics: run.italics }];
+        return segmentPlainText(run.text, videoId);
+    });
+};
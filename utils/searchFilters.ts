@@ -0,0 +1,90 @@
+import type { SearchFilters, SearchUploadDate, SearchType, SearchDuration, SearchSortBy, SearchFeature } from '../types';
+
+// --- SEARCH FILTERS ---
+// /results のクエリ文字列と /api/search のパラメータは同じ名前を使う
+// (upload_date, type, duration, sort_by, features=カンマ区切り)。
+// URL に状態を持たせることで、共有や戻る操作でも同じ絞り込みが復元される。
+
+interface FilterOption<T extends string> {
+    value: T;
+    label: string;
+}
+
+export const UPLOAD_DATE_OPTIONS: FilterOption<SearchUploadDate>[] = [
+    { value: 'all', label: '指定なし' },
+    { value: 'hour', label: '1 時間以内' },
+    { value: 'today', label: '今日' },
+    { value: 'week', label: '今週' },
+    { value: 'month', label: '今月' },
+    { value: 'year', label: '今年' },
+];
+
+export const TYPE_OPTIONS: FilterOption<SearchType>[] = [
+    { value: 'all', label: 'すべて' },
+    { value: 'video', label: '動画' },
+    { value: 'channel', label: 'チャンネル' },
+    { value: 'playlist', label: '再生リスト' },
+    { value: 'movie', label: '映画' },
+];
+
+export const DURATION_OPTIONS: FilterOption<SearchDuration>[] = [
+    { value: 'all', label: '指定なし' },
+    { value: 'short', label: '4 分未満' },
+    { value: 'medium', label: '4〜20 分' },
+    { value: 'long', label: '20 分以上' },
+];
+
+export const SORT_OPTIONS: FilterOption<SearchSortBy>[] = [
+    { value: 'relevance', label: '関連度順' },
+    { value: 'upload_date', label: 'アップロード日' },
+    { value: 'view_count', label: '視聴回数' },
+    { value: 'rating', label: '評価' },
+];
+
+export const FEATURE_OPTIONS: FilterOption<SearchFeature>[] = [
+    { value: 'live', label: 'ライブ' },
+    { value: '4k', label: '4K' },
+    { value: 'hd', label: 'HD' },
+    { value: 'hdr', label: 'HDR' },
+    { value: 'subtitles', label: '字幕' },
+    { value: 'creative_commons', label: 'クリエイティブ・コモンズ' },
+    { value: '360', label: '360°' },
+    { value: 'vr180', label: 'VR180' },
+    { value: '3d', label: '3D' },
+    { value: 'location', label: '場所' },
+    { value: 'purchased', label: '購入済み' },
+];
+
+const pick = <T extends string>(options: FilterOption<T>[], value: string | null, fallback: T): T => {
+    return options.some(option => option.value === value) ? value as T : fallback;
+};
+
+export const parseSearchFilters = (params: URLSearchParams): SearchFilters => {
+    const features = (params.get('features') || '')
+        .split(',')
+        .filter((feature, index, list): feature is SearchFeature => FEATURE_OPTIONS.some(option => option.value === feature) && list.indexOf(feature) === index);
+    return {
+        uploadDate: pick(UPLOAD_DATE_OPTIONS, params.get('upload_date'), 'all'),
+        type: pick(TYPE_OPTIONS, params.get('type'), 'all'),
+        duration: pick(DURATION_OPTIONS, params.get('duration'), 'all'),
+        sortBy: pick(SORT_OPTIONS, params.get('sort_by'), 'relevance'),
+        features,
+    };
+};
+
+// 既定値は書き出さない。フィルターなしの URL は従来どおり ?search_query=... だけになる
+export const toSearchFilterEntries = (filters: SearchFilters | undefined): [string, string][] => {
+    if (!filters) return [];
+    const entries: [string, string][] = [];
+    if (filters.uploadDate && filters.uploadDate !== 'all') entries.push(['upload_date', filters.uploadDate]);
+    if (filters.type && filters.type !== 'all') entries.push(['type', filters.type]);
+    if (filters.duration && filters.duration !== 'all') entries.push(['duration', filters.duration]);
+    if (filters.sortBy && filters.sortBy !== 'relevance') entries.push(['sort_by', filters.sortBy]);
+    if (filters.features && filters.features.length > 0) entries.push(['features', filters.features.join(',')]);
+    return entries;
+};
+
+export const hasActiveSearchFilters = (filters: SearchFilters | undefined) => toSearchFilterEntries(filters).length > 0;
+
+// フィルターの組み合わせごとに一意な文字列。検索のやり直し判定に使う
+export const searchFiltersKey = (filters: SearchFilters | undefined) => new URLSearchParams(toSearchFilterEntries(filters)).toString();
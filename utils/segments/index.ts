@@ -0,0 +1,35 @@
+import { createSponsorBlockProvider } from './sponsorblock';
+import { localSegmentProvider } from './localStore';
+import { getSegmentSettings, ALL_SEGMENT_CATEGORIES } from './settings';
+import type { SegmentProvider, SkipSegment } from './types';
+import { isAbortError } from '../api';
+
+export type { SegmentCategory, SegmentAction, SegmentSourceId, SkipSegment, SegmentProvider } from './types';
+export { getSegmentSettings, saveSegmentSettings, subscribeToSegmentSettings, ALL_SEGMENT_CATEGORIES, SEGMENT_CATEGORY_LABELS, SEGMENT_CATEGORY_COLORS, SEGMENT_ACTION_LABELS, DEFAULT_SEGMENT_SETTINGS, type SegmentSettings } from './settings';
+export { getLocalSegments, addLocalSegment, removeLocalSegment, subscribeToLocalSegments } from './localStore';
+
+// --- SEGMENT LOOKUP ---
+// 有効な取得元すべてから区間を集める。サーバーが落ちていてもローカルの区間は使えるようにする。
+
+const resolveSegmentProviders = (): SegmentProvider[] => {
+    const settings = getSegmentSettings();
+    return settings.useServer
+        ? [createSponsorBlockProvider(settings.serverUrl), localSegmentProvider]
+        : [localSegmentProvider];
+};
+
+export const getSkipSegments = async (videoId: string, signal?: AbortSignal): Promise<SkipSegment[]> => {
+    const { actions } = getSegmentSettings();
+    const categories = ALL_SEGMENT_CATEGORIES.filter(category => actions[category] !== 'off');
+
+    const results = await Promise.all(resolveSegmentProviders().map(async provider => {
+        try {
+            return await provider.getSegments(videoId, categories, signal);
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            console.warn(`[segments:${provider.id}] failed to load segments`, error);
+            return [];
+        }
+    }));
+    return results.flat().sort((a, b) => a.start - b.start);
+};
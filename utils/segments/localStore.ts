@@ -0,0 +1,61 @@
+import type { SegmentCategory, SegmentProvider, SkipSegment } from './types';
+
+// --- LOCAL SEGMENT STORE ---
+// ユーザーが自分で付けたスキップ区間。動画IDごとに localStorage に保存する。
+
+const STORAGE_KEY = 'localSkipSegments';
+
+type SegmentMap = Record<string, SkipSegment[]>;
+
+const listeners = new Set<(videoId: string) => void>();
+
+const readAll = (): SegmentMap => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : {};
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+const writeVideo = (videoId: string, segments: SkipSegment[]) => {
+    const all = readAll();
+    if (segments.length > 0) all[videoId] = segments;
+    else delete all[videoId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    listeners.forEach(listener => listener(videoId));
+};
+
+export const getLocalSegments = (videoId: string): SkipSegment[] => {
+    const segments = readAll()[videoId];
+    return Array.isArray(segments) ? segments : [];
+};
+
+export const addLocalSegment = (videoId: string, category: SegmentCategory, start: number, end: number): SkipSegment => {
+    const segment: SkipSegment = {
+        id: `local-${Date.now().toString(36)}`,
+        category,
+        start: Math.min(start, end),
+        end: Math.max(start, end),
+        source: 'local',
+    };
+    writeVideo(videoId, [...getLocalSegments(videoId), segment].sort((a, b) => a.start - b.start));
+    return segment;
+};
+
+export const removeLocalSegment = (videoId: string, segmentId: string) => {
+    writeVideo(videoId, getLocalSegments(videoId).filter(segment => segment.id !== segmentId));
+};
+
+export const subscribeToLocalSegments = (listener: (videoId: string) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const localSegmentProvider: SegmentProvider = {
+    id: 'local',
+    async getSegments(videoId, categories) {
+        return getLocalSegments(videoId).filter(segment => categories.includes(segment.category));
+    },
+};
@@ -0,0 +1,79 @@
+import type { SegmentAction, SegmentCategory } from './types';
+
+// --- SEGMENT SETTINGS ---
+// SponsorBlock 互換サーバーの URL と、カテゴリごとの動作 (自動スキップ / 表示のみ / 無視)。
+
+export interface SegmentSettings {
+    // false のときはサーバーに問い合わせず、ローカルの区間だけを使う
+    useServer: boolean;
+    serverUrl: string;
+    actions: Record<SegmentCategory, SegmentAction>;
+}
+
+const STORAGE_KEY = 'skipSegmentSettings';
+
+export const ALL_SEGMENT_CATEGORIES: SegmentCategory[] = ['sponsor', 'intro', 'outro', 'selfpromo'];
+
+export const SEGMENT_CATEGORY_LABELS: Record<SegmentCategory, string> = {
+    sponsor: 'スポンサー',
+    intro: 'イントロ',
+    outro: 'エンドカード',
+    selfpromo: '宣伝',
+};
+
+// シークバー上の色 (SponsorBlock の既定色に合わせる)
+export const SEGMENT_CATEGORY_COLORS: Record<SegmentCategory, string> = {
+    sponsor: '#00d400',
+    intro: '#00ffff',
+    outro: '#0202ed',
+    selfpromo: '#ffff00',
+};
+
+export const SEGMENT_ACTION_LABELS: Record<SegmentAction, string> = {
+    skip: '自動スキップ',
+    mark: '表示のみ',
+    off: '無視',
+};
+
+export const DEFAULT_SEGMENT_SETTINGS: SegmentSettings = {
+    useServer: true,
+    serverUrl: 'https://sponsor.ajay.app',
+    actions: { sponsor: 'skip', intro: 'mark', outro: 'mark', selfpromo: 'mark' },
+};
+
+const listeners = new Set<(settings: SegmentSettings) => void>();
+
+const SEGMENT_ACTIONS: SegmentAction[] = ['skip', 'mark', 'off'];
+
+const sanitize = (raw: Partial<SegmentSettings>): SegmentSettings => {
+    const actions = { ...DEFAULT_SEGMENT_SETTINGS.actions };
+    ALL_SEGMENT_CATEGORIES.forEach(category => {
+        const action = raw.actions?.[category];
+        if (action && SEGMENT_ACTIONS.includes(action)) actions[category] = action;
+    });
+    return {
+        useServer: typeof raw.useServer === 'boolean' ? raw.useServer : DEFAULT_SEGMENT_SETTINGS.useServer,
+        serverUrl: (raw.serverUrl || DEFAULT_SEGMENT_SETTINGS.serverUrl).trim().replace(/\/+$/, ''),
+        actions,
+    };
+};
+
+export const getSegmentSettings = (): SegmentSettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? sanitize(JSON.parse(stored)) : DEFAULT_SEGMENT_SETTINGS;
+    } catch {
+        return DEFAULT_SEGMENT_SETTINGS;
+    }
+};
+
+export const saveSegmentSettings = (settings: SegmentSettings) => {
+    const sanitized = sanitize(settings);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sanitized));
+    listeners.forEach(listener => listener(sanitized));
+};
+
+export const subscribeToSegmentSettings = (listener: (settings: SegmentSettings) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,59 @@
+import { ApiError } from '../resilience';
+import { fetchProviderJson } from '../providers/http';
+import type { SegmentCategory, SegmentProvider, SkipSegment } from './types';
+
+// --- SPONSORBLOCK CLIENT ---
+// https://wiki.sponsor.ajay.app/w/API_Docs 互換。公式サーバー以外に自前のミラーも指定できる。
+// 可能な場合は動画IDの SHA-256 先頭4文字で問い合わせ、どの動画を見ているかをサーバーに渡さない。
+
+const FAMILY = 'sponsorblock';
+const HASH_PREFIX_LENGTH = 4;
+
+interface RawSegment {
+    segment?: [number, number];
+    UUID?: string;
+    category?: string;
+    actionType?: string;
+}
+
+const sha256Hex = async (value: string): Promise<string | null> => {
+    if (!globalThis.crypto?.subtle) return null;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const mapSegments = (rawSegments: RawSegment[], categories: SegmentCategory[]): SkipSegment[] => {
+    return rawSegments
+        .filter(raw => Array.isArray(raw.segment) && (raw.actionType ?? 'skip') === 'skip' && categories.includes(raw.category as SegmentCategory))
+        .map(raw => ({
+            id: raw.UUID || `${raw.category}-${raw.segment![0]}`,
+            category: raw.category as SegmentCategory,
+            start: raw.segment![0],
+            end: raw.segment![1],
+            source: 'sponsorblock' as const,
+        }))
+        .filter(segment => segment.end > segment.start);
+};
+
+export const createSponsorBlockProvider = (serverUrl: string): SegmentProvider => ({
+    id: 'sponsorblock',
+
+    async getSegments(videoId, categories, signal) {
+        if (categories.length === 0) return [];
+        const categoryParam = `categories=${encodeURIComponent(JSON.stringify(categories))}`;
+        const hash = await sha256Hex(videoId);
+        try {
+            if (hash) {
+                const data = await fetchProviderJson(FAMILY, `${serverUrl}/api/skipSegments/${hash.slice(0, HASH_PREFIX_LENGTH)}?${categoryParam}`, signal);
+                const entry = Array.isArray(data) ? data.find((item: any) => item?.videoID === videoId) : null;
+                return mapSegments(entry?.segments ?? [], categories);
+            }
+            const data = await fetchProviderJson(FAMILY, `${serverUrl}/api/skipSegments?videoID=${encodeURIComponent(videoId)}&${categoryParam}`, signal);
+            return mapSegments(Array.isArray(data) ? data : [], categories);
+        } catch (error) {
+            // 区間が1つも登録されていない動画は 404 が返る
+            if (error instanceof ApiError && error.status === 404) return [];
+            throw error;
+        }
+    },
+});
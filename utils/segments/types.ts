@@ -0,0 +1,26 @@
+// --- SKIP SEGMENT TYPES ---
+
+export type SegmentCategory = 'sponsor' | 'intro' | 'outro' | 'selfpromo';
+
+// skip = 自動でスキップ, mark = シークバーに表示してボタンでスキップ, off = 無視
+export type SegmentAction = 'skip' | 'mark' | 'off';
+
+export type SegmentSourceId = 'sponsorblock' | 'local';
+
+// start / end は秒単位
+export interface SkipSegment {
+    id: string;
+    category: SegmentCategory;
+    start: number;
+    end: number;
+    source: SegmentSourceId;
+}
+
+/**
+ * スキップ区間の取得元の共通インターフェース。
+ * SponsorBlock 互換サーバーとローカルの区間ストアが実装する。
+ */
+export interface SegmentProvider {
+    id: SegmentSourceId;
+    getSegments(videoId: string, categories: SegmentCategory[], signal?: AbortSignal): Promise<SkipSegment[]>;
+}
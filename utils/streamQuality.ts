@@ -0,0 +1,87 @@
+import type { StreamData } from './providers';
+
+// --- STREAM QUALITY ---
+// Stream モードで選べる画質の一覧を StreamData から作る。
+// 音声付きの combinedFormats はそのまま1本の <video> で、separate1080p は映像のみ + 音声を
+// StreamingPlayer の2要素で再生する。
+
+export interface StreamSource {
+    id: string; // "720p", "1080p" など。画質設定として保存する値
+    label: string;
+    height: number;
+    videoUrl: string;
+    // separate1080p のときだけ別の音声ストリームを持つ
+    audioUrl?: string;
+}
+
+// 'auto' は回線状況に合わせて音声付きの画質から選ぶ
+export type StreamQualityPreference = 'auto' | string;
+
+const parseHeight = (quality: string | undefined): number => {
+    const match = quality?.match(/(\d{3,4})p/);
+    return match ? parseInt(match[1], 10) : 0;
+};
+
+export const buildStreamSources = (streamData: StreamData | null): StreamSource[] => {
+    if (!streamData) return [];
+    const sources: StreamSource[] = [];
+    const seen = new Set<string>();
+
+    const separate = streamData.separate1080p;
+    if (separate?.video?.url && separate.audio?.url) {
+        const height = parseHeight(separate.video.quality) || 1080;
+        sources.push({ id: `${height}p`, label: `${height}p`, height, videoUrl: separate.video.url, audioUrl: separate.audio.url });
+        seen.add(`${height}p`);
+    }
+
+    (streamData.combinedFormats ?? []).forEach(format => {
+        const height = parseHeight(format.quality);
+        const id = height ? `${height}p` : (format.quality || 'default');
+        if (!format.url || seen.has(id)) return;
+        seen.add(id);
+        sources.push({ id, label: height ? `${height}p` : (format.quality || '標準'), height, videoUrl: format.url });
+    });
+
+    // combinedFormats を返さない取得元では streamingUrl だけが使える
+    if (sources.length === 0 && streamData.streamingUrl) {
+        sources.push({ id: 'default', label: '標準', height: 0, videoUrl: streamData.streamingUrl });
+    }
+
+    return sources.sort((a, b) => b.height - a.height);
+};
+
+// Network Information API は lib.dom に無い (Chromium 系のみ) ので必要な分だけ型を付ける
+interface NavigatorWithConnection extends Navigator {
+    connection?: { effectiveType?: string; downlink?: number; saveData?: boolean };
+}
+
+const SLOW_CONNECTION_TYPES = ['slow-2g', '2g', '3g'];
+
+// 省データ設定や低速回線のときは auto でも一番低い画質にする
+const prefersLowQuality = (): boolean => {
+    const connection = (navigator as NavigatorWithConnection).connection;
+    if (!connection) return false;
+    return connection.saveData === true || SLOW_CONNECTION_TYPES.includes(connection.effectiveType ?? '');
+};
+
+export const pickStreamSource = (sources: StreamSource[], preference: StreamQualityPreference): StreamSource | null => {
+    if (sources.length === 0) return null;
+
+    if (preference !== 'auto') {
+        const exact = sources.find(source => source.id === preference);
+        if (exact) return exact;
+        // 希望の画質が無い動画では、それ以下で一番高いものにする
+        const preferredHeight = parseHeight(preference);
+        return sources.find(source => source.height <= preferredHeight) ?? sources[sources.length - 1];
+    }
+
+    // 音声付き (1本の <video>) のほうが安定するので、auto では別音声の画質を選ばない
+    const combined = sources.filter(source => !source.audioUrl);
+    const candidates = combined.length > 0 ? combined : sources;
+    return prefersLowQuality() ? candidates[candidates.length - 1] : candidates[0];
+};
+
+// 音声のみモード用。audioOnlyFormat を返さない取得元では 1080p 用の音声ストリームを使う
+export const getAudioOnlyUrl = (streamData: StreamData | null): string | null => {
+    return streamData?.audioOnlyFormat?.url || streamData?.separate1080p?.audio?.url || null;
+};
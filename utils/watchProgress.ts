@@ -0,0 +1,36 @@
+import type { WatchProgress } from '../types';
+
+// --- WATCH PROGRESS ---
+// 再生位置の記録ルール。HistoryContext が保存し、プレイヤー・カード・レコメンドから参照する。
+
+// これより手前で閉じた動画は「続きから」にしない
+const MIN_RESUME_SECONDS = 5;
+// 残りがこれ以下、または割合がこれ以上なら見終わったとみなす
+const COMPLETION_REMAINING_SECONDS = 15;
+const COMPLETION_RATIO = 0.95;
+
+export const getProgressRatio = (progress: WatchProgress | undefined): number => {
+    if (!progress || progress.duration <= 0) return 0;
+    return Math.min(1, progress.position / progress.duration);
+};
+
+export const isWatchCompleted = (progress: WatchProgress | undefined): boolean => {
+    if (!progress || progress.duration <= 0) return false;
+    return progress.maxRatio >= COMPLETION_RATIO || progress.duration - progress.position <= COMPLETION_REMAINING_SECONDS;
+};
+
+// 見終わった動画・ほとんど見ていない動画は最初から
+export const getResumePosition = (progress: WatchProgress | undefined): number => {
+    if (!progress || progress.position < MIN_RESUME_SECONDS || isWatchCompleted(progress)) return 0;
+    return Math.floor(progress.position);
+};
+
+export const mergeWatchProgress = (previous: WatchProgress | undefined, position: number, duration: number): WatchProgress => {
+    const ratio = duration > 0 ? Math.min(1, position / duration) : 0;
+    return {
+        position,
+        duration,
+        maxRatio: Math.max(previous?.maxRatio ?? 0, ratio),
+        updatedAt: Date.now(),
+    };
+};
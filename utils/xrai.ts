@@ -1,5 +1,5 @@
 
-import type { Video, Channel } from '../types';
+import type { Video, Channel, WatchProgress } from '../types';
 
 // --- Types ---
 
@@ -13,6 +13,7 @@ interface UserSources {
   shortsHistory?: Video[];
   searchHistory: string[];
   subscribedChannels: Channel[];
+  watchProgress?: Record<string, WatchProgress>;
 }
 
 // --- Keyword Extraction ---
@@ -79,9 +80,16 @@ export const buildUserProfile = (sources: UserSources): UserProfile => {
     addKeywords(term, 8.0 * Math.exp(-index / 10)); 
   });
 
+  // How much of the video was actually watched is a stronger signal than the click itself:
+  // opened-and-left videos count for half, fully watched ones for double.
+  const completionWeight = (videoId: string): number => {
+    const progress = sources.watchProgress?.[videoId];
+    return progress ? 0.5 + 1.5 * progress.maxRatio : 1.0;
+  };
+
   // Watch history (Implicit feedback)
   sources.watchHistory.slice(0, 50).forEach((video, index) => {
-    const recencyWeight = 5.0 * Math.exp(-index / 15);
+    const recencyWeight = 5.0 * Math.exp(-index / 15) * completionWeight(video.id);
     addKeywords(video.title, recencyWeight);
     addKeywords(video.channelName, recencyWeight * 1.5);
   });
@@ -89,7 +97,7 @@ export const buildUserProfile = (sources: UserSources): UserProfile => {
   // Shorts history (Implicit feedback - slightly lower weight than long-form)
   if (sources.shortsHistory) {
     sources.shortsHistory.slice(0, 30).forEach((video, index) => {
-        const recencyWeight = 3.5 * Math.exp(-index / 15);
+        const recencyWeight = 3.5 * Math.exp(-index / 15) * completionWeight(video.id);
         addKeywords(video.title, recencyWeight);
         addKeywords(video.channelName, recencyWeight * 1.5);
     });
@@ -0,0 +1,407 @@
+import type { Video, Channel, RichTextRun } from '../types';
+import { recordMapped, recordFallback, recordUnknownType, recordDropped } from './mappingDiagnostics';
+
+// --- YOUTUBEI RENDERER PARSERS ---
+// youtubei.js のレンダラーごとに形を定義し、必須フィールドを検証してから Video / Channel に変換する。
+// 既定値に頼った場合や未知の型は mappingDiagnostics に記録される。
+
+// --- Raw renderer shapes ---
+
+interface RawText {
+    text?: string;
+    simpleText?: string;
+    content?: string;
+    runs?: { text?: string }[];
+}
+
+interface RawThumbnail {
+    url?: string;
+    width?: number;
+    height?: number;
+}
+
+interface RawAuthor {
+    id?: string;
+    name?: string;
+    thumbnails?: RawThumbnail[];
+}
+
+interface RawMetadataRow {
+    metadata_parts?: { text?: RawText }[];
+}
+
+// Video, CompactVideo, GridVideo, PlaylistVideo, PlaylistPanelVideo, WatchCardCompactVideo, EndScreenVideo
+interface RawCompactVideo {
+    type?: string;
+    id?: string;
+    video_id?: string;
+    videoId?: string;
+    title?: RawText | string;
+    thumbnails?: RawThumbnail[];
+    thumbnail?: RawThumbnail[] | RawThumbnail;
+    duration?: { text?: string; seconds?: number };
+    length?: RawText;
+    thumbnail_overlays?: { type?: string; text?: string }[];
+    view_count?: RawText;
+    short_view_count?: RawText;
+    published?: RawText;
+    author?: RawAuthor;
+    channel?: RawAuthor;
+    description_snippet?: RawText;
+    snippets?: { text?: RawText }[]; // 検索結果 (detailedMetadataSnippets)
+}
+
+interface RawLockupView {
+    type: 'LockupView';
+    content_id?: string;
+    content_type?: string;
+    content_image?: {
+        image?: RawThumbnail[];
+        primary_thumbnail?: { image?: RawThumbnail[]; overlays?: { badges?: { text?: string }[] }[] };
+        overlays?: { badges?: { text?: string }[] }[];
+    } | RawThumbnail[];
+    metadata?: {
+        title?: RawText;
+        metadata?: { metadata_rows?: RawMetadataRow[] };
+    };
+}
+
+interface RawShortsLockupView {
+    type: 'ShortsLockupView';
+    entity_id?: string;
+    on_tap?: {
+        innertubeCommand?: {
+            payload?: { videoId?: string };
+            reelWatchEndpoint?: { videoId?: string };
+        };
+    };
+    thumbnail?: { sources?: RawThumbnail[] } | RawThumbnail[];
+    overlay_metadata?: {
+        primaryText?: { content?: string };
+        secondaryText?: { content?: string };
+        primary_text?: RawText;
+        secondary_text?: RawText;
+    };
+}
+
+interface RawReelItem {
+    type: 'ReelItem';
+    id?: string;
+    title?: RawText;
+    thumbnails?: RawThumbnail[];
+    views?: RawText;
+}
+
+interface RawChannel {
+    type?: string;
+    id?: string;
+    name?: string;
+    title?: RawText;
+    author?: RawAuthor;
+    thumbnails?: RawThumbnail[] | RawThumbnail;
+    thumbnail?: RawThumbnail[] | RawThumbnail;
+    avatar?: RawThumbnail[] | RawThumbnail;
+    subscriber_count?: RawText;
+    video_count?: RawText;
+}
+
+// Narrow with `'reason' in result`: without strictNullChecks TS won't narrow on `ok`
+type ParseResult<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+// Fields a renderer may provide. Missing ones are filled with defaults in buildVideo.
+interface VideoFields {
+    id: string;
+    title?: string;
+    thumbnailUrl?: string;
+    duration?: string;
+    durationSeconds?: number;
+    views?: string;
+    uploadedAt?: string;
+    channelName?: string;
+    channelId?: string;
+    channelAvatarUrl?: string;
+    descriptionSnippet?: string;
+}
+
+// --- Primitive readers ---
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+const readString = (value: unknown): string | undefined => {
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
+
+export const readText = (value: unknown): string | undefined => {
+    if (typeof value === 'string') return readString(value);
+    if (!isObject(value)) return undefined;
+    const direct = readString(value.text) ?? readString(value.simpleText) ?? readString(value.content);
+    if (direct) return direct;
+    if (Array.isArray(value.runs)) {
+        return readString(value.runs.map((run: any) => run?.text ?? '').join(''));
+    }
+    return undefined;
+};
+
+// Text のランを遷移先 URL 付きで取り出す (説明欄のリンク・ハッシュタグ・タイムスタンプ用)
+export const readTextRuns = (value: unknown): RichTextRun[] | undefined => {
+    if (!isObject(value) || !Array.isArray(value.runs)) return undefined;
+    const runs = value.runs
+        .filter(isObject)
+        .map((run): RichTextRun => ({
+            text: typeof run.text === 'string' ? run.text : '',
+            url: readString(run.endpoint?.metadata?.url) ?? readString(run.endpoint?.payload?.url),
+            bold: run.bold === true || undefined,
+            italics: run.italics === true || undefined,
+        }))
+        .filter(run => run.text.length > 0);
+    return runs.length > 0 ? runs : undefined;
+};
+
+const readThumbnailUrl = (value: unknown): string | undefined => {
+    let url: string | undefined;
+    if (Array.isArray(value)) {
+        url = readString(value[0]?.url);
+    } else if (isObject(value)) {
+        url = readString(value.url)
+            ?? readThumbnailUrl(value.sources)
+            ?? readThumbnailUrl(value.image)
+            ?? readThumbnailUrl(value.primary_thumbnail);
+    }
+    return url ? url.split('?')[0] : undefined;
+};
+
+const ok = <T,>(value: T): ParseResult<T> => ({ ok: true, value });
+const fail = <T,>(reason: string): ParseResult<T> => ({ ok: false, reason });
+
+// --- Renderer parsers ---
+
+const parseCompactVideo = (item: RawCompactVideo): ParseResult<VideoFields> => {
+    const id = readString(item.id) ?? readString(item.video_id) ?? readString(item.videoId);
+    if (!id) return fail('missing id');
+
+    const durationOverlay = (item.thumbnail_overlays || []).find(o => o?.type === 'ThumbnailOverlayTimeStatus');
+    const author = item.author || item.channel;
+
+    return ok({
+        id,
+        title: readText(item.title),
+        thumbnailUrl: readThumbnailUrl(item.thumbnails) ?? readThumbnailUrl(item.thumbnail),
+        duration: readString(item.duration?.text) ?? readText(item.length) ?? readString(durationOverlay?.text),
+        durationSeconds: typeof item.duration?.seconds === 'number' ? item.duration.seconds : undefined,
+        views: readText(item.view_count) ?? readText(item.short_view_count),
+        uploadedAt: readText(item.published),
+        channelName: readString(author?.name),
+        channelId: readString(author?.id),
+        channelAvatarUrl: readThumbnailUrl(author?.thumbnails),
+        descriptionSnippet: readText(item.description_snippet) ?? readText(item.snippets?.[0]?.text),
+    });
+};
+
+const NON_VIDEO_LOCKUP_TYPES = new Set(['PLAYLIST', 'ALBUM', 'PODCAST', 'SHOPPING_COLLECTION', 'PRODUCT', 'GAME', 'CHANNEL']);
+
+const parseLockupView = (item: RawLockupView): ParseResult<VideoFields> => {
+    const id = readString(item.content_id);
+    if (!id) return fail('missing content_id');
+    if (item.content_type && NON_VIDEO_LOCKUP_TYPES.has(item.content_type)) {
+        return fail(`non-video lockup (${item.content_type})`);
+    }
+
+    // Example: [{"metadata_parts": [{"text": "oricon"}]}, {"metadata_parts": [{"text": "22万 回視聴"}, {"text": "8 年前"}]}]
+    const rows = item.metadata?.metadata?.metadata_rows;
+    const channelRow = Array.isArray(rows) ? rows[0] : undefined;
+    const statsRow = Array.isArray(rows) ? rows[1] : undefined;
+
+    const image = item.content_image;
+    const overlays = isObject(image) && !Array.isArray(image)
+        ? (image.overlays ?? image.primary_thumbnail?.overlays ?? [])
+        : [];
+    const durationBadge = overlays.flatMap(o => o?.badges ?? []).find(b => readString(b?.text));
+
+    return ok({
+        id,
+        title: readText(item.metadata?.title),
+        thumbnailUrl: readThumbnailUrl(image),
+        duration: readString(durationBadge?.text),
+        views: readText(statsRow?.metadata_parts?.[0]?.text),
+        uploadedAt: readText(statsRow?.metadata_parts?.[1]?.text),
+        channelName: readText(channelRow?.metadata_parts?.[0]?.text),
+    });
+};
+
+const parseShortsLockupViewFields = (item: RawShortsLockupView): ParseResult<VideoFields> => {
+    const command = item.on_tap?.innertubeCommand;
+    const id = readString(command?.payload?.videoId)
+        ?? readString(command?.reelWatchEndpoint?.videoId)
+        ?? readString(item.entity_id?.replace(/^shorts-shelf-item-/, ''));
+    if (!id) return fail('missing videoId');
+
+    const overlay = item.overlay_metadata;
+    return ok({
+        id,
+        title: readString(overlay?.primaryText?.content) ?? readText(overlay?.primary_text),
+        thumbnailUrl: readThumbnailUrl(item.thumbnail),
+        views: readString(overlay?.secondaryText?.content) ?? readText(overlay?.secondary_text),
+    });
+};
+
+const parseReelItem = (item: RawReelItem): ParseResult<VideoFields> => {
+    const id = readString(item.id);
+    if (!id) return fail('missing id');
+    return ok({
+        id,
+        title: readText(item.title),
+        thumbnailUrl: readThumbnailUrl(item.thumbnails),
+        views: readText(item.views),
+    });
+};
+
+const VIDEO_PARSERS: Record<string, (item: any) => ParseResult<VideoFields>> = {
+    Video: parseCompactVideo,
+    CompactVideo: parseCompactVideo,
+    GridVideo: parseCompactVideo,
+    PlaylistVideo: parseCompactVideo,
+    PlaylistPanelVideo: parseCompactVideo,
+    WatchCardCompactVideo: parseCompactVideo,
+    EndScreenVideo: parseCompactVideo,
+    LockupView: parseLockupView,
+    ShortsLockupView: parseShortsLockupViewFields,
+    ReelItem: parseReelItem,
+};
+
+// Renderers that legitimately appear in video feeds but are not videos
+const NON_VIDEO_TYPES = new Set([
+    'Channel', 'GridChannel', 'Playlist', 'GridPlaylist', 'CompactPlaylist', 'CompactMix', 'CompactRadio',
+    'Shelf', 'ReelShelf', 'RichShelf', 'HorizontalCardList', 'ContinuationItem', 'AdSlot', 'Message',
+]);
+
+const unwrapItem = (item: any): any => {
+    // RichItem wrappers carry the real renderer in `content`
+    if (item?.type === 'RichItem' && isObject(item.content)) return item.content;
+    return item;
+};
+
+const buildVideo = (mapper: string, fields: VideoFields): Video => {
+    const withFallback = (field: string, value: string | undefined, fallback: string): string => {
+        if (value) return value;
+        recordFallback(mapper, field);
+        return fallback;
+    };
+
+    recordMapped(mapper);
+    return {
+        id: fields.id,
+        thumbnailUrl: withFallback('thumbnailUrl', fields.thumbnailUrl, `https://i.ytimg.com/vi/${fields.id}/hqdefault.jpg`),
+        duration: fields.duration ?? '',
+        isoDuration: `PT${fields.durationSeconds ?? 0}S`,
+        title: withFallback('title', fields.title, '無題の動画'),
+        channelName: withFallback('channelName', fields.channelName, '不明なチャンネル'),
+        channelId: fields.channelId ?? '',
+        channelAvatarUrl: fields.channelAvatarUrl ?? '',
+        views: withFallback('views', fields.views, '視聴回数不明'),
+        uploadedAt: fields.uploadedAt ?? '',
+        descriptionSnippet: fields.descriptionSnippet ?? '',
+    };
+};
+
+/**
+ * youtubei の動画系アイテムを Video に変換する。`uploadedAt` は生のテキストのまま返す。
+ * 変換できないアイテムは null を返し、理由を mapper 名で記録する。
+ */
+export const parseVideoItem = (rawItem: unknown, mapper: string): Video | null => {
+    const item = unwrapItem(rawItem);
+    if (!isObject(item)) {
+        recordDropped(mapper, 'not an object');
+        return null;
+    }
+
+    const type = readString(item.type);
+    let result: ParseResult<VideoFields>;
+    if (type && VIDEO_PARSERS[type]) {
+        result = VIDEO_PARSERS[type](item);
+    } else if (type && NON_VIDEO_TYPES.has(type)) {
+        recordDropped(mapper, `non-video type (${type})`);
+        return null;
+    } else {
+        // Untyped items come from external APIs; anything else is a renderer we don't know yet
+        if (type) recordUnknownType(mapper, type);
+        result = parseCompactVideo(item);
+        if (!result.ok && readString(item.content_id)) result = parseLockupView({ ...item, type: 'LockupView' });
+    }
+
+    if ('reason' in result) {
+        recordDropped(mapper, `${type ?? 'untyped'}: ${result.reason}`);
+        return null;
+    }
+    return buildVideo(mapper, result.value);
+};
+
+/**
+ * ShortsLockupView だけを Video に変換する（チャンネルのショートタブ用）。
+ */
+export const parseShortsLockupView = (rawItem: unknown, mapper: string): Video | null => {
+    const item = unwrapItem(rawItem);
+    const type = isObject(item) ? readString(item.type) : undefined;
+    if (type !== 'ShortsLockupView') {
+        if (type) recordUnknownType(mapper, type);
+        else recordDropped(mapper, 'untyped item');
+        return null;
+    }
+    const result = parseShortsLockupViewFields(item as RawShortsLockupView);
+    if ('reason' in result) {
+        recordDropped(mapper, `ShortsLockupView: ${result.reason}`);
+        return null;
+    }
+    const { id, title, thumbnailUrl, views } = result.value;
+    if (!title) recordFallback(mapper, 'title');
+    if (!thumbnailUrl) recordFallback(mapper, 'thumbnailUrl');
+    recordMapped(mapper);
+    // Shorts cards don't have duration, upload date or channel info
+    return {
+        id,
+        title: title ?? 'Untitled Short',
+        thumbnailUrl: thumbnailUrl ?? '',
+        views: views ?? '',
+        duration: '',
+        isoDuration: '',
+        uploadedAt: '',
+        channelName: '',
+        channelId: '',
+        channelAvatarUrl: '',
+    };
+};
+
+/**
+ * 検索結果などのチャンネルアイテムを Channel に変換する。
+ */
+export const parseChannelItem = (rawItem: unknown, mapper: string): Channel | null => {
+    const item = unwrapItem(rawItem) as RawChannel;
+    const id = isObject(item) ? readString(item.id) : undefined;
+    if (!id) {
+        recordDropped(mapper, 'missing id');
+        return null;
+    }
+
+    // Some API responses put the avatar directly in a 'thumbnail' property (singular)
+    let avatarUrl = readThumbnailUrl(item.thumbnails)
+        ?? readThumbnailUrl(item.thumbnail)
+        ?? readThumbnailUrl(item.author?.thumbnails)
+        ?? readThumbnailUrl(item.avatar);
+    if (!avatarUrl) {
+        recordFallback(mapper, 'avatarUrl');
+        avatarUrl = 'https://www.gstatic.com/youtube/img/creator/avatar/default_64.svg';
+    }
+
+    let name = readString(item.name) ?? readString(item.author?.name) ?? readText(item.title);
+    if (!name) {
+        recordFallback(mapper, 'name');
+        name = 'No Name';
+    }
+
+    recordMapped(mapper);
+    return {
+        id,
+        name,
+        avatarUrl,
+        subscriberCount: readText(item.subscriber_count) ?? readText(item.video_count) ?? '',
+    };
+};